@@ -0,0 +1,96 @@
+// app.ts - Application factory: middleware and routes, independent of how the database is opened
+import { Application, Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { oakCors } from "https://deno.land/x/cors@v1.2.2/mod.ts";
+import { Database } from "@sqlite";
+import { watchRoutes } from "./routes/watches.ts";
+import { watchImageRoutes } from "./routes/watch_images.ts";
+import { attachmentRoutes } from "./routes/attachments.ts";
+import { reservationRoutes } from "./routes/reservations.ts";
+import { inquiryRoutes } from "./routes/inquiries.ts";
+import { authRoutes } from "./routes/auth.ts";
+import { userRoutes } from "./routes/users.ts";
+import { apiRoutes } from "./routes/api.ts";
+import { authMiddleware, requirePermission } from "./middleware/auth.ts";
+import { errorMiddleware } from "./middleware/errors.ts";
+import { REQUEST_ID_HEADER, requestLoggingMiddleware } from "./middleware/logging.ts";
+import { staticMiddleware } from "./middleware/static.ts";
+import { RATE_LIMIT_HEADERS, RateLimitOptions, rateLimitEnabled, rateLimitMiddleware } from "./middleware/rate_limit.ts";
+import { defaultRateLimitStore } from "./services/rate_limit.ts";
+import { processWatchImage } from "./services/images.ts";
+import { readFileUpload } from "./services/uploads.ts";
+import { NotFoundError } from "./utils/errors.ts";
+import { logger } from "./utils/logger.ts";
+
+export interface AppOptions {
+  // Rate limiting settings, or false to turn it off; by default it follows rateLimitEnabled()
+  rateLimit?: RateLimitOptions | false;
+}
+
+// main.ts serves this on a port; tests drive it in-process with app.handle()
+export function createApp(db: Database, options: AppOptions = {}): Application {
+  const app = new Application();
+  const router = new Router();
+
+  // Middleware
+  app.use(requestLoggingMiddleware);
+  app.use(errorMiddleware);
+  app.use(oakCors({
+    origin: "*",
+    methods: ["GET", "POST", "PUT", "DELETE"],
+    allowedHeaders: ["Content-Type", "Authorization", REQUEST_ID_HEADER],
+    exposedHeaders: [REQUEST_ID_HEADER, ...RATE_LIMIT_HEADERS]
+  }));
+
+  // Add database to context
+  app.use(async (ctx, next) => {
+    ctx.state.db = db;
+    await next();
+  });
+
+  const rateLimit = options.rateLimit ?? (rateLimitEnabled() ? {} : false);
+  if (rateLimit) {
+    app.use(rateLimitMiddleware({ store: defaultRateLimitStore(db), ...rateLimit }));
+  }
+
+  // Static file serving
+  app.use(staticMiddleware());
+
+  // File upload route
+  router.post("/api/admin/upload", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+    const { content } = await readFileUpload(ctx, "image");
+    const image = await processWatchImage(content);
+    
+    logger.info("Image uploaded", { filename: image.filename, size: image.size, width: image.width, height: image.height });
+    
+    ctx.response.body = {
+      success: true,
+      imageUrl: image.url,
+      filename: image.filename,
+      size: image.size,
+      data: image
+    };
+  });
+
+  // Routes
+  app.use(router.routes());
+  app.use(watchRoutes.routes());
+  app.use(watchImageRoutes.routes());
+  app.use(attachmentRoutes.routes());
+  app.use(reservationRoutes.routes());
+  app.use(inquiryRoutes.routes());
+  app.use(authRoutes.routes());
+  app.use(userRoutes.routes());
+  app.use(apiRoutes.routes());
+
+  // 404 handler
+  app.use((ctx) => {
+    throw new NotFoundError(`No route for ${ctx.request.method} ${ctx.request.url.pathname}`);
+  });
+
+  // Errors that escape errorMiddleware, e.g. while the response is being written
+  app.addEventListener("error", (evt) => {
+    logger.error("Server error", { error: evt.error });
+  });
+
+  return app;
+}
@@ -1,116 +1,23 @@
 // database/init.ts - Database initialization and schema
 import { Database } from "https://deno.land/x/sqlite3@0.12.0/mod.ts";
+import { logger } from "../utils/logger.ts";
+import { hashPassword } from "../utils/password.ts";
+import { LATEST_SCHEMA_VERSION, migrateUp } from "./migrations.ts";
 
 export async function initializeDatabase(db: Database) {
-  console.log("🗄️ Initializing database...");
-
-  // Create watches table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS watches (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      brand TEXT NOT NULL,
-      model TEXT NOT NULL,
-      reference TEXT NOT NULL,
-      year INTEGER,
-      condition TEXT NOT NULL,
-      price INTEGER NOT NULL,
-      market_price INTEGER,
-      description TEXT,
-      image TEXT DEFAULT '⌚',
-      image_url TEXT,
-      accessories TEXT,
-      watch_charts_uuid TEXT,
-      status TEXT DEFAULT 'available',
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Add image_url column if it doesn't exist (for existing databases)
-  try {
-    db.exec(`ALTER TABLE watches ADD COLUMN image_url TEXT`);
-  } catch {
-    // Column already exists or other error, ignore
-  }
+  logger.info("Initializing database");
 
-  // Create inquiries table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS inquiries (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      watch_id INTEGER,
-      type TEXT NOT NULL DEFAULT 'inquiry',
-      customer_name TEXT NOT NULL,
-      customer_email TEXT NOT NULL,
-      customer_phone TEXT,
-      message TEXT,
-      status TEXT DEFAULT 'pending',
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (watch_id) REFERENCES watches (id)
-    )
-  `);
-
-  // Create sell_submissions table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sell_submissions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      brand TEXT NOT NULL,
-      model TEXT NOT NULL,
-      reference TEXT,
-      year INTEGER,
-      condition TEXT NOT NULL,
-      accessories TEXT,
-      description TEXT,
-      customer_name TEXT NOT NULL,
-      customer_email TEXT NOT NULL,
-      customer_phone TEXT NOT NULL,
-      status TEXT DEFAULT 'pending',
-      estimated_value INTEGER,
-      notes TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create admin_users table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS admin_users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      email TEXT UNIQUE NOT NULL,
-      role TEXT DEFAULT 'admin',
-      last_login DATETIME,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create API keys table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS api_keys (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      service TEXT NOT NULL,
-      key_name TEXT NOT NULL,
-      key_value TEXT NOT NULL,
-      is_active BOOLEAN DEFAULT true,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create settings table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS settings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      key TEXT UNIQUE NOT NULL,
-      value TEXT NOT NULL,
-      description TEXT,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
+  // Refuses to run against a schema written by a newer build, then applies anything pending
+  const applied = migrateUp(db);
+  if (applied.length > 0) {
+    logger.info("Applied migrations", { count: applied.length, schemaVersion: LATEST_SCHEMA_VERSION });
+  }
 
   // Insert sample data if tables are empty
   const watchCount = db.prepare("SELECT COUNT(*) as count FROM watches").get() as { count: number };
   
   if (watchCount.count === 0) {
-    console.log("📦 Inserting sample data...");
+    logger.info("Inserting sample data");
     
     // Sample watches
     const insertWatch = db.prepare(`
@@ -136,9 +43,8 @@ export async function initializeDatabase(db: Database) {
       VALUES (?, ?, ?)
     `);
     
-    // Simple hash for demo - in production use proper bcrypt
-    const simpleHash = btoa("admin123"); // Base64 encoding for demo
-    insertAdmin.run("admin", simpleHash, "admin@prestigetimepieces.com");
+    const passwordHash = await hashPassword("admin123");
+    insertAdmin.run("admin", passwordHash, "admin@prestigetimepieces.com");
 
     // Default settings
     const insertSetting = db.prepare(`
@@ -152,7 +58,7 @@ export async function initializeDatabase(db: Database) {
     insertSetting.run("watchcharts_api_enabled", "false", "WatchCharts API integration status");
   }
 
-  console.log("✅ Database initialized successfully");
+  logger.info("Database initialized");
 }
 
 // Database helper functions
@@ -199,6 +105,19 @@ export class DatabaseHelper {
     return changes > 0;
   }
 
+  // Runs fn in one transaction: everything it writes commits together, or nothing does
+  transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
   // Utility methods
   getStats() {
     const stats = {
@@ -0,0 +1,187 @@
+// database/migrations.ts - Numbered schema migrations tracked in schema_migrations
+import { Database } from "@sqlite";
+import { migration as initialSchema } from "./migrations/001_initial_schema.ts";
+import { migration as sessions } from "./migrations/002_sessions.ts";
+import { migration as apiTokens } from "./migrations/003_api_tokens.ts";
+import { migration as loginSecurity } from "./migrations/004_login_security.ts";
+import { migration as auditTrail } from "./migrations/005_audit_trail.ts";
+import { migration as userManagement } from "./migrations/006_user_management.ts";
+import { migration as passwordReset } from "./migrations/007_password_reset.ts";
+import { migration as twoFactor } from "./migrations/008_two_factor.ts";
+import { migration as watchSearch } from "./migrations/009_watch_search.ts";
+import { migration as rateLimits } from "./migrations/010_rate_limits.ts";
+import { migration as spamProtection } from "./migrations/011_spam_protection.ts";
+import { migration as watchImages } from "./migrations/012_watch_images.ts";
+import { migration as attachments } from "./migrations/013_attachments.ts";
+import { migration as reservations } from "./migrations/014_reservations.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+  down: (db: Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "unknown";
+  applied_at?: string;
+}
+
+// Append new migrations here; versions must stay strictly increasing and are never renumbered
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  sessions,
+  apiTokens,
+  loginSecurity,
+  auditTrail,
+  userManagement,
+  passwordReset,
+  twoFactor,
+  watchSearch,
+  rateLimits,
+  spamProtection,
+  watchImages,
+  attachments,
+  reservations
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// The database was migrated by a newer build than this one; running against it could corrupt data
+export class SchemaVersionError extends Error {
+  constructor(public databaseVersion: number, public supportedVersion: number) {
+    super(
+      `Database schema version ${databaseVersion} is newer than the latest version this build knows (${supportedVersion}). ` +
+        "Upgrade the application or roll the database back before starting."
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+// Databases that predate this framework may already have a column; SQLite has no ADD COLUMN IF NOT EXISTS
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some((existing) => existing.name === column)) return;
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+export function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME NOT NULL
+    )
+  `);
+}
+
+export function getAppliedMigrations(db: Database): { version: number; name: string; applied_at: string }[] {
+  ensureMigrationsTable(db);
+  return db.prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC").all() as {
+    version: number;
+    name: string;
+    applied_at: string;
+  }[];
+}
+
+export function getSchemaVersion(db: Database): number {
+  ensureMigrationsTable(db);
+  const result = db.prepare("SELECT MAX(version) as version FROM schema_migrations").get() as {
+    version: number | null;
+  };
+  return result.version ?? 0;
+}
+
+// Known migrations in order, followed by any applied versions this build doesn't recognise
+export function getMigrationStatus(db: Database): MigrationStatus[] {
+  const applied = new Map(getAppliedMigrations(db).map((row) => [row.version, row]));
+
+  const status: MigrationStatus[] = MIGRATIONS.map((migration) => {
+    const row = applied.get(migration.version);
+    applied.delete(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row ? "applied" : "pending",
+      applied_at: row?.applied_at
+    };
+  });
+
+  for (const row of applied.values()) {
+    status.push({ version: row.version, name: row.name, state: "unknown", applied_at: row.applied_at });
+  }
+
+  return status;
+}
+
+export function assertSchemaSupported(db: Database): void {
+  const version = getSchemaVersion(db);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(version, LATEST_SCHEMA_VERSION);
+  }
+}
+
+// Each migration and its bookkeeping row commit together, or not at all
+function runInTransaction(db: Database, fn: () => void): void {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    fn();
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+// Apply pending migrations up to targetVersion; returns what was applied
+export function migrateUp(db: Database, targetVersion: number = LATEST_SCHEMA_VERSION): Migration[] {
+  assertSchemaSupported(db);
+
+  const applied = new Set(getAppliedMigrations(db).map((row) => row.version));
+  const pending = MIGRATIONS.filter((migration) =>
+    migration.version <= targetVersion && !applied.has(migration.version)
+  );
+
+  for (const migration of pending) {
+    logger.info("Applying migration", { version: migration.version, name: migration.name });
+    try {
+      runInTransaction(db, () => {
+        migration.up(db);
+        db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+          .run(migration.version, migration.name, new Date().toISOString());
+      });
+    } catch (error) {
+      throw new Error(`Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return pending;
+}
+
+// Roll back applied migrations above targetVersion, newest first; returns what was rolled back
+export function migrateDown(db: Database, targetVersion: number): Migration[] {
+  assertSchemaSupported(db);
+
+  const applied = new Set(getAppliedMigrations(db).map((row) => row.version));
+  const rollback = MIGRATIONS
+    .filter((migration) => migration.version > targetVersion && applied.has(migration.version))
+    .reverse();
+
+  for (const migration of rollback) {
+    logger.info("Rolling back migration", { version: migration.version, name: migration.name });
+    try {
+      runInTransaction(db, () => {
+        migration.down(db);
+        db.prepare("DELETE FROM schema_migrations WHERE version = ?").run(migration.version);
+      });
+    } catch (error) {
+      throw new Error(`Rollback of ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return rollback;
+}
@@ -0,0 +1,111 @@
+// database/migrations/001_initial_schema.ts - Catalog, customer requests, staff accounts and settings
+import { Database } from "@sqlite";
+import { addColumnIfMissing, Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS watches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        brand TEXT NOT NULL,
+        model TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        year INTEGER,
+        condition TEXT NOT NULL,
+        price INTEGER NOT NULL,
+        market_price INTEGER,
+        description TEXT,
+        image TEXT DEFAULT '⌚',
+        image_url TEXT,
+        accessories TEXT,
+        watch_charts_uuid TEXT,
+        status TEXT DEFAULT 'available',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Databases created before image uploads existed lack this column
+    addColumnIfMissing(db, "watches", "image_url", "TEXT");
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS inquiries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        watch_id INTEGER,
+        type TEXT NOT NULL DEFAULT 'inquiry',
+        customer_name TEXT NOT NULL,
+        customer_email TEXT NOT NULL,
+        customer_phone TEXT,
+        message TEXT,
+        status TEXT DEFAULT 'pending',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (watch_id) REFERENCES watches (id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sell_submissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        brand TEXT NOT NULL,
+        model TEXT NOT NULL,
+        reference TEXT,
+        year INTEGER,
+        condition TEXT NOT NULL,
+        accessories TEXT,
+        description TEXT,
+        customer_name TEXT NOT NULL,
+        customer_email TEXT NOT NULL,
+        customer_phone TEXT NOT NULL,
+        status TEXT DEFAULT 'pending',
+        estimated_value INTEGER,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS admin_users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        role TEXT DEFAULT 'admin',
+        last_login DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        service TEXT NOT NULL,
+        key_name TEXT NOT NULL,
+        key_value TEXT NOT NULL,
+        is_active BOOLEAN DEFAULT true,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS settings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT UNIQUE NOT NULL,
+        value TEXT NOT NULL,
+        description TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS settings");
+    db.exec("DROP TABLE IF EXISTS api_keys");
+    db.exec("DROP TABLE IF EXISTS admin_users");
+    db.exec("DROP TABLE IF EXISTS sell_submissions");
+    db.exec("DROP TABLE IF EXISTS inquiries");
+    db.exec("DROP TABLE IF EXISTS watches");
+  }
+};
@@ -0,0 +1,47 @@
+// database/migrations/002_sessions.ts - Server-side sessions and rotating refresh tokens
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 2,
+  name: "sessions",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        ip_address TEXT,
+        user_agent TEXT,
+        last_activity DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        is_active BOOLEAN DEFAULT true,
+        remember_me BOOLEAN DEFAULT false,
+        revoked_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES admin_users (id)
+      )
+    `);
+
+    // One rotating family per session
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        parent_id INTEGER,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME,
+        revoked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (session_id) REFERENCES user_sessions (id)
+      )
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS refresh_tokens");
+    db.exec("DROP TABLE IF EXISTS user_sessions");
+  }
+};
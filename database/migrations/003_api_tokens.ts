@@ -0,0 +1,31 @@
+// database/migrations/003_api_tokens.ts - Scoped personal/service tokens, stored hashed
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 3,
+  name: "api_tokens",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        token_prefix TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        scopes TEXT NOT NULL,
+        expires_at DATETIME NOT NULL,
+        last_used_at DATETIME,
+        last_used_ip TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        revoked_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES admin_users (id)
+      )
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS api_tokens");
+  }
+};
@@ -0,0 +1,42 @@
+// database/migrations/004_login_security.ts - Brute-force lockout window and security event log
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 4,
+  name: "login_security",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        ip_address TEXT NOT NULL,
+        successful BOOLEAN NOT NULL,
+        attempted_at DATETIME NOT NULL
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_login_attempts_username ON login_attempts (username, attempted_at)`);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts (ip_address, attempted_at)`);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS security_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        event_type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        description TEXT NOT NULL,
+        ip_address TEXT NOT NULL,
+        user_agent TEXT,
+        additional_data TEXT,
+        timestamp DATETIME NOT NULL
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_security_events_timestamp ON security_events (timestamp)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS security_events");
+    db.exec("DROP TABLE IF EXISTS login_attempts");
+  }
+};
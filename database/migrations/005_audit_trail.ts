@@ -0,0 +1,42 @@
+// database/migrations/005_audit_trail.ts - Audit log, plus the columns admin edits rely on
+import { Database } from "@sqlite";
+import { addColumnIfMissing, Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 5,
+  name: "audit_trail",
+
+  up(db: Database) {
+    // DatabaseHelper.update sets updated_at; admins annotate inquiries
+    addColumnIfMissing(db, "inquiries", "notes", "TEXT");
+    addColumnIfMissing(db, "inquiries", "updated_at", "DATETIME");
+    addColumnIfMissing(db, "sell_submissions", "updated_at", "DATETIME");
+    addColumnIfMissing(db, "api_keys", "updated_at", "DATETIME");
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT,
+        action TEXT NOT NULL,
+        resource_type TEXT NOT NULL,
+        resource_id INTEGER,
+        old_values TEXT,
+        new_values TEXT,
+        ip_address TEXT,
+        user_agent TEXT,
+        timestamp DATETIME NOT NULL
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs (resource_type, resource_id)`);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs (timestamp)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS audit_logs");
+    db.exec("ALTER TABLE api_keys DROP COLUMN updated_at");
+    db.exec("ALTER TABLE sell_submissions DROP COLUMN updated_at");
+    db.exec("ALTER TABLE inquiries DROP COLUMN updated_at");
+    db.exec("ALTER TABLE inquiries DROP COLUMN notes");
+  }
+};
@@ -0,0 +1,30 @@
+// database/migrations/006_user_management.ts - Staff profile fields and account status flags
+import { Database } from "@sqlite";
+import { addColumnIfMissing, Migration } from "../migrations.ts";
+
+const COLUMNS: [string, string][] = [
+  ["updated_at", "DATETIME"],
+  ["first_name", "TEXT"],
+  ["last_name", "TEXT"],
+  ["phone", "TEXT"],
+  ["timezone", "TEXT"],
+  ["is_active", "BOOLEAN DEFAULT 1"],
+  ["must_change_password", "BOOLEAN DEFAULT 0"]
+];
+
+export const migration: Migration = {
+  version: 6,
+  name: "user_management",
+
+  up(db: Database) {
+    for (const [column, definition] of COLUMNS) {
+      addColumnIfMissing(db, "admin_users", column, definition);
+    }
+  },
+
+  down(db: Database) {
+    for (const [column] of [...COLUMNS].reverse()) {
+      db.exec(`ALTER TABLE admin_users DROP COLUMN ${column}`);
+    }
+  }
+};
@@ -0,0 +1,27 @@
+// database/migrations/007_password_reset.ts - Single-use emailed reset tokens, stored hashed
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 7,
+  name: "password_reset",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        requested_ip TEXT,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES admin_users (id)
+      )
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS password_reset_tokens");
+  }
+};
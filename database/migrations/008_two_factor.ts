@@ -0,0 +1,62 @@
+// database/migrations/008_two_factor.ts - TOTP secrets, recovery codes and two-step login challenges
+import { Database } from "@sqlite";
+import { addColumnIfMissing, Migration } from "../migrations.ts";
+
+const COLUMNS: [string, string][] = [
+  ["totp_secret", "TEXT"],
+  ["totp_pending_secret", "TEXT"],
+  ["totp_enabled", "BOOLEAN DEFAULT 0"],
+  ["totp_last_step", "INTEGER"]
+];
+
+export const migration: Migration = {
+  version: 8,
+  name: "two_factor",
+
+  up(db: Database) {
+    for (const [column, definition] of COLUMNS) {
+      addColumnIfMissing(db, "admin_users", column, definition);
+    }
+
+    // 2FA fallback codes, single-use, stored hashed
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES admin_users (id)
+      )
+    `);
+
+    // Password accepted, waiting for the second factor
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS login_challenges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        remember_me BOOLEAN DEFAULT false,
+        attempts INTEGER DEFAULT 0,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES admin_users (id)
+      )
+    `);
+
+    db.prepare(`
+      INSERT OR IGNORE INTO settings (key, value, description)
+      VALUES (?, ?, ?)
+    `).run("two_factor_required_roles", "", "Comma-separated roles that must use two-factor authentication");
+  },
+
+  down(db: Database) {
+    db.exec("DELETE FROM settings WHERE key = 'two_factor_required_roles'");
+    db.exec("DROP TABLE IF EXISTS login_challenges");
+    db.exec("DROP TABLE IF EXISTS recovery_codes");
+    for (const [column] of [...COLUMNS].reverse()) {
+      db.exec(`ALTER TABLE admin_users DROP COLUMN ${column}`);
+    }
+  }
+};
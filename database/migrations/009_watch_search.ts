@@ -0,0 +1,63 @@
+// database/migrations/009_watch_search.ts - FTS5 index over the catalog, kept in sync by triggers
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+// Reference with separators stripped, so "116610 LN", "116610-LN" and "116610LN" index alike.
+// Must match normalizeReference() in utils/formatting.ts.
+const COMPACT_REFERENCE = `LOWER(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(new.reference, ' ', ''), '-', ''), '.', ''), '/', ''), '_', ''))`;
+
+const INSERT_ROW = `
+  INSERT INTO watches_fts (rowid, brand, model, reference, reference_compact, description)
+  VALUES (new.id, new.brand, new.model, new.reference, ${COMPACT_REFERENCE}, COALESCE(new.description, ''));
+`;
+
+export const migration: Migration = {
+  version: 9,
+  name: "watch_search",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS watches_fts USING fts5(
+        brand,
+        model,
+        reference,
+        reference_compact,
+        description,
+        tokenize = 'unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      )
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS watches_fts_insert AFTER INSERT ON watches BEGIN
+        ${INSERT_ROW}
+      END
+    `);
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS watches_fts_delete AFTER DELETE ON watches BEGIN
+        DELETE FROM watches_fts WHERE rowid = old.id;
+      END
+    `);
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS watches_fts_update AFTER UPDATE OF brand, model, reference, description ON watches BEGIN
+        DELETE FROM watches_fts WHERE rowid = old.id;
+        ${INSERT_ROW}
+      END
+    `);
+
+    // Index the existing catalog
+    db.exec("DELETE FROM watches_fts");
+    db.exec(`
+      INSERT INTO watches_fts (rowid, brand, model, reference, reference_compact, description)
+      SELECT id, brand, model, reference, ${COMPACT_REFERENCE.replaceAll("new.", "")}, COALESCE(description, '')
+      FROM watches
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TRIGGER IF EXISTS watches_fts_update");
+    db.exec("DROP TRIGGER IF EXISTS watches_fts_delete");
+    db.exec("DROP TRIGGER IF EXISTS watches_fts_insert");
+    db.exec("DROP TABLE IF EXISTS watches_fts");
+  }
+};
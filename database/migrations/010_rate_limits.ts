@@ -0,0 +1,24 @@
+// database/migrations/010_rate_limits.ts - Token buckets for the SQLite-backed rate limit store
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 10,
+  name: "rate_limits",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires_at ON rate_limit_buckets (expires_at)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS rate_limit_buckets");
+  }
+};
@@ -0,0 +1,27 @@
+// database/migrations/011_spam_protection.ts - Spam scores on public submissions, indexed for duplicate checks
+import { Database } from "@sqlite";
+import { addColumnIfMissing, Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 11,
+  name: "spam_protection",
+
+  up(db: Database) {
+    addColumnIfMissing(db, "inquiries", "spam_score", "INTEGER NOT NULL DEFAULT 0");
+    addColumnIfMissing(db, "inquiries", "spam_reasons", "TEXT"); // JSON array
+    addColumnIfMissing(db, "sell_submissions", "spam_score", "INTEGER NOT NULL DEFAULT 0");
+    addColumnIfMissing(db, "sell_submissions", "spam_reasons", "TEXT");
+
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_inquiries_email_created ON inquiries (customer_email, created_at)`);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_sell_submissions_email_created ON sell_submissions (customer_email, created_at)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP INDEX IF EXISTS idx_sell_submissions_email_created");
+    db.exec("DROP INDEX IF EXISTS idx_inquiries_email_created");
+    db.exec("ALTER TABLE sell_submissions DROP COLUMN spam_reasons");
+    db.exec("ALTER TABLE sell_submissions DROP COLUMN spam_score");
+    db.exec("ALTER TABLE inquiries DROP COLUMN spam_reasons");
+    db.exec("ALTER TABLE inquiries DROP COLUMN spam_score");
+  }
+};
@@ -0,0 +1,47 @@
+// database/migrations/012_watch_images.ts - Ordered photo galleries for watches
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 12,
+  name: "watch_images",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS watch_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        watch_id INTEGER NOT NULL,
+        filename TEXT NOT NULL,
+        url TEXT NOT NULL,
+        mime_type TEXT,
+        width INTEGER,
+        height INTEGER,
+        size INTEGER,
+        variants TEXT NOT NULL DEFAULT '[]', -- JSON array of ImageVariant
+        srcset TEXT,
+        alt_text TEXT,
+        caption TEXT,
+        position INTEGER NOT NULL DEFAULT 0,
+        is_primary INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME,
+        FOREIGN KEY (watch_id) REFERENCES watches (id)
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_watch_images_watch_position ON watch_images (watch_id, position)`);
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_watch_images_primary ON watch_images (watch_id) WHERE is_primary = 1`);
+
+    // The single image_url each watch had so far becomes the primary image of its gallery
+    db.exec(`
+      INSERT INTO watch_images (watch_id, filename, url, position, is_primary)
+      SELECT id, REPLACE(image_url, RTRIM(image_url, REPLACE(image_url, '/', '')), ''), image_url, 0, 1
+      FROM watches
+      WHERE image_url IS NOT NULL AND image_url != ''
+        AND id NOT IN (SELECT watch_id FROM watch_images)
+    `);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS watch_images");
+  }
+};
@@ -0,0 +1,35 @@
+// database/migrations/013_attachments.ts - Private document and certificate attachments
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 13,
+  name: "attachments",
+
+  up(db: Database) {
+    // owner_type/owner_id point at a watch or a sell submission, so no foreign key; rows are removed
+    // together with their file through services/attachments.ts
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_type TEXT NOT NULL CHECK (owner_type IN ('watch', 'sell_submission')),
+        owner_id INTEGER NOT NULL,
+        category TEXT NOT NULL CHECK (category IN ('certificate', 'document')),
+        description TEXT,
+        original_name TEXT NOT NULL,
+        stored_name TEXT NOT NULL UNIQUE,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        uploaded_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (uploaded_by) REFERENCES admin_users (id)
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_attachments_owner ON attachments (owner_type, owner_id)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS attachments");
+  }
+};
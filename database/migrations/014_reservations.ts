@@ -0,0 +1,41 @@
+// database/migrations/014_reservations.ts - Reservation holds on watches
+import { Database } from "@sqlite";
+import { Migration } from "../migrations.ts";
+
+export const migration: Migration = {
+  version: 14,
+  name: "reservations",
+
+  up(db: Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reservations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        watch_id INTEGER NOT NULL,
+        inquiry_id INTEGER,
+        customer_name TEXT NOT NULL,
+        customer_email TEXT NOT NULL,
+        customer_phone TEXT,
+        deposit_amount INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released', 'expired', 'completed')),
+        expires_at TEXT NOT NULL, -- ISO 8601
+        extension_count INTEGER NOT NULL DEFAULT 0,
+        notes TEXT,
+        release_reason TEXT,
+        released_at TEXT,
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME,
+        FOREIGN KEY (watch_id) REFERENCES watches (id),
+        FOREIGN KEY (inquiry_id) REFERENCES inquiries (id),
+        FOREIGN KEY (created_by) REFERENCES admin_users (id)
+      )
+    `);
+    // At most one active hold per watch, whatever the application does
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_reservations_active_watch ON reservations (watch_id) WHERE status = 'active'`);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_reservations_status_expiry ON reservations (status, expires_at)`);
+  },
+
+  down(db: Database) {
+    db.exec("DROP TABLE IF EXISTS reservations");
+  }
+};
@@ -3,6 +3,13 @@
 
 import { Database } from "@sqlite";
 import { DatabaseHelper } from "./database/init.ts";
+import {
+  getMigrationStatus,
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  migrateDown,
+  migrateUp
+} from "./database/migrations.ts";
 
 const DB_PATH = Deno.env.get("DATABASE_PATH") || "watches.db";
 
@@ -221,6 +228,8 @@ class DatabaseManager {
         WHERE status IN ('completed', 'closed') 
         AND created_at < ?
       `).run(cutoffStr);
+      // Reservations keep their own copy of the customer details; only the link goes
+      this.db.prepare("UPDATE reservations SET inquiry_id = NULL WHERE inquiry_id NOT IN (SELECT id FROM inquiries)").run();
       
       // Delete old sell submissions with status 'completed' or 'rejected'
       const oldSubmissions = this.db.prepare(`
@@ -270,18 +279,66 @@ class DatabaseManager {
     }
   }
 
+  // Show applied, pending and unrecognised migrations
+  migrationStatus(): void {
+    console.log("🗂️ Schema Migrations");
+    console.log("=" .repeat(40));
+    
+    const status = getMigrationStatus(this.db);
+    const version = getSchemaVersion(this.db);
+    
+    console.log(`Current version: ${version} (latest known: ${LATEST_SCHEMA_VERSION})\n`);
+    
+    status.forEach((migration) => {
+      const icon = migration.state === "applied" ? "✅" : migration.state === "pending" ? "⏳" : "❓";
+      const appliedAt = migration.applied_at ? `  (${migration.applied_at})` : "";
+      console.log(`  ${icon} ${String(migration.version).padStart(3, "0")}_${migration.name} - ${migration.state}${appliedAt}`);
+    });
+    
+    if (version > LATEST_SCHEMA_VERSION) {
+      console.log("\n⚠️ This database was migrated by a newer build; the server will refuse to start");
+    }
+  }
+
+  // Apply pending migrations (all, or up to a version)
+  migrateUp(targetVersion?: number): void {
+    try {
+      const applied = migrateUp(this.db, targetVersion);
+      if (applied.length === 0) {
+        console.log("✅ Schema is already up to date");
+      } else {
+        console.log(`✅ Applied ${applied.length} migration(s); schema is at version ${getSchemaVersion(this.db)}`);
+      }
+    } catch (error) {
+      console.error("❌ Migration failed:", (error as Error).message);
+      throw error;
+    }
+  }
+
+  // Roll back migrations (one step by default, or down to a version)
+  migrateDown(targetVersion?: number): void {
+    const target = targetVersion ?? Math.max(getSchemaVersion(this.db) - 1, 0);
+    
+    try {
+      const rolledBack = migrateDown(this.db, target);
+      if (rolledBack.length === 0) {
+        console.log("✅ Nothing to roll back");
+      } else {
+        console.log(`✅ Rolled back ${rolledBack.length} migration(s); schema is at version ${getSchemaVersion(this.db)}`);
+      }
+    } catch (error) {
+      console.error("❌ Rollback failed:", (error as Error).message);
+      throw error;
+    }
+  }
+
   // Reset database (WARNING: Deletes all data)
   reset(): void {
     console.log("⚠️ RESETTING DATABASE - THIS WILL DELETE ALL DATA!");
     
     try {
-      // Drop all tables
-      this.db.exec("DROP TABLE IF EXISTS watches");
-      this.db.exec("DROP TABLE IF EXISTS inquiries");
-      this.db.exec("DROP TABLE IF EXISTS sell_submissions");
-      this.db.exec("DROP TABLE IF EXISTS admin_users");
-      this.db.exec("DROP TABLE IF EXISTS api_keys");
-      this.db.exec("DROP TABLE IF EXISTS settings");
+      // Roll back every migration, which drops all tables
+      migrateDown(this.db, 0);
       
       console.log("✅ Database reset completed");
       console.log("🔄 Please restart the server to reinitialize the database");
@@ -389,12 +446,16 @@ async function main() {
     console.log("  vacuum                  - Optimize database storage");
     console.log("  integrity               - Check database integrity");
     console.log("  schema                  - Show table schemas");
+    console.log("  migrate status          - Show applied and pending migrations");
+    console.log("  migrate up [version]    - Apply pending migrations (all, or up to version)");
+    console.log("  migrate down [version]  - Roll back one migration (or down to version)");
     console.log("  sample                  - Add sample data");
     console.log("  reset                   - Reset database (WARNING: deletes all data)");
     console.log("\nExamples:");
     console.log("  deno run --allow-read --allow-write --allow-env db_utils.ts stats");
     console.log("  deno run --allow-read --allow-write --allow-env db_utils.ts backup my_backup.db");
     console.log("  deno run --allow-read --allow-write --allow-env db_utils.ts export watches_export.json");
+    console.log("  deno run --allow-read --allow-write --allow-env db_utils.ts migrate down 5");
     return;
   }
   
@@ -450,6 +511,30 @@ async function main() {
         dbManager.showSchema();
         break;
       
+      case "migrate": {
+        const version = args[2] !== undefined ? parseInt(args[2]) : undefined;
+        if (version !== undefined && (isNaN(version) || version < 0)) {
+          console.error("❌ Migration version must be a non-negative number");
+          Deno.exit(1);
+        }
+        
+        switch (args[1] || "status") {
+          case "status":
+            dbManager.migrationStatus();
+            break;
+          case "up":
+            dbManager.migrateUp(version);
+            break;
+          case "down":
+            dbManager.migrateDown(version);
+            break;
+          default:
+            console.error(`❌ Unknown migrate command: ${args[1]} (expected status, up or down)`);
+            Deno.exit(1);
+        }
+        break;
+      }
+      
       case "sample":
         dbManager.addSampleData();
         break;
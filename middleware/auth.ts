@@ -2,6 +2,13 @@
 import { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
 import { verify, create } from "https://deno.land/x/djwt@v3.0.1/mod.ts";
 import { DatabaseHelper } from "../database/init.ts";
+import { getActiveSession, touchSession } from "../services/sessions.ts";
+import { findActiveApiToken, isApiToken, recordApiTokenUse, scopeAllows } from "../services/tokens.ts";
+import { isTwoFactorRequired } from "../services/two_factor.ts";
+import { ROLE_PERMISSIONS, UserAction, UserRole } from "../types/user.ts";
+import { AUTH_CONFIG, ERROR_CODES } from "../utils/constants.ts";
+import { AuthError, ForbiddenError } from "../utils/errors.ts";
+import { addLogContext } from "../utils/logger.ts";
 
 const JWT_SECRET_STRING = Deno.env.get("JWT_SECRET") || "prestige-timepieces-secret-key-2024";
 const JWT_ALG = "HS256";
@@ -17,112 +24,121 @@ const JWT_SECRET = await crypto.subtle.importKey(
   ["sign", "verify"]
 );
 
+// While a password reset is pending, only these endpoints are reachable
+const PASSWORD_CHANGE_PATHS = ["/api/auth/change-password", "/api/auth/logout", "/api/auth/me"];
+
+// Likewise while a role requires 2FA that the user hasn't set up yet
+const TWO_FACTOR_SETUP_PATHS = ["/api/auth/2fa", "/api/auth/2fa/setup", "/api/auth/2fa/enable", "/api/auth/logout", "/api/auth/me"];
+
+// Throws when the account may not be used for this request
+function assertAccountUsable(ctx: Context, user: any): void {
+  if (!user.is_active) {
+    throw new AuthError("This account has been disabled.", { code: ERROR_CODES.ACCOUNT_DISABLED });
+  }
+  
+  if (user.must_change_password && !PASSWORD_CHANGE_PATHS.includes(ctx.request.url.pathname)) {
+    throw new ForbiddenError("You must change your password before continuing.", {
+      code: ERROR_CODES.PASSWORD_CHANGE_REQUIRED
+    });
+  }
+  
+  const path = ctx.request.url.pathname;
+  if (!user.totp_enabled && !TWO_FACTOR_SETUP_PATHS.includes(path) && isTwoFactorRequired(ctx.state.db, user.role)) {
+    throw new ForbiddenError("Your role requires two-factor authentication. Please set it up before continuing.", {
+      code: ERROR_CODES.TWO_FACTOR_SETUP_REQUIRED
+    });
+  }
+}
+
 export async function authMiddleware(ctx: Context, next: Next) {
-  try {
-    // Get token from Authorization header
-    const authHeader = ctx.request.headers.get("Authorization");
+  // Get token from Authorization header
+  const authHeader = ctx.request.headers.get("Authorization");
+  
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    throw new AuthError("Authentication required. Please provide a valid Bearer token.");
+  }
+  
+  const token = authHeader.substring(7); // Remove "Bearer " prefix
+  const db = ctx.state.db;
+  const helper = new DatabaseHelper(db);
+  
+  // API tokens (scripts and integrations) are opaque, prefixed strings rather than JWTs
+  if (isApiToken(token)) {
+    const apiToken = await findActiveApiToken(db, token);
+    const user = apiToken ? helper.selectOne("admin_users", "id = ?", [apiToken.user_id]) : null;
     
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "Authentication required. Please provide a valid Bearer token."
-      };
-      return;
+    if (!apiToken || !user) {
+      throw new AuthError("Invalid, expired or revoked API token.");
     }
     
-    const token = authHeader.substring(7); // Remove "Bearer " prefix
+    assertAccountUsable(ctx, user);
     
-    // Handle simple admin token for demo purposes
-    if (token === "admin-token") {
-      // Get default admin user from database
-      const db = ctx.state.db;
-      const helper = new DatabaseHelper(db);
-      const user = helper.selectOne("admin_users", "username = ?", ["admin"]);
-      
-      if (!user) {
-        ctx.response.status = 401;
-        ctx.response.body = {
-          success: false,
-          error: "Admin user not found."
-        };
-        return;
-      }
-      
-      // Add user info to context
-      ctx.state.user = {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role
-      };
-      
-      // Continue to next middleware
-      await next();
-      return;
-    }
-    
-    try {
-      // Verify JWT token
-      const payload = await verify(token, JWT_SECRET);
-      
-      // Check if token is expired
-      const now = Math.floor(Date.now() / 1000);
-      if (payload.exp && payload.exp < now) {
-        ctx.response.status = 401;
-        ctx.response.body = {
-          success: false,
-          error: "Token has expired. Please login again."
-        };
-        return;
-      }
-      
-      // Get user from database to ensure they still exist and are active
-      const db = ctx.state.db;
-      const helper = new DatabaseHelper(db);
-      const user = helper.selectOne("admin_users", "id = ?", [payload.sub]);
-      
-      if (!user) {
-        ctx.response.status = 401;
-        ctx.response.body = {
-          success: false,
-          error: "User not found. Please login again."
-        };
-        return;
-      }
-      
-      // Add user info to context for use in subsequent middleware/handlers
-      ctx.state.user = {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role
-      };
-      
-      // Add token payload to context
-      ctx.state.tokenPayload = payload;
-      
-      // Continue to next middleware
-      await next();
-      
-    } catch (jwtError: any) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "Invalid token. Please login again.",
-        details: jwtError?.message || "JWT verification failed"
-      };
-      return;
-    }
+    recordApiTokenUse(db, apiToken.id, ctx.request.ip);
+    ctx.state.apiToken = apiToken;
     
-  } catch (error: any) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Authentication error",
-      details: error?.message || "Unknown error"
+    ctx.state.user = {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role
     };
+    addLogContext({ userId: user.id });
+    
+    await next();
+    return;
+  }
+  
+  // Verify JWT token
+  let payload;
+  try {
+    payload = await verify(token, JWT_SECRET);
+  } catch (jwtError: any) {
+    // Expired access tokens get a distinct code so clients know to use their refresh token
+    const expired = /expired/i.test(jwtError?.message || "");
+    throw new AuthError(expired ? "Token has expired. Please refresh your session." : "Invalid token. Please login again.", {
+      code: expired ? ERROR_CODES.TOKEN_EXPIRED : ERROR_CODES.UNAUTHORIZED,
+      cause: jwtError
+    });
+  }
+  
+  // Check if token is expired
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp && payload.exp < now) {
+    throw new AuthError("Token has expired. Please login again.", { code: ERROR_CODES.TOKEN_EXPIRED });
+  }
+  
+  // Get user from database to ensure they still exist and are active
+  const user = helper.selectOne("admin_users", "id = ?", [payload.sub]);
+  
+  if (!user) {
+    throw new AuthError("User not found. Please login again.");
   }
+  
+  // Reject tokens whose server-side session was revoked or has expired
+  const session = payload.sid ? getActiveSession(db, payload.sid as string) : null;
+  if (!session || session.user_id !== user.id) {
+    throw new AuthError("Session has been revoked or expired. Please login again.");
+  }
+  
+  assertAccountUsable(ctx, user);
+  
+  touchSession(db, session.id);
+  ctx.state.session = session;
+  
+  // Add user info to context for use in subsequent middleware/handlers
+  ctx.state.user = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role
+  };
+  addLogContext({ userId: user.id });
+  
+  // Add token payload to context
+  ctx.state.tokenPayload = payload;
+  
+  // Continue to next middleware
+  await next();
 }
 
 // Optional middleware for role-based access control
@@ -130,39 +146,76 @@ export function requireRole(requiredRole: string) {
   return async (ctx: Context, next: Next) => {
     // This middleware should be used after authMiddleware
     if (!ctx.state.user) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "Authentication required"
-      };
-      return;
+      throw new AuthError("Authentication required");
     }
     
     if (ctx.state.user.role !== requiredRole && ctx.state.user.role !== "super_admin") {
-      ctx.response.status = 403;
-      ctx.response.body = {
-        success: false,
-        error: `Access denied. Required role: ${requiredRole}`
-      };
-      return;
+      throw new ForbiddenError(`Access denied. Required role: ${requiredRole}`);
     }
     
     await next();
   };
 }
 
-// Utility function to generate JWT token
-export async function generateToken(user: any): Promise<string> {
+// Check whether a role is granted an action on a resource in ROLE_PERMISSIONS
+export function hasPermission(role: string, resource: string, action: UserAction): boolean {
+  const permissions = ROLE_PERMISSIONS[role as UserRole] || [];
+  return permissions.some((permission) =>
+    permission.resource === resource && permission.actions.includes(action)
+  );
+}
+
+// Throws unless the authenticated user (and API token, if any) may perform the action. For checks that
+// depend on the record being accessed; fixed checks use requirePermission.
+export function assertPermission(ctx: Context, resource: string, action: UserAction): void {
+  // This should be used after authMiddleware
+  if (!ctx.state.user) {
+    throw new AuthError("Authentication required");
+  }
+  
+  // API tokens are limited to both their owner's role and their own scopes
+  const tokenScopes = ctx.state.apiToken?.scopes;
+  if (!hasPermission(ctx.state.user.role, resource, action) || (tokenScopes && !scopeAllows(tokenScopes, resource, action))) {
+    throw new ForbiddenError(`Access denied. Missing permission: ${resource}:${action}`, {
+      code: ERROR_CODES.INSUFFICIENT_PERMISSIONS
+    });
+  }
+}
+
+// Permission-based access control driven by ROLE_PERMISSIONS
+export function requirePermission(resource: string, action: UserAction) {
+  return async (ctx: Context, next: Next) => {
+    assertPermission(ctx, resource, action);
+    await next();
+  };
+}
+
+// Account management (sessions, passwords, minting API tokens) needs an interactive login
+export async function requireSession(ctx: Context, next: Next) {
+  if (!ctx.state.session) {
+    throw new ForbiddenError("This action requires an interactive login and cannot be performed with an API token");
+  }
+  
+  await next();
+}
+
+// Utility function to generate a JWT bound to a server-side session
+export async function generateToken(
+  user: any,
+  sessionId: string,
+  expiresIn: number = AUTH_CONFIG.ACCESS_TOKEN_EXPIRES / 1000 // seconds
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
   const payload = {
     sub: user.id,
+    sid: sessionId,
     username: user.username,
     email: user.email,
     role: user.role,
-    iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
+    iat: now,
+    exp: now + expiresIn
   };
   
-  const { create } = await import("https://deno.land/x/djwt@v3.0.1/mod.ts");
   return await create({ alg: JWT_ALG, typ: "JWT" }, payload, JWT_SECRET);
 }
 
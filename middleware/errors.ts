@@ -0,0 +1,65 @@
+// middleware/errors.ts - The one place thrown errors become responses
+import { Context, isHttpError, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { ApiError } from "../types/api.ts";
+import { APP_CONFIG, ERROR_CODES } from "../utils/constants.ts";
+import { AppError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+
+const IS_PRODUCTION = APP_CONFIG.ENVIRONMENT === "production";
+
+// Anything that isn't an AppError is an internal failure; its message is never shown in production
+function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  // oak raises these itself, e.g. for a malformed JSON body
+  if (isHttpError(error) && error.status < 500) {
+    return new AppError(error.expose ? error.message : "Bad request", {
+      status: error.status,
+      code: ERROR_CODES.INVALID_INPUT,
+      cause: error
+    });
+  }
+
+  return new AppError("Internal server error", { cause: error });
+}
+
+export async function errorMiddleware(ctx: Context, next: Next) {
+  try {
+    await next();
+  } catch (error) {
+    const appError = toAppError(error);
+
+    if (appError.status >= 500) {
+      logger.error("Unhandled error", { error, method: ctx.request.method, path: ctx.request.url.pathname });
+    }
+
+    const body: ApiError = {
+      code: appError.code,
+      message: appError.message,
+      timestamp: new Date().toISOString(),
+      path: ctx.request.url.pathname,
+      method: ctx.request.method,
+      requestId: ctx.state.requestId
+    };
+
+    if (appError.details !== undefined) {
+      body.details = appError.details;
+    } else if (appError.cause instanceof Error && !IS_PRODUCTION) {
+      body.details = appError.cause.message;
+    }
+
+    if (appError.retryAfter !== undefined) {
+      ctx.response.headers.set("Retry-After", String(appError.retryAfter));
+    }
+
+    ctx.response.status = appError.status;
+    ctx.response.body = {
+      success: false,
+      error: appError.message, // What the admin UI and older clients read
+      ...body,
+      ...appError.responseFields()
+    };
+  }
+}
@@ -0,0 +1,46 @@
+// middleware/logging.ts - Request ids and one structured access log line per request
+import { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { logger, runWithLogContext } from "../utils/logger.ts";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Ids forwarded by a proxy are kept so one request can be followed across services
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+// oak's routers record the layers that matched; the last one for this method is the route that ran
+function matchedRoute(ctx: Context): string | undefined {
+  const matched = (ctx as Context & { matched?: { path: string; methods: string[] }[] }).matched ?? [];
+  const layer = matched.filter((candidate) => candidate.methods.includes(ctx.request.method)).at(-1);
+  return layer?.path;
+}
+
+export async function requestLoggingMiddleware(ctx: Context, next: Next) {
+  const incoming = ctx.request.headers.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  const startedAt = performance.now();
+
+  ctx.state.requestId = requestId;
+  ctx.response.headers.set(REQUEST_ID_HEADER, requestId);
+
+  await runWithLogContext({ requestId }, async () => {
+    try {
+      await next();
+    } finally {
+      const status = ctx.response.status;
+      const fields = {
+        method: ctx.request.method,
+        path: ctx.request.url.pathname,
+        route: matchedRoute(ctx),
+        status,
+        latencyMs: Math.round((performance.now() - startedAt) * 10) / 10,
+        userId: ctx.state.user?.id
+      };
+
+      if (status >= 500) {
+        logger.error("Request failed", fields);
+      } else {
+        logger.info("Request completed", fields);
+      }
+    }
+  });
+}
@@ -0,0 +1,108 @@
+// middleware/rate_limit.ts - Token-bucket limits on /api, per client IP or per signed-in user
+import { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { Database } from "@sqlite";
+import { verifyToken } from "./auth.ts";
+import { RateLimitDecision, RateLimitRule, RateLimitStore, memoryRateLimitStore } from "../services/rate_limit.ts";
+import { findActiveApiToken, isApiToken } from "../services/tokens.ts";
+import { API_CONFIG, APP_CONFIG, ENV_CONFIG } from "../utils/constants.ts";
+import { RateLimitError } from "../utils/errors.ts";
+
+export const RATE_LIMIT_HEADERS = ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy", "Retry-After"];
+
+export interface RouteRateLimit extends RateLimitRule {
+  method: string;
+  path: string;
+}
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;
+  ipRule?: RateLimitRule;
+  userRule?: RateLimitRule;
+  routes?: RouteRateLimit[];
+}
+
+// RATE_LIMIT_ENABLED wins; otherwise ENV_CONFIG decides for the current APP_ENV
+export function rateLimitEnabled(): boolean {
+  const fromEnv = Deno.env.get("RATE_LIMIT_ENABLED");
+  if (fromEnv !== undefined) {
+    return fromEnv === "true";
+  }
+
+  const environment = APP_CONFIG.ENVIRONMENT.toUpperCase() as keyof typeof ENV_CONFIG;
+  return ENV_CONFIG[environment]?.RATE_LIMIT_ENABLED ?? true;
+}
+
+const DEFAULT_ROUTES: RouteRateLimit[] = API_CONFIG.RATE_LIMIT.ROUTES.map((route) => ({
+  method: route.method,
+  path: route.path,
+  capacity: route.maxRequests,
+  windowMs: route.windowMs
+}));
+
+// The signed-in user's id, if the request carries a credential that checks out. Sessions and account
+// status are left to authMiddleware; a bad credential is simply limited by IP.
+async function requestUserId(ctx: Context): Promise<number | null> {
+  const authHeader = ctx.request.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  if (isApiToken(token)) {
+    const apiToken = await findActiveApiToken(ctx.state.db as Database, token);
+    return apiToken?.user_id ?? null;
+  }
+
+  try {
+    const payload = await verifyToken(token);
+    return typeof payload.sub === "number" ? payload.sub : Number(payload.sub) || null;
+  } catch {
+    return null;
+  }
+}
+
+function setRateLimitHeaders(ctx: Context, decision: RateLimitDecision, rule: RateLimitRule): void {
+  ctx.response.headers.set("RateLimit-Limit", String(decision.limit));
+  ctx.response.headers.set("RateLimit-Remaining", String(decision.remaining));
+  ctx.response.headers.set("RateLimit-Reset", String(decision.resetSeconds));
+  ctx.response.headers.set("RateLimit-Policy", `${rule.capacity};w=${Math.ceil(rule.windowMs / 1000)}`);
+}
+
+export function rateLimitMiddleware(options: RateLimitOptions = {}) {
+  const store = options.store ?? memoryRateLimitStore();
+  const ipRule = options.ipRule ?? { capacity: API_CONFIG.RATE_LIMIT.MAX_REQUESTS, windowMs: API_CONFIG.RATE_LIMIT.WINDOW_MS };
+  const userRule = options.userRule ?? {
+    capacity: API_CONFIG.RATE_LIMIT.MAX_REQUESTS_PER_USER,
+    windowMs: API_CONFIG.RATE_LIMIT.WINDOW_MS
+  };
+  const routes = options.routes ?? DEFAULT_ROUTES;
+
+  return async (ctx: Context, next: Next) => {
+    const { method, url } = ctx.request;
+    if (!url.pathname.startsWith(API_CONFIG.BASE_PATH) || method === "OPTIONS") {
+      await next();
+      return;
+    }
+
+    const userId = await requestUserId(ctx);
+    const client = userId !== null ? `user:${userId}` : `ip:${ctx.request.ip}`;
+
+    // A route override has its own bucket, so spending it doesn't eat into the general budget
+    const route = routes.find((candidate) => candidate.method === method && candidate.path === url.pathname);
+    const rule = route ?? (userId !== null ? userRule : ipRule);
+    const key = route ? `${client}:${route.method} ${route.path}` : client;
+
+    const decision = await store.take(key, rule);
+    setRateLimitHeaders(ctx, decision, rule);
+
+    if (!decision.allowed) {
+      throw new RateLimitError(undefined, {
+        limit: decision.limit,
+        resetTime: new Date(Date.now() + decision.retryAfterSeconds * 1000),
+        retryAfter: decision.retryAfterSeconds
+      });
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,196 @@
+// middleware/static.ts - Static assets confined to the static root, with validators, caching and compression
+import { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { brotliCompressSync, constants as zlib, gzipSync } from "node:zlib";
+import { STATIC_CONFIG } from "../utils/constants.ts";
+
+export type ContentEncoding = "br" | "gzip";
+
+export interface StaticOptions {
+  root?: string;
+  urlPrefix?: string;
+  pages?: Record<string, string>; // URL path -> file under root
+}
+
+interface StaticFile {
+  path: string;
+  size: number;
+  mtime: Date;
+}
+
+export function contentTypeFor(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return STATIC_CONFIG.MIME_TYPES[extension] ?? STATIC_CONFIG.DEFAULT_MIME_TYPE;
+}
+
+export function isCompressible(contentType: string): boolean {
+  return STATIC_CONFIG.COMPRESSIBLE_TYPES.some((type) => contentType.startsWith(type));
+}
+
+export function cacheControlFor(path: string, contentType: string): string {
+  if (STATIC_CONFIG.FINGERPRINT_PATTERN.test(path) && !contentType.startsWith("text/html")) {
+    return `public, max-age=${STATIC_CONFIG.IMMUTABLE_MAX_AGE}, immutable`;
+  }
+  return `public, max-age=${STATIC_CONFIG.MAX_AGE}, must-revalidate`;
+}
+
+// Picks the client's preferred encoding from Accept-Encoding; brotli wins a tie
+export function negotiateEncoding(acceptEncoding: string | null): ContentEncoding | null {
+  const weights = new Map<string, number>();
+  for (const part of (acceptEncoding ?? "").split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+    weights.set(name, q ? Number(q.slice(2)) || 0 : 1);
+  }
+
+  const weightOf = (encoding: string) => weights.get(encoding) ?? weights.get("*") ?? 0;
+  const br = weightOf("br");
+  const gzip = weightOf("gzip");
+
+  if (br > 0 && br >= gzip) return "br";
+  if (gzip > 0) return "gzip";
+  return null;
+}
+
+// Maps a URL path below the prefix to a relative file path, or null if it could leave the root.
+// Each segment is decoded separately so an encoded "/" or ".." can't slip through.
+export function toRelativePath(urlPath: string): string | null {
+  const segments: string[] = [];
+  for (const raw of urlPath.split("/")) {
+    if (raw === "") continue;
+
+    let segment: string;
+    try {
+      segment = decodeURIComponent(raw);
+    } catch {
+      return null;
+    }
+
+    // Hidden files (".env", ".git") are never served
+    if (segment.startsWith(".") || /[\/\\\0]/.test(segment)) {
+      return null;
+    }
+    segments.push(segment);
+  }
+
+  return segments.length > 0 ? segments.join("/") : null;
+}
+
+// Weak, since it comes from size and mtime rather than the bytes; each encoding gets its own tag
+function etagFor(file: StaticFile, encoding: ContentEncoding | null): string {
+  return `W/"${file.size.toString(16)}-${file.mtime.getTime().toString(16)}${encoding ? `-${encoding}` : ""}"`;
+}
+
+function isNotModified(ctx: Context, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = ctx.request.headers.get("If-None-Match");
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+
+  const ifModifiedSince = Date.parse(ctx.request.headers.get("If-Modified-Since") ?? "");
+  // HTTP dates have whole seconds
+  return !Number.isNaN(ifModifiedSince) && Math.floor(mtime.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+function compress(content: Uint8Array, encoding: ContentEncoding): Uint8Array {
+  return encoding === "br"
+    ? brotliCompressSync(content, { params: { [zlib.BROTLI_PARAM_QUALITY]: 5 } })
+    : gzipSync(content);
+}
+
+async function readIfExists(path: string): Promise<Uint8Array | null> {
+  try {
+    return await Deno.readFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+export function staticMiddleware(options: StaticOptions = {}) {
+  const root = options.root ?? STATIC_CONFIG.ROOT;
+  const urlPrefix = options.urlPrefix ?? STATIC_CONFIG.URL_PREFIX;
+  const pages = options.pages ?? STATIC_CONFIG.PAGES;
+
+  // Compressed bodies, reused until the file changes
+  const compressed = new Map<string, { mtime: number; body: Uint8Array }>();
+  let realRoot: string | null = null;
+
+  // Follows symlinks, so a link inside the root can't point outside it
+  async function findFile(relativePath: string): Promise<StaticFile | null> {
+    try {
+      realRoot ??= await Deno.realPath(root);
+      const path = await Deno.realPath(`${root}/${relativePath}`);
+      if (!path.startsWith(`${realRoot}/`)) {
+        return null;
+      }
+
+      const info = await Deno.stat(path);
+      return info.isFile ? { path, size: info.size, mtime: info.mtime ?? new Date(0) } : null;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  // A precompressed sibling (app.js.br) wins; otherwise the file is compressed once and cached
+  async function encodedBody(file: StaticFile, encoding: ContentEncoding): Promise<Uint8Array> {
+    const key = `${file.path}:${encoding}`;
+    const cached = compressed.get(key);
+    if (cached && cached.mtime === file.mtime.getTime()) {
+      return cached.body;
+    }
+
+    const sibling = await findFile(`${file.path.slice(realRoot!.length + 1)}.${encoding === "br" ? "br" : "gz"}`);
+    const siblingBody = sibling && sibling.mtime >= file.mtime ? await readIfExists(sibling.path) : null;
+    const body = siblingBody ?? compress(await Deno.readFile(file.path), encoding);
+
+    compressed.set(key, { mtime: file.mtime.getTime(), body });
+    return body;
+  }
+
+  return async (ctx: Context, next: Next) => {
+    const { method, url } = ctx.request;
+    if (method !== "GET" && method !== "HEAD") {
+      await next();
+      return;
+    }
+
+    const relativePath = pages[url.pathname] ??
+      (url.pathname.startsWith(urlPrefix) ? toRelativePath(url.pathname.slice(urlPrefix.length)) : null);
+    const file = relativePath ? await findFile(relativePath) : null;
+    if (!file) {
+      await next();
+      return;
+    }
+
+    const contentType = contentTypeFor(file.path);
+    const compressible = isCompressible(contentType) && file.size >= STATIC_CONFIG.MIN_COMPRESS_BYTES;
+    const encoding = compressible ? negotiateEncoding(ctx.request.headers.get("Accept-Encoding")) : null;
+    const etag = etagFor(file, encoding);
+
+    const headers = ctx.response.headers;
+    headers.set("Content-Type", contentType);
+    headers.set("Cache-Control", cacheControlFor(file.path, contentType));
+    headers.set("ETag", etag);
+    headers.set("Last-Modified", file.mtime.toUTCString());
+    headers.set("X-Content-Type-Options", "nosniff");
+    if (isCompressible(contentType)) {
+      headers.set("Vary", "Accept-Encoding");
+    }
+
+    if (isNotModified(ctx, etag, file.mtime)) {
+      ctx.response.status = 304;
+      return;
+    }
+
+    const body = encoding ? await encodedBody(file, encoding) : await Deno.readFile(file.path);
+    if (encoding) {
+      headers.set("Content-Encoding", encoding);
+    }
+
+    // The server drops the body of a HEAD response itself
+    ctx.response.status = 200;
+    ctx.response.body = body;
+  };
+}
@@ -2,9 +2,12 @@
 import { Router } from "@oak";
 import { Database } from "@sqlite";
 import { DatabaseHelper } from "../database/init.ts";
-import { authMiddleware } from "../middleware/auth.ts";
+import { authMiddleware, requirePermission } from "../middleware/auth.ts";
+import { audit, AuditAction, listAuditLogs } from "../services/audit.ts";
 import { searchWatchCharts, getWatchInfo } from "../services/watchcharts.ts";
 import { sendWhatsAppMessage } from "../services/whatsapp.ts";
+import { BadRequestError, ValidationError } from "../utils/errors.ts";
+import { validateApiKey, validateSettings } from "../utils/validation.ts";
 
 export const apiRoutes = new Router();
 
@@ -16,25 +19,72 @@ apiRoutes.get("/api/docs", (ctx) => {
     description: "RESTful API for luxury watch reseller platform",
     endpoints: {
       public: {
-        "GET /api/watches": "Get all available watches",
-        "GET /api/watches/:id": "Get specific watch details",
+        "GET /api/watches": "Get available watches (paginated: limit, offset or cursor, sortBy, sortOrder)",
+        "GET /api/watches/:id": "Get specific watch details, including its image gallery",
         "GET /api/watches/brand/:brand": "Get watches by brand",
-        "GET /api/watches/search": "Search watches with filters",
-        "POST /api/inquiries": "Submit watch inquiry",
-        "POST /api/sell": "Submit sell request"
+        "GET /api/watches/search": "Search watches (q, brand, model, reference, condition, minPrice, maxPrice, minYear, maxYear; facets=true for filter counts)",
+        "GET /api/form-token": "Get a signed token for the inquiry or sell form",
+        "POST /api/inquiries": "Submit watch inquiry (send form_token from /api/form-token and leave the hidden website field empty; likely spam is quarantined)",
+        "POST /api/sell": "Submit sell request (same spam checks as inquiries)"
       },
       admin: {
-        "POST /api/auth/login": "Admin login",
+        "POST /api/auth/login": "Admin login (remember_me for a 30-day session)",
+        "POST /api/auth/login/2fa": "Second login step (challenge_token plus code or recovery_code)",
+        "GET /api/auth/2fa": "Two-factor status",
+        "POST /api/auth/2fa/setup": "Start TOTP enrollment (returns otpauth:// provisioning URI)",
+        "POST /api/auth/2fa/enable": "Confirm enrollment with a code (returns recovery codes)",
+        "POST /api/auth/2fa/disable": "Disable 2FA (password plus code or recovery_code)",
+        "POST /api/auth/2fa/recovery-codes": "Regenerate recovery codes",
+        "POST /api/admin/users/:id/2fa/reset": "Reset a user's two-factor authentication",
+        "POST /api/auth/refresh": "Rotate refresh token and get a new access token",
         "GET /api/auth/me": "Get current user info",
-        "POST /api/auth/logout": "Admin logout",
+        "POST /api/auth/logout": "Admin logout (revokes current session)",
+        "POST /api/auth/password-reset/request": "Email a password reset link",
+        "POST /api/auth/password-reset/confirm": "Set a new password with a reset token",
+        "GET /api/auth/sessions": "List my active sessions",
+        "DELETE /api/auth/sessions": "Revoke my other sessions (include_current=true to end all)",
+        "DELETE /api/auth/sessions/:id": "Revoke a session",
+        "GET /api/admin/users": "List users (role, is_active, search, created/last_login ranges, limit, offset)",
+        "GET /api/admin/users/:id": "Get a user",
+        "POST /api/admin/users": "Create a user (username, email, password, role, profile fields)",
+        "PUT /api/admin/users/:id": "Update role, is_active or profile fields",
+        "POST /api/admin/users/:id/force-password-reset": "Require a new password at next login",
+        "DELETE /api/admin/users/:id": "Delete a user",
+        "GET /api/admin/users/:id/sessions": "List a user's active sessions",
+        "DELETE /api/admin/users/:id/sessions": "Revoke all of a user's sessions",
+        "GET /api/auth/tokens": "List my API tokens",
+        "POST /api/auth/tokens": "Create a scoped API token (name, scopes, expires_in_days)",
+        "DELETE /api/auth/tokens/:id": "Revoke an API token",
+        "GET /api/admin/api-tokens": "List all API tokens",
+        "GET /api/admin/audit-logs": "Query the audit trail (user_id, resource_type, resource_id, action, since, until, limit, offset)",
+        "GET /api/admin/security-events": "Browse security events (event_type, severity, user_id, ip_address, since, until, limit, offset)",
         "GET /api/admin/watches": "Get all watches (admin view)",
         "POST /api/admin/watches": "Create new watch",
         "PUT /api/admin/watches/:id": "Update watch",
         "DELETE /api/admin/watches/:id": "Delete watch",
+        "GET /api/admin/watches/:id/images": "List a watch's images in gallery order",
+        "POST /api/admin/watches/:id/images": "Upload and attach an image (multipart: image, alt_text, caption, is_primary)",
+        "PUT /api/admin/watches/:id/images/order": "Reorder the gallery (image_ids listing every image once)",
+        "PUT /api/admin/watches/:id/images/:imageId": "Update alt_text or caption, or set is_primary",
+        "DELETE /api/admin/watches/:id/images/:imageId": "Delete an image and its files",
+        "POST /api/admin/watch-images/cleanup": "Delete image files nothing references (dry_run=true to only list them)",
         "GET /api/admin/stats": "Get inventory statistics",
-        "GET /api/admin/inquiries": "Get all inquiries",
+        "GET /api/admin/inquiries": "Get all inquiries (status=quarantined for likely spam)",
         "PUT /api/admin/inquiries/:id": "Update inquiry",
-        "GET /api/admin/sell-submissions": "Get sell submissions"
+        "GET /api/admin/sell-submissions": "Get sell submissions",
+        "GET /api/admin/watches/:id/attachments": "List a watch's documents and certificates",
+        "POST /api/admin/watches/:id/attachments": "Attach a PDF, Word, text or image file (multipart: file, category, description)",
+        "GET /api/admin/sell-submissions/:id/attachments": "List a sell submission's documents and certificates",
+        "POST /api/admin/sell-submissions/:id/attachments": "Attach a file to a sell submission (same fields as for watches)",
+        "POST /api/admin/attachments/:id/link": "Get a signed download link, valid for 5 minutes",
+        "DELETE /api/admin/attachments/:id": "Delete an attachment and its file",
+        "GET /api/attachments/:id/download": "Download through a signed link (no Authorization header needed)",
+        "GET /api/admin/reservations": "List reservation holds (status, watch_id)",
+        "GET /api/admin/reservations/:id": "Get a reservation",
+        "POST /api/admin/reservations": "Reserve an available watch (watch_id, inquiry_id or customer details, deposit_amount, hold_days, notes)",
+        "POST /api/admin/reservations/:id/extend": "Extend an active hold (days; at most 2 extensions)",
+        "POST /api/admin/reservations/:id/release": "Release an active hold early (reason); the watch becomes available again",
+        "POST /api/admin/reservations/:id/complete": "Close an active hold as a sale; the watch is marked sold"
       },
       integrations: {
         "POST /api/watchcharts/search": "Search WatchCharts database",
@@ -45,9 +95,10 @@ apiRoutes.get("/api/docs", (ctx) => {
       }
     },
     authentication: {
-      type: "Bearer Token (JWT)",
+      type: "Bearer Token (JWT or API token)",
       header: "Authorization: Bearer <token>",
-      login: "POST /api/auth/login with username/password"
+      login: "POST /api/auth/login with username/password",
+      api_tokens: "POST /api/auth/tokens with scopes such as watches:read or inquiries:write"
     }
   };
 });
@@ -55,268 +106,236 @@ apiRoutes.get("/api/docs", (ctx) => {
 // WatchCharts API Integration
 
 // Search WatchCharts database (admin only)
-apiRoutes.post("/api/watchcharts/search", authMiddleware, async (ctx) => {
-  try {
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.brand || !body.reference) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Brand and reference are required"
-      };
-      return;
-    }
-    
-    const results = await searchWatchCharts(body.brand, body.reference);
-    
-    ctx.response.body = {
-      success: true,
-      data: results,
-      source: "WatchCharts API"
-    };
-  } catch (error) {
-    console.error("WatchCharts search error:", error);
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "WatchCharts search failed",
-      details: error.message
-    };
+apiRoutes.post("/api/watchcharts/search", authMiddleware, requirePermission("watches", "create"), async (ctx) => {
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.brand || !body.reference) {
+    throw new BadRequestError("Brand and reference are required");
   }
+  
+  const results = await searchWatchCharts(body.brand, body.reference);
+  
+  ctx.response.body = {
+    success: true,
+    data: results,
+    source: "WatchCharts API"
+  };
 });
 
 // Get watch info from WatchCharts by UUID (admin only)
-apiRoutes.get("/api/watchcharts/watch/:uuid", authMiddleware, async (ctx) => {
-  try {
-    const uuid = ctx.params.uuid;
-    
-    if (!uuid) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "UUID is required"
-      };
-      return;
-    }
-    
-    const watchInfo = await getWatchInfo(uuid);
-    
-    ctx.response.body = {
-      success: true,
-      data: watchInfo,
-      source: "WatchCharts API"
-    };
-  } catch (error) {
-    console.error("WatchCharts get watch error:", error);
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to get watch info from WatchCharts",
-      details: error.message
-    };
+apiRoutes.get("/api/watchcharts/watch/:uuid", authMiddleware, requirePermission("watches", "create"), async (ctx) => {
+  const uuid = ctx.params.uuid;
+  
+  if (!uuid) {
+    throw new BadRequestError("UUID is required");
   }
+  
+  const watchInfo = await getWatchInfo(uuid);
+  
+  ctx.response.body = {
+    success: true,
+    data: watchInfo,
+    source: "WatchCharts API"
+  };
 });
 
 // WhatsApp API Integration
 
 // Send WhatsApp message (admin only)
-apiRoutes.post("/api/whatsapp/send", authMiddleware, async (ctx) => {
-  try {
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.to || !body.message) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Recipient (to) and message are required"
-      };
-      return;
-    }
-    
-    const result = await sendWhatsAppMessage(body.to, body.message);
-    
-    ctx.response.body = {
-      success: true,
-      data: result,
-      message: "WhatsApp message sent successfully"
-    };
-  } catch (error) {
-    console.error("WhatsApp send error:", error);
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to send WhatsApp message",
-      details: error.message
-    };
+apiRoutes.post("/api/whatsapp/send", authMiddleware, requirePermission("integrations", "update"), async (ctx) => {
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.to || !body.message) {
+    throw new BadRequestError("Recipient (to) and message are required");
   }
+  
+  const result = await sendWhatsAppMessage(body.to, body.message);
+  
+  ctx.response.body = {
+    success: true,
+    data: result,
+    message: "WhatsApp message sent successfully"
+  };
 });
 
 // Settings Management
 
 // Get system settings (admin only)
-apiRoutes.get("/api/settings", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const settings = helper.selectAll("settings", "", []);
-    
-    // Convert to key-value object
-    const settingsObj: Record<string, any> = {};
-    settings.forEach((setting: any) => {
-      settingsObj[setting.key] = {
-        value: setting.value,
-        description: setting.description,
-        updated_at: setting.updated_at
-      };
-    });
-    
-    ctx.response.body = {
-      success: true,
-      data: settingsObj
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch settings",
-      details: error.message
+apiRoutes.get("/api/settings", authMiddleware, requirePermission("settings", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const settings = helper.selectAll("settings", "", []);
+  
+  // Convert to key-value object
+  const settingsObj: Record<string, any> = {};
+  settings.forEach((setting: any) => {
+    settingsObj[setting.key] = {
+      value: setting.value,
+      description: setting.description,
+      updated_at: setting.updated_at
     };
-  }
+  });
+  
+  ctx.response.body = {
+    success: true,
+    data: settingsObj
+  };
 });
 
 // Update system settings (admin only)
-apiRoutes.put("/api/settings", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const body = await ctx.request.body({ type: "json" }).value;
+apiRoutes.put("/api/settings", authMiddleware, requirePermission("settings", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const validation = validateSettings(body);
+  if (!validation.isValid) {
+    throw new ValidationError(validation.fields!);
+  }
+  
+  const updatedSettings: string[] = [];
+  
+  for (const [key, rawValue] of Object.entries(body)) {
+    const value = String(rawValue);
     
-    const updatedSettings: string[] = [];
+    // Check if setting exists
+    const existingSetting = helper.selectOne("settings", "key = ?", [key]);
     
-    for (const [key, value] of Object.entries(body)) {
-      // Check if setting exists
-      const existingSetting = helper.selectOne("settings", "key = ?", [key]);
-      
-      if (existingSetting) {
-        // Update existing setting
-        helper.update("settings", { value: value as string }, "key = ?", [key]);
-        updatedSettings.push(key);
-      } else {
-        // Create new setting
-        helper.insert("settings", {
-          key: key,
-          value: value as string,
-          description: `User-defined setting: ${key}`
-        });
-        updatedSettings.push(key);
-      }
+    if (existingSetting) {
+      // Update existing setting
+      helper.update("settings", { value }, "key = ?", [key]);
+      audit(ctx, {
+        action: "update",
+        resource_type: "settings",
+        resource_id: existingSetting.id,
+        before: existingSetting,
+        after: helper.selectOne("settings", "key = ?", [key])
+      });
+      updatedSettings.push(key);
+    } else {
+      // Create new setting
+      const setting = {
+        key: key,
+        value,
+        description: `User-defined setting: ${key}`
+      };
+      const settingId = helper.insert("settings", setting);
+      audit(ctx, { action: "create", resource_type: "settings", resource_id: settingId, after: setting });
+      updatedSettings.push(key);
     }
-    
-    ctx.response.body = {
-      success: true,
-      message: `Updated ${updatedSettings.length} setting(s)`,
-      updated: updatedSettings
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to update settings",
-      details: error.message
-    };
   }
+  
+  ctx.response.body = {
+    success: true,
+    message: `Updated ${updatedSettings.length} setting(s)`,
+    updated: updatedSettings
+  };
 });
 
 // Get API key status (admin only)
-apiRoutes.get("/api/keys/status", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const apiKeys = helper.selectAll("api_keys", "is_active = ?", [true]);
-    
-    const status: Record<string, any> = {
-      watchcharts: {
-        configured: false,
-        active: false,
-        last_used: null
-      },
-      whatsapp: {
-        configured: false,
-        active: false,
-        last_used: null
-      }
-    };
-    
-    apiKeys.forEach((key: any) => {
-      if (key.service === "watchcharts") {
-        status.watchcharts.configured = true;
-        status.watchcharts.active = key.is_active;
-      } else if (key.service === "whatsapp") {
-        status.whatsapp.configured = true;
-        status.whatsapp.active = key.is_active;
-      }
-    });
-    
-    ctx.response.body = {
-      success: true,
-      data: status
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch API key status",
-      details: error.message
-    };
-  }
+apiRoutes.get("/api/keys/status", authMiddleware, requirePermission("integrations", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const apiKeys = helper.selectAll("api_keys", "is_active = ?", [true]);
+  
+  const status: Record<string, any> = {
+    watchcharts: {
+      configured: false,
+      active: false,
+      last_used: null
+    },
+    whatsapp: {
+      configured: false,
+      active: false,
+      last_used: null
+    }
+  };
+  
+  apiKeys.forEach((key: any) => {
+    if (key.service === "watchcharts") {
+      status.watchcharts.configured = true;
+      status.watchcharts.active = key.is_active;
+    } else if (key.service === "whatsapp") {
+      status.whatsapp.configured = true;
+      status.whatsapp.active = key.is_active;
+    }
+  });
+  
+  ctx.response.body = {
+    success: true,
+    data: status
+  };
 });
 
 // Update API keys (admin only)
-apiRoutes.post("/api/keys", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.service || !body.key_name || !body.key_value) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Service, key_name, and key_value are required"
-      };
-      return;
-    }
-    
-    // Deactivate existing keys for this service
-    helper.update("api_keys", { is_active: false }, "service = ?", [body.service]);
-    
-    // Add new key
-    const keyId = helper.insert("api_keys", {
-      service: body.service,
-      key_name: body.key_name,
-      key_value: body.key_value,
-      is_active: true
+apiRoutes.post("/api/keys", authMiddleware, requirePermission("integrations", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const validation = validateApiKey(body);
+  if (!validation.isValid) {
+    throw new ValidationError(validation.fields!);
+  }
+  
+  // Deactivate existing keys for this service
+  const previousKeys = helper.selectAll("api_keys", "service = ? AND is_active = ?", [body.service, true]);
+  helper.update("api_keys", { is_active: false }, "service = ?", [body.service]);
+  for (const previous of previousKeys) {
+    audit(ctx, {
+      action: "update",
+      resource_type: "api_keys",
+      resource_id: previous.id,
+      before: previous,
+      after: helper.selectOne("api_keys", "id = ?", [previous.id])
     });
-    
-    ctx.response.status = 201;
-    ctx.response.body = {
-      success: true,
-      message: `API key for ${body.service} updated successfully`,
-      data: { id: keyId }
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to update API key",
-      details: error.message
-    };
   }
+  
+  // Add new key
+  const keyData = {
+    service: body.service,
+    key_name: body.key_name,
+    key_value: body.key_value,
+    is_active: true
+  };
+  const keyId = helper.insert("api_keys", keyData);
+  audit(ctx, { action: "create", resource_type: "api_keys", resource_id: keyId, after: keyData });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: `API key for ${body.service} updated successfully`,
+    data: { id: keyId }
+  };
+});
+
+// Query the audit trail (admin only)
+apiRoutes.get("/api/admin/audit-logs", authMiddleware, requirePermission("audit_logs", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const url = new URL(ctx.request.url);
+  const params = url.searchParams;
+  
+  const { logs, total } = listAuditLogs(db, {
+    user_id: parseInt(params.get("user_id") || "") || undefined,
+    resource_type: params.get("resource_type") || undefined,
+    resource_id: parseInt(params.get("resource_id") || "") || undefined,
+    action: (params.get("action") || undefined) as AuditAction | undefined,
+    since: params.get("since") || undefined,
+    until: params.get("until") || undefined,
+    limit: parseInt(params.get("limit") || "") || undefined,
+    offset: parseInt(params.get("offset") || "") || undefined
+  });
+  
+  ctx.response.body = {
+    success: true,
+    data: logs,
+    count: logs.length,
+    total
+  };
 });
 
 // Health check endpoint
@@ -334,29 +353,19 @@ apiRoutes.get("/api/health", (ctx) => {
 });
 
 // Test endpoint for WhatsApp (admin only)
-apiRoutes.post("/api/test/whatsapp", authMiddleware, async (ctx) => {
-  try {
-    const testMessage = `🧪 Test message from Prestige Timepieces Admin Panel
+apiRoutes.post("/api/test/whatsapp", authMiddleware, requirePermission("integrations", "update"), async (ctx) => {
+  const testMessage = `🧪 Test message from Prestige Timepieces Admin Panel
     
 Timestamp: ${new Date().toISOString()}
 User: ${ctx.state.user.username}
 
 This is a test to verify WhatsApp integration is working correctly.`;
 
-    const result = await sendWhatsAppMessage("+1234567890", testMessage); // Use admin number
-    
-    ctx.response.body = {
-      success: true,
-      message: "Test WhatsApp message sent successfully",
-      data: result
-    };
-  } catch (error) {
-    console.error("WhatsApp test error:", error);
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "WhatsApp test failed",
-      details: error.message
-    };
-  }
+  const result = await sendWhatsAppMessage("+1234567890", testMessage); // Use admin number
+  
+  ctx.response.body = {
+    success: true,
+    message: "Test WhatsApp message sent successfully",
+    data: result
+  };
 });
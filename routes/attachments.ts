@@ -0,0 +1,155 @@
+// routes/attachments.ts - Private documents and certificates for watches and sell submissions
+import { Context, Router } from "@oak";
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { assertPermission, authMiddleware, hasPermission, requirePermission } from "../middleware/auth.ts";
+import {
+  assertAttachmentOwner,
+  createDownloadLink,
+  deleteAttachment,
+  getAttachment,
+  listAttachments,
+  readAttachmentFile,
+  storeAttachment,
+  verifyDownloadLink
+} from "../services/attachments.ts";
+import { audit } from "../services/audit.ts";
+import { readFileUpload } from "../services/uploads.ts";
+import { Attachment, AttachmentCategory, AttachmentOwnerType } from "../types/api.ts";
+import { UserAction } from "../types/user.ts";
+import { ERROR_CODES } from "../utils/constants.ts";
+import { attachmentDisposition } from "../utils/documents.ts";
+import { BadRequestError, ForbiddenError, ValidationError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+import { validateAndSanitize, validateAttachmentUpload } from "../utils/validation.ts";
+
+export const attachmentRoutes = new Router();
+
+// URL segment and permission resource for each kind of owner
+const OWNERS: Record<AttachmentOwnerType, { path: string; resource: string; label: string }> = {
+  watch: { path: "watches", resource: "watches", label: "watch" },
+  sell_submission: { path: "sell-submissions", resource: "sell_submissions", label: "submission" }
+};
+
+function parseId(param: string | undefined, label: string): number {
+  const id = parseInt(param ?? "");
+  if (isNaN(id)) {
+    throw new BadRequestError(`Invalid ${label} ID`);
+  }
+  return id;
+}
+
+// Loads an attachment and checks the caller's permission on the watch or submission it belongs to
+function authorizedAttachment(ctx: Context, id: number, action: UserAction): Attachment {
+  const attachment = getAttachment(ctx.state.db as Database, id);
+  assertPermission(ctx, OWNERS[attachment.owner_type].resource, action);
+  return attachment;
+}
+
+for (const [ownerType, owner] of Object.entries(OWNERS) as [AttachmentOwnerType, typeof OWNERS[AttachmentOwnerType]][]) {
+  // List the attachments of a watch or sell submission
+  attachmentRoutes.get(`/api/admin/${owner.path}/:id/attachments`, authMiddleware, requirePermission(owner.resource, "read"), async (ctx) => {
+    const db = ctx.state.db as Database;
+    const ownerId = parseId(ctx.params.id, owner.label);
+    assertAttachmentOwner(db, ownerType, ownerId);
+    
+    const attachments = listAttachments(db, ownerType, ownerId);
+    
+    ctx.response.body = {
+      success: true,
+      data: attachments,
+      count: attachments.length
+    };
+  });
+  
+  // Upload a document. Multipart fields: file, category ("certificate" or "document", the default)
+  // and description.
+  attachmentRoutes.post(`/api/admin/${owner.path}/:id/attachments`, authMiddleware, requirePermission(owner.resource, "update"), async (ctx) => {
+    const db = ctx.state.db as Database;
+    const ownerId = parseId(ctx.params.id, owner.label);
+    assertAttachmentOwner(db, ownerType, ownerId);
+    
+    const { content, originalName, fields } = await readFileUpload(ctx, "file");
+    const { isValid, fields: fieldErrors, sanitizedData } = validateAndSanitize(fields, validateAttachmentUpload, ["description"]);
+    if (!isValid) {
+      throw new ValidationError(fieldErrors);
+    }
+    
+    const attachment = await storeAttachment(db, {
+      ownerType,
+      ownerId,
+      category: (sanitizedData.category || "document") as AttachmentCategory,
+      description: sanitizedData.description,
+      content,
+      originalName,
+      uploadedBy: ctx.state.user.id
+    });
+    
+    audit(ctx, { action: "create", resource_type: "attachments", resource_id: attachment.id, after: attachment });
+    
+    ctx.response.status = 201;
+    ctx.response.body = {
+      success: true,
+      message: "Attachment uploaded",
+      data: attachment
+    };
+  });
+}
+
+// Issue a short-lived download link for the current user
+attachmentRoutes.post("/api/admin/attachments/:id/link", authMiddleware, async (ctx) => {
+  const attachment = authorizedAttachment(ctx, parseId(ctx.params.id, "attachment"), "read");
+  
+  const link = await createDownloadLink(attachment, ctx.state.user.id);
+  
+  ctx.response.body = {
+    success: true,
+    data: link
+  };
+});
+
+// Delete an attachment and its file
+attachmentRoutes.delete("/api/admin/attachments/:id", authMiddleware, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const attachment = authorizedAttachment(ctx, parseId(ctx.params.id, "attachment"), "update");
+  
+  await deleteAttachment(db, attachment.id);
+  audit(ctx, { action: "delete", resource_type: "attachments", resource_id: attachment.id, before: attachment });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Attachment deleted"
+  };
+});
+
+// Download through a signed link. There is no Authorization header (links open in the browser), so the
+// signature stands in for it; the user it was issued to must still be active and allowed to read.
+attachmentRoutes.get("/api/attachments/:id/download", async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseId(ctx.params.id, "attachment");
+  
+  const { status, userId } = await verifyDownloadLink(id, ctx.request.url.searchParams);
+  if (status === "expired") {
+    throw new ForbiddenError("This download link has expired. Request a new one.", { code: ERROR_CODES.TOKEN_EXPIRED });
+  }
+  if (status !== "valid") {
+    throw new ForbiddenError("Invalid download link");
+  }
+  
+  const user = new DatabaseHelper(db).selectOne("admin_users", "id = ?", [userId]);
+  if (!user?.is_active || !hasPermission(user.role, OWNERS[getAttachment(db, id).owner_type].resource, "read")) {
+    throw new ForbiddenError("Invalid download link");
+  }
+  
+  const { attachment, content } = await readAttachmentFile(db, id);
+  
+  logger.info("Attachment downloaded", { attachment_id: id, userId });
+  
+  const headers = ctx.response.headers;
+  headers.set("Content-Type", attachment.mime_type);
+  headers.set("Content-Disposition", attachmentDisposition(attachment.original_name, "bin"));
+  headers.set("Cache-Control", "private, no-store");
+  headers.set("X-Content-Type-Options", "nosniff");
+  headers.set("Content-Security-Policy", "default-src 'none'; sandbox");
+  ctx.response.body = content;
+});
@@ -1,307 +1,888 @@
 // routes/auth.ts - Authentication routes
-import { Router } from "@oak";
+import { Context, Router } from "@oak";
 import { Database } from "@sqlite";
 import { DatabaseHelper } from "../database/init.ts";
-import { create, verify } from "https://deno.land/x/djwt@v3.0.1/mod.ts";
+import { authMiddleware, generateToken, hasPermission, requirePermission, requireSession } from "../middleware/auth.ts";
+import {
+  createSession,
+  getSession,
+  issueRefreshToken,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  sessionDuration
+} from "../services/sessions.ts";
+import {
+  getLoginLockout,
+  LoginLockout,
+  listSecurityEvents,
+  recordLoginAttempt,
+  recordSecurityEvent
+} from "../services/security.ts";
+import { audit } from "../services/audit.ts";
+import { requestPasswordReset, resetPassword } from "../services/password_reset.ts";
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  consumeLoginChallenge,
+  countRemainingRecoveryCodes,
+  createLoginChallenge,
+  disableTwoFactor,
+  findLoginChallenge,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  recordChallengeFailure,
+  verifySecondFactor
+} from "../services/two_factor.ts";
+import { createUser, findUserConflict, getUserRow } from "../services/users.ts";
+import { createApiToken, getApiToken, listApiTokens, revokeApiToken, validateScopes } from "../services/tokens.ts";
+import { PasswordResetData, PasswordResetRequest, SecurityEvent, SecurityEventType, SessionInfo } from "../types/user.ts";
+import { AUTH_CONFIG, ERROR_CODES, HTTP_STATUS } from "../utils/constants.ts";
+import {
+  AppError,
+  AuthError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError
+} from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+import { DUMMY_PASSWORD_HASH, hashPassword, needsRehash, verifyPassword } from "../utils/password.ts";
+import { validatePassword, validateUser } from "../utils/validation.ts";
 
 export const authRoutes = new Router();
 
-const JWT_SECRET = Deno.env.get("JWT_SECRET") || "prestige-timepieces-secret-key-2024";
-const JWT_ALG = "HS256";
+// 423 for a locked account, 429 when one IP is failing logins across many accounts
+function lockedOutError(lockout: LoginLockout): AppError {
+  if (lockout.scope === "account") {
+    return new AuthError("Account temporarily locked due to too many failed login attempts. Please try again later.", {
+      status: HTTP_STATUS.LOCKED,
+      code: ERROR_CODES.ACCOUNT_LOCKED,
+      details: { locked_until: lockout.locked_until },
+      retryAfter: lockout.retry_after
+    });
+  }
+  
+  return new RateLimitError("Too many failed login attempts from this address. Please try again later.", {
+    details: { locked_until: lockout.locked_until },
+    retryAfter: lockout.retry_after
+  });
+}
+
+// Final login step shared by password-only and two-factor logins: start a session and issue tokens
+async function completeLogin(ctx: Context, user: any, rememberMe: boolean, extra: Record<string, any> = {}) {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const ipAddress = ctx.request.ip;
+  const userAgent = ctx.request.headers.get("User-Agent") || "";
+  
+  recordLoginAttempt(db, user.username, ipAddress, true);
+  helper.update("admin_users", { last_login: new Date().toISOString() }, "id = ?", [user.id]);
+  
+  // Record the session so it can be listed and revoked later
+  const session = createSession(db, user.id, {
+    ipAddress,
+    userAgent,
+    duration: sessionDuration(rememberMe),
+    rememberMe
+  });
+  
+  recordSecurityEvent(db, {
+    event_type: "login_success",
+    severity: "low",
+    description: `User "${user.username}" logged in`,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    user_id: user.id,
+    additional_data: { session_id: session.id, remember_me: rememberMe, ...extra }
+  });
+  
+  // Short-lived access token plus a rotating refresh token for the session
+  const token = await generateToken(user, session.id);
+  const refreshToken = await issueRefreshToken(db, session);
+  
+  ctx.response.body = {
+    success: true,
+    message: "Login successful",
+    data: {
+      token,
+      token_type: "Bearer",
+      expires_in: AUTH_CONFIG.ACCESS_TOKEN_EXPIRES / 1000,
+      refresh_token: refreshToken.token,
+      refresh_expires_at: refreshToken.expires_at,
+      session_id: session.id,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        last_login: user.last_login,
+        must_change_password: Boolean(user.must_change_password),
+        two_factor_enabled: Boolean(user.totp_enabled),
+        two_factor_setup_required: !user.totp_enabled && isTwoFactorRequired(db, user.role)
+      }
+    }
+  };
+}
 
 // Login endpoint
 authRoutes.post("/api/auth/login", async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.username || !body.password) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Username and password are required"
-      };
-      return;
-    }
-    
-    // Find user
-    const user = helper.selectOne("admin_users", "username = ?", [body.username]);
-    
-    if (!user) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "Invalid credentials"
-      };
-      return;
-    }
-    
-    // Verify password (simple base64 check for demo - use bcrypt in production)
-    const expectedHash = btoa(body.password);
-    if (user.password_hash !== expectedHash) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "Invalid credentials"
-      };
-      return;
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.username || !body.password) {
+    throw new BadRequestError("Username and password are required");
+  }
+  
+  const ipAddress = ctx.request.ip;
+  const userAgent = ctx.request.headers.get("User-Agent") || "";
+  const username = String(body.username);
+  
+  // Refuse outright while locked out, without checking (or counting) the password
+  const activeLockout = getLoginLockout(db, username, ipAddress);
+  if (activeLockout) {
+    recordSecurityEvent(db, {
+      event_type: "login_failure",
+      severity: "medium",
+      description: `Login attempt for "${username}" rejected while locked out (${activeLockout.scope})`,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      additional_data: { username, lockout_scope: activeLockout.scope }
+    });
+    throw lockedOutError(activeLockout);
+  }
+  
+  // Find user and verify password (unknown usernames still pay for a hash check, against a dummy hash)
+  const user = helper.selectOne("admin_users", "username = ?", [username]);
+  const passwordValid = await verifyPassword(body.password, user?.password_hash ?? DUMMY_PASSWORD_HASH) && !!user;
+  
+  if (!user || !passwordValid) {
+    recordLoginAttempt(db, username, ipAddress, false);
+    recordSecurityEvent(db, {
+      event_type: "login_failure",
+      severity: "low",
+      description: user ? `Invalid password for "${username}"` : `Login attempt for unknown user "${username}"`,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      user_id: user?.id,
+      additional_data: { username }
+    });
+    
+    // This failure may be the one that crosses a threshold
+    const lockout = getLoginLockout(db, username, ipAddress);
+    if (lockout) {
+      const eventType: SecurityEventType = lockout.scope === "account" ? "account_locked" : "suspicious_activity";
+      recordSecurityEvent(db, {
+        event_type: eventType,
+        severity: "high",
+        description: lockout.scope === "account"
+          ? `Account "${username}" locked after ${AUTH_CONFIG.MAX_LOGIN_ATTEMPTS} failed login attempts`
+          : `Address ${ipAddress} blocked after ${AUTH_CONFIG.MAX_LOGIN_ATTEMPTS_PER_IP} failed login attempts`,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        user_id: user?.id,
+        additional_data: { username, locked_until: lockout.locked_until }
+      });
+      throw lockedOutError(lockout);
     }
     
-    // Update last login
-    helper.update("admin_users", { last_login: new Date().toISOString() }, "id = ?", [user.id]);
-    
-    // Create JWT token
-    const payload = {
-      sub: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
-    };
-    
-    const token = await create({ alg: JWT_ALG, typ: "JWT" }, payload, JWT_SECRET);
+    throw new AuthError("Invalid credentials", { code: ERROR_CODES.INVALID_CREDENTIALS });
+  }
+  
+  if (!user.is_active) {
+    recordSecurityEvent(db, {
+      event_type: "login_failure",
+      severity: "medium",
+      description: `Login attempt for disabled account "${username}"`,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      user_id: user.id,
+      additional_data: { username }
+    });
+    throw new ForbiddenError("This account has been disabled", { code: ERROR_CODES.ACCOUNT_DISABLED });
+  }
+  
+  // Upgrade legacy or outdated password hashes while we have the plain-text password
+  if (needsRehash(user.password_hash)) {
+    helper.update("admin_users", { password_hash: await hashPassword(body.password) }, "id = ?", [user.id]);
+  }
+  
+  const rememberMe = body.remember_me === true;
+  
+  // Second step: the password was right, now the authenticator code is needed
+  if (user.totp_enabled) {
+    const challengeToken = await createLoginChallenge(db, user.id, rememberMe);
     
     ctx.response.body = {
       success: true,
-      message: "Login successful",
+      message: "Two-factor authentication required",
+      code: ERROR_CODES.TWO_FACTOR_REQUIRED,
       data: {
-        token,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          role: user.role,
-          last_login: user.last_login
-        }
+        two_factor_required: true,
+        challenge_token: challengeToken,
+        expires_in: AUTH_CONFIG.TWO_FACTOR_CHALLENGE_EXPIRES / 1000
       }
     };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Login failed",
-      details: error.message
-    };
+    return;
   }
+  
+  await completeLogin(ctx, user, rememberMe);
 });
 
-// Logout endpoint (client-side token removal, but we can log it)
-authRoutes.post("/api/auth/logout", async (ctx) => {
-  try {
-    // In a more sophisticated system, you might maintain a blacklist of tokens
-    // For now, we'll just log the logout
-    console.log("User logged out at", new Date().toISOString());
-    
-    ctx.response.body = {
-      success: true,
-      message: "Logout successful"
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Logout failed",
-      details: error.message
-    };
+// Second login step: exchange the challenge token plus a TOTP or recovery code for a session
+authRoutes.post("/api/auth/login/2fa", async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.challenge_token || (!body.code && !body.recovery_code)) {
+    throw new BadRequestError("challenge_token and either code or recovery_code are required");
+  }
+  
+  const challenge = await findLoginChallenge(db, String(body.challenge_token));
+  const user = challenge ? helper.selectOne("admin_users", "id = ?", [challenge.user_id]) : null;
+  
+  if (!challenge || !user || !user.is_active) {
+    throw new AuthError("Login challenge is invalid or has expired. Please login again.");
+  }
+  
+  const ipAddress = ctx.request.ip;
+  const userAgent = ctx.request.headers.get("User-Agent") || "";
+  
+  const activeLockout = getLoginLockout(db, user.username, ipAddress);
+  if (activeLockout) {
+    throw lockedOutError(activeLockout);
   }
+  
+  const method = await verifySecondFactor(db, user, {
+    code: body.code ? String(body.code) : undefined,
+    recovery_code: body.recovery_code ? String(body.recovery_code) : undefined
+  });
+  
+  if (!method) {
+    // Wrong codes count towards the same lockout as wrong passwords
+    recordChallengeFailure(db, challenge.id);
+    recordLoginAttempt(db, user.username, ipAddress, false);
+    recordSecurityEvent(db, {
+      event_type: "two_factor_failure",
+      severity: "medium",
+      description: `Invalid two-factor code for "${user.username}"`,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      user_id: user.id
+    });
+    
+    throw new AuthError("Invalid authentication code", { code: ERROR_CODES.INVALID_CREDENTIALS });
+  }
+  
+  if (!consumeLoginChallenge(db, challenge.id)) {
+    throw new AuthError("Login challenge has already been used. Please login again.");
+  }
+  
+  await completeLogin(ctx, user, challenge.remember_me, {
+    two_factor_method: method,
+    recovery_codes_remaining: method === "recovery_code" ? countRemainingRecoveryCodes(db, user.id) : undefined
+  });
 });
 
-// Get current user info
-authRoutes.get("/api/auth/me", async (ctx) => {
-  try {
-    const authHeader = ctx.request.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "No valid token provided"
-      };
-      return;
-    }
-    
-    const token = authHeader.substring(7);
-    const payload = await verify(token, JWT_SECRET, JWT_ALG);
-    
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const user = helper.selectOne("admin_users", "id = ?", [payload.sub]);
-    
-    if (!user) {
-      ctx.response.status = 401;
-      ctx.response.body = {
-        success: false,
-        error: "User not found"
-      };
-      return;
-    }
-    
-    ctx.response.body = {
-      success: true,
-      data: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role,
-        last_login: user.last_login
-      }
-    };
-  } catch (error) {
-    ctx.response.status = 401;
-    ctx.response.body = {
-      success: false,
-      error: "Invalid token",
-      details: error.message
+// Exchange a refresh token for a new access token (and a new refresh token)
+authRoutes.post("/api/auth/refresh", async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.refresh_token) {
+    throw new BadRequestError("refresh_token is required");
+  }
+  
+  const result = await rotateRefreshToken(db, body.refresh_token);
+  
+  if (result.status !== "rotated") {
+    const messages = {
+      invalid: "Invalid refresh token. Please login again.",
+      expired: "Session has expired. Please login again.",
+      reused: "Refresh token was already used. All sessions for this login have been revoked."
     };
+    throw new AuthError(messages[result.status], { code: result.status === "expired" ? ERROR_CODES.TOKEN_EXPIRED : ERROR_CODES.UNAUTHORIZED });
+  }
+  
+  const user = helper.selectOne("admin_users", "id = ?", [result.session.user_id]);
+  if (!user) {
+    revokeSession(db, result.session.id);
+    throw new AuthError("User not found. Please login again.");
   }
+  
+  const token = await generateToken(user, result.session.id);
+  
+  ctx.response.body = {
+    success: true,
+    data: {
+      token,
+      token_type: "Bearer",
+      expires_in: AUTH_CONFIG.ACCESS_TOKEN_EXPIRES / 1000,
+      refresh_token: result.refreshToken.token,
+      refresh_expires_at: result.refreshToken.expires_at,
+      session_id: result.session.id
+    }
+  };
 });
 
-// Change password
-authRoutes.post("/api/auth/change-password", async (ctx) => {
-  try {
-    const authHeader = ctx.request.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      ctx.response.status = 401;
-      ctx.response.body = { success: false, error: "Authentication required" };
-      return;
-    }
-    
-    const token = authHeader.substring(7);
-    const payload = await verify(token, JWT_SECRET, JWT_ALG);
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.currentPassword || !body.newPassword) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Current password and new password are required"
-      };
-      return;
-    }
-    
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const user = helper.selectOne("admin_users", "id = ?", [payload.sub]);
-    
-    // Verify current password
-    const currentHash = btoa(body.currentPassword);
-    if (user.password_hash !== currentHash) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Current password is incorrect"
-      };
-      return;
-    }
-    
-    // Update password
-    const newHash = btoa(body.newPassword);
-    const success = helper.update("admin_users", { password_hash: newHash }, "id = ?", [user.id]);
-    
-    if (success) {
-      ctx.response.body = {
-        success: true,
-        message: "Password changed successfully"
-      };
-    } else {
-      ctx.response.status = 500;
-      ctx.response.body = {
-        success: false,
-        error: "Failed to change password"
-      };
-    }
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Password change failed",
-      details: error.message
+// Logout endpoint (revokes the current session)
+authRoutes.post("/api/auth/logout", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  if (ctx.state.session) {
+    revokeSession(db, ctx.state.session.id);
+  }
+  
+  ctx.response.body = {
+    success: true,
+    message: "Logout successful"
+  };
+});
+
+// Request a password reset link (always answers the same way so emails can't be enumerated)
+authRoutes.post("/api/auth/password-reset/request", async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body: PasswordResetRequest = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.email || typeof body.email !== "string") {
+    throw new BadRequestError("Email is required");
+  }
+  
+  const user = helper.selectOne("admin_users", "email = ? AND is_active = 1", [body.email.trim()]);
+  
+  if (user) {
+    // Not awaited: known and unknown emails get the same answer in the same time, and a mail failure
+    // is only logged
+    requestPasswordReset(db, user, ctx.request.ip).catch((error) => {
+      logger.error("Password reset request failed", { user_id: user.id, error: (error as Error).message });
+    });
+    recordSecurityEvent(db, {
+      event_type: "password_reset_request",
+      severity: "medium",
+      description: `Password reset requested for "${user.username}"`,
+      ip_address: ctx.request.ip,
+      user_agent: ctx.request.headers.get("User-Agent") || "",
+      user_id: user.id
+    });
+  }
+  
+  ctx.response.body = {
+    success: true,
+    message: "If an account exists for that email, a password reset link has been sent."
+  };
+});
+
+// Set a new password with a reset token
+authRoutes.post("/api/auth/password-reset/confirm", async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const body: PasswordResetData = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.token || !body.new_password || !body.confirm_password) {
+    throw new BadRequestError("Token, new password and confirmation are required");
+  }
+  
+  if (body.new_password !== body.confirm_password) {
+    throw new BadRequestError("Passwords do not match");
+  }
+  
+  const passwordCheck = validatePassword(body.new_password, "New password");
+  if (!passwordCheck.isValid) {
+    throw new ValidationError({ new_password: passwordCheck.errors }, "New password does not meet the requirements");
+  }
+  
+  const result = await resetPassword(db, body.token, body.new_password);
+  
+  if (result.status !== "valid") {
+    const messages = {
+      invalid: "Invalid password reset link",
+      expired: "This password reset link has expired. Please request a new one.",
+      used: "This password reset link has already been used"
     };
+    throw new BadRequestError(messages[result.status], { code: result.status === "expired" ? ERROR_CODES.TOKEN_EXPIRED : ERROR_CODES.INVALID_INPUT });
   }
+  
+  recordSecurityEvent(db, {
+    event_type: "password_change",
+    severity: "medium",
+    description: "Password reset with an emailed link",
+    ip_address: ctx.request.ip,
+    user_agent: ctx.request.headers.get("User-Agent") || "",
+    user_id: result.userId
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Password has been reset. Please log in with your new password."
+  };
 });
 
-// Create new admin user (super admin only)
-authRoutes.post("/api/auth/create-user", async (ctx) => {
-  try {
-    const authHeader = ctx.request.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      ctx.response.status = 401;
-      ctx.response.body = { success: false, error: "Authentication required" };
-      return;
+// Two-factor status for the current user
+authRoutes.get("/api/auth/2fa", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, ctx.state.user.id);
+  
+  ctx.response.body = {
+    success: true,
+    data: {
+      enabled: Boolean(user.totp_enabled),
+      required: isTwoFactorRequired(db, user.role),
+      enrollment_pending: Boolean(user.totp_pending_secret),
+      recovery_codes_remaining: user.totp_enabled ? countRemainingRecoveryCodes(db, user.id) : 0
     }
-    
-    const token = authHeader.substring(7);
-    const payload = await verify(token, JWT_SECRET, JWT_ALG);
-    
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const currentUser = helper.selectOne("admin_users", "id = ?", [payload.sub]);
-    
-    // Check if current user has permission (in this demo, all admins can create users)
-    if (currentUser.role !== "admin") {
-      ctx.response.status = 403;
-      ctx.response.body = {
-        success: false,
-        error: "Insufficient permissions"
-      };
-      return;
-    }
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    if (!body.username || !body.password || !body.email) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Username, password, and email are required"
-      };
-      return;
-    }
-    
-    // Check if username or email already exists
-    const existingUser = helper.selectOne("admin_users", "username = ? OR email = ?", [body.username, body.email]);
-    if (existingUser) {
-      ctx.response.status = 400;
-      ctx.response.body = {
-        success: false,
-        error: "Username or email already exists"
-      };
-      return;
+  };
+});
+
+// Start enrollment: returns the secret and an otpauth:// URI to show as a QR code
+authRoutes.post("/api/auth/2fa/setup", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, ctx.state.user.id);
+  
+  if (user.totp_enabled) {
+    throw new ConflictError("Two-factor authentication is already enabled");
+  }
+  
+  const enrollment = beginEnrollment(db, user);
+  
+  ctx.response.body = {
+    success: true,
+    message: "Scan the QR code with your authenticator app, then confirm with a code",
+    data: enrollment
+  };
+});
+
+// Finish enrollment with a code from the authenticator; recovery codes are shown only here
+authRoutes.post("/api/auth/2fa/enable", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, ctx.state.user.id);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.code) {
+    throw new BadRequestError("code is required");
+  }
+  
+  if (!user.totp_pending_secret) {
+    throw new ConflictError("No two-factor setup in progress. Call /api/auth/2fa/setup first.");
+  }
+  
+  const recoveryCodes = await confirmEnrollment(db, user, String(body.code));
+  if (!recoveryCodes) {
+    throw new BadRequestError("Invalid authentication code", { code: ERROR_CODES.INVALID_CREDENTIALS });
+  }
+  
+  audit(ctx, { action: "update", resource_type: "users", resource_id: user.id, before: user, after: getUserRow(db, user.id) });
+  recordSecurityEvent(db, {
+    event_type: "two_factor_enabled",
+    severity: "medium",
+    description: `User "${user.username}" enabled two-factor authentication`,
+    ip_address: ctx.request.ip,
+    user_agent: ctx.request.headers.get("User-Agent") || "",
+    user_id: user.id
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Two-factor authentication enabled. Store these recovery codes somewhere safe - they will not be shown again.",
+    data: { recovery_codes: recoveryCodes }
+  };
+});
+
+// Turn 2FA off (needs the password and a current code or recovery code; not allowed where the role requires it)
+authRoutes.post("/api/auth/2fa/disable", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, ctx.state.user.id);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!user.totp_enabled) {
+    throw new ConflictError("Two-factor authentication is not enabled");
+  }
+  
+  if (isTwoFactorRequired(db, user.role)) {
+    throw new ConflictError("Two-factor authentication is required for your role and cannot be disabled");
+  }
+  
+  const passwordValid = body.password && await verifyPassword(String(body.password), user.password_hash);
+  const method = passwordValid
+    ? await verifySecondFactor(db, user, {
+      code: body.code ? String(body.code) : undefined,
+      recovery_code: body.recovery_code ? String(body.recovery_code) : undefined
+    })
+    : null;
+  
+  if (!method) {
+    throw new BadRequestError("Password and a valid authentication or recovery code are required", { code: ERROR_CODES.INVALID_CREDENTIALS });
+  }
+  
+  disableTwoFactor(db, user.id);
+  
+  audit(ctx, { action: "update", resource_type: "users", resource_id: user.id, before: user, after: getUserRow(db, user.id) });
+  recordSecurityEvent(db, {
+    event_type: "two_factor_disabled",
+    severity: "high",
+    description: `User "${user.username}" disabled two-factor authentication`,
+    ip_address: ctx.request.ip,
+    user_agent: ctx.request.headers.get("User-Agent") || "",
+    user_id: user.id
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Two-factor authentication disabled"
+  };
+});
+
+// Replace all recovery codes (needs a current authenticator code)
+authRoutes.post("/api/auth/2fa/recovery-codes", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, ctx.state.user.id);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const method = body.code ? await verifySecondFactor(db, user, { code: String(body.code) }) : null;
+  if (!method) {
+    throw new BadRequestError("A valid authentication code is required", { code: ERROR_CODES.INVALID_CREDENTIALS });
+  }
+  
+  const recoveryCodes = await generateRecoveryCodes(db, user.id);
+  
+  ctx.response.body = {
+    success: true,
+    message: "New recovery codes generated. Previous codes no longer work.",
+    data: { recovery_codes: recoveryCodes }
+  };
+});
+
+// Get current user info
+authRoutes.get("/api/auth/me", authMiddleware, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const user = helper.selectOne("admin_users", "id = ?", [ctx.state.user.id]);
+  
+  ctx.response.body = {
+    success: true,
+    data: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      last_login: user.last_login
     }
+  };
+});
+
+// Change password
+authRoutes.post("/api/auth/change-password", authMiddleware, requireSession, async (ctx) => {
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  if (!body.currentPassword || !body.newPassword) {
+    throw new BadRequestError("Current password and new password are required");
+  }
+  
+  const passwordCheck = validatePassword(body.newPassword, "New password");
+  if (!passwordCheck.isValid) {
+    throw new ValidationError({ newPassword: passwordCheck.errors }, "New password does not meet the requirements");
+  }
+  
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const user = helper.selectOne("admin_users", "id = ?", [ctx.state.user.id]);
+  
+  // Verify current password
+  const currentValid = user && await verifyPassword(body.currentPassword, user.password_hash);
+  if (!currentValid) {
+    throw new BadRequestError("Current password is incorrect");
+  }
+  
+  // Update password
+  const newHash = await hashPassword(body.newPassword);
+  const success = helper.update("admin_users", { password_hash: newHash, must_change_password: 0 }, "id = ?", [user.id]);
+  
+  if (success) {
+    audit(ctx, {
+      action: "update",
+      resource_type: "users",
+      resource_id: user.id,
+      before: { password_hash: user.password_hash },
+      after: { password_hash: newHash }
+    });
+    
+    // Sign out every other device that knew the old password
+    revokeUserSessions(db, user.id, ctx.state.session?.id);
+    
+    recordSecurityEvent(db, {
+      event_type: "password_change",
+      severity: "medium",
+      description: `User "${user.username}" changed their password`,
+      ip_address: ctx.request.ip,
+      user_agent: ctx.request.headers.get("User-Agent") || "",
+      user_id: user.id
+    });
     
-    // Create new user
-    const userData = {
-      username: body.username,
-      password_hash: btoa(body.password),
-      email: body.email,
-      role: body.role || "admin"
-    };
-    
-    const userId = helper.insert("admin_users", userData);
-    
-    ctx.response.status = 201;
     ctx.response.body = {
       success: true,
-      message: "User created successfully",
-      data: {
-        id: userId,
-        username: userData.username,
-        email: userData.email,
-        role: userData.role
-      }
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "User creation failed",
-      details: error.message
+      message: "Password changed successfully"
     };
+  } else {
+    throw new AppError("Failed to change password");
+  }
+});
+
+// Session management
+
+// List my active sessions
+authRoutes.get("/api/auth/sessions", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const activeSessions = listActiveSessions(db, ctx.state.user.id);
+  
+  const data: SessionInfo = {
+    current: ctx.state.session,
+    active_sessions: activeSessions,
+    total_sessions: activeSessions.length
+  };
+  
+  ctx.response.body = {
+    success: true,
+    data
+  };
+});
+
+// Revoke all of my sessions (the current one is kept unless include_current=true)
+authRoutes.delete("/api/auth/sessions", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const url = new URL(ctx.request.url);
+  const includeCurrent = url.searchParams.get("include_current") === "true";
+  
+  const keepSessionId = includeCurrent ? undefined : ctx.state.session?.id;
+  const revoked = revokeUserSessions(db, ctx.state.user.id, keepSessionId);
+  
+  ctx.response.body = {
+    success: true,
+    message: `Revoked ${revoked} session(s)`,
+    revoked
+  };
+});
+
+// Revoke a single session (own sessions, or any session for user managers)
+authRoutes.delete("/api/auth/sessions/:id", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const session = getSession(db, ctx.params.id);
+  
+  const canManageUsers = hasPermission(ctx.state.user.role, "users", "update");
+  if (!session || (session.user_id !== ctx.state.user.id && !canManageUsers)) {
+    throw new NotFoundError("Session not found");
+  }
+  
+  revokeSession(db, session.id);
+  
+  ctx.response.body = {
+    success: true,
+    message: "Session revoked successfully"
+  };
+});
+
+// List another user's active sessions (admin only)
+authRoutes.get("/api/admin/users/:id/sessions", authMiddleware, requirePermission("users", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const userId = parseInt(ctx.params.id);
+  
+  if (isNaN(userId)) {
+    throw new BadRequestError("Invalid user ID");
+  }
+  
+  const activeSessions = listActiveSessions(db, userId);
+  
+  ctx.response.body = {
+    success: true,
+    data: activeSessions,
+    count: activeSessions.length
+  };
+});
+
+// Revoke all of another user's sessions (admin only)
+authRoutes.delete("/api/admin/users/:id/sessions", authMiddleware, requirePermission("users", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const userId = parseInt(ctx.params.id);
+  
+  if (isNaN(userId)) {
+    throw new BadRequestError("Invalid user ID");
+  }
+  
+  const revoked = revokeUserSessions(db, userId);
+  
+  ctx.response.body = {
+    success: true,
+    message: `Revoked ${revoked} session(s)`,
+    revoked
+  };
+});
+
+// List my API tokens (the token values themselves are never shown again)
+authRoutes.get("/api/auth/tokens", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const tokens = listApiTokens(db, ctx.state.user.id);
+  
+  ctx.response.body = {
+    success: true,
+    data: tokens,
+    count: tokens.length
+  };
+});
+
+// Mint a scoped API token; the plain-text token is only returned in this response
+authRoutes.post("/api/auth/tokens", authMiddleware, requireSession, requirePermission("api_tokens", "create"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 100) {
+    throw new BadRequestError("Token name is required (max 100 characters)");
+  }
+  
+  const expiresInDays = body.expires_in_days ?? AUTH_CONFIG.API_TOKEN_DEFAULT_EXPIRY_DAYS;
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > AUTH_CONFIG.API_TOKEN_MAX_EXPIRY_DAYS) {
+    throw new BadRequestError(`expires_in_days must be a whole number between 1 and ${AUTH_CONFIG.API_TOKEN_MAX_EXPIRY_DAYS}`);
+  }
+  
+  const scopeErrors = validateScopes(body.scopes, ctx.state.user.role);
+  if (scopeErrors.length > 0) {
+    throw new BadRequestError("Invalid token scopes", { details: scopeErrors });
+  }
+  
+  const issued = await createApiToken(db, ctx.state.user.id, {
+    name,
+    scopes: body.scopes,
+    expiresInDays
+  });
+  audit(ctx, { action: "create", resource_type: "api_tokens", resource_id: issued.apiToken.id, after: issued.apiToken });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    data: {
+      ...issued.apiToken,
+      token: issued.token
+    },
+    message: "API token created. Copy it now - it will not be shown again."
+  };
+});
+
+// Revoke an API token (own tokens, or any token for token managers)
+authRoutes.delete("/api/auth/tokens/:id", authMiddleware, requireSession, async (ctx) => {
+  const db = ctx.state.db as Database;
+  const apiToken = getApiToken(db, parseInt(ctx.params.id));
+  
+  const canManageTokens = hasPermission(ctx.state.user.role, "api_tokens", "delete");
+  if (!apiToken || (apiToken.user_id !== ctx.state.user.id && !canManageTokens)) {
+    throw new NotFoundError("API token not found");
+  }
+  
+  revokeApiToken(db, apiToken.id);
+  audit(ctx, {
+    action: "update",
+    resource_type: "api_tokens",
+    resource_id: apiToken.id,
+    before: apiToken,
+    after: getApiToken(db, apiToken.id)
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "API token revoked successfully"
+  };
+});
+
+// List every user's API tokens (admin only)
+authRoutes.get("/api/admin/api-tokens", authMiddleware, requirePermission("api_tokens", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const tokens = listApiTokens(db);
+  
+  ctx.response.body = {
+    success: true,
+    data: tokens,
+    count: tokens.length
+  };
+});
+
+// Browse the security event log (admin only)
+authRoutes.get("/api/admin/security-events", authMiddleware, requirePermission("security", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const url = new URL(ctx.request.url);
+  const params = url.searchParams;
+  
+  const { events, total } = listSecurityEvents(db, {
+    event_type: (params.get("event_type") || undefined) as SecurityEventType | undefined,
+    severity: (params.get("severity") || undefined) as SecurityEvent["severity"] | undefined,
+    user_id: parseInt(params.get("user_id") || "") || undefined,
+    ip_address: params.get("ip_address") || undefined,
+    since: params.get("since") || undefined,
+    until: params.get("until") || undefined,
+    limit: parseInt(params.get("limit") || "") || undefined,
+    offset: parseInt(params.get("offset") || "") || undefined
+  });
+  
+  ctx.response.body = {
+    success: true,
+    data: events,
+    count: events.length,
+    total
+  };
+});
+
+// Create new admin user (user managers only; kept for older clients, see POST /api/admin/users)
+authRoutes.post("/api/auth/create-user", authMiddleware, requirePermission("users", "create"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  // Least privilege unless a role is asked for explicitly
+  const userData = { ...body, role: body.role || "viewer" };
+  
+  const validation = validateUser(userData, { isNew: true });
+  if (!validation.isValid) {
+    throw new ValidationError(validation.fields!, "Invalid user data");
+  }
+  
+  // Check if username or email already exists
+  if (findUserConflict(db, userData.username, userData.email)) {
+    throw new BadRequestError("Username or email already exists", { code: ERROR_CODES.ALREADY_EXISTS });
   }
+  
+  const user = await createUser(db, {
+    username: userData.username,
+    email: userData.email,
+    password: userData.password,
+    role: userData.role
+  });
+  audit(ctx, { action: "create", resource_type: "users", resource_id: user.id, after: user });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: "User created successfully",
+    data: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role
+    }
+  };
 });
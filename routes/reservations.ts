@@ -0,0 +1,157 @@
+// routes/reservations.ts - Reservation holds on watches
+import { Router } from "@oak";
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { authMiddleware, requirePermission } from "../middleware/auth.ts";
+import { audit } from "../services/audit.ts";
+import {
+  completeReservation,
+  createReservation,
+  extendReservation,
+  getReservation,
+  listReservations,
+  releaseReservation
+} from "../services/reservations.ts";
+import { RESERVATION_STATUSES, ReservationStatus } from "../types/watch.ts";
+import { BadRequestError, ValidationError } from "../utils/errors.ts";
+import {
+  validateAndSanitize,
+  validateReservation,
+  validateReservationExtension,
+  validateReservationRelease
+} from "../utils/validation.ts";
+
+export const reservationRoutes = new Router();
+
+const MULTILINE_RESERVATION_FIELDS = ["notes", "reason"];
+
+function parseReservationId(param: string | undefined): number {
+  const id = parseInt(param ?? "");
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid reservation ID");
+  }
+  return id;
+}
+
+// List reservations (filters: status, watch_id)
+reservationRoutes.get("/api/admin/reservations", authMiddleware, requirePermission("reservations", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const params = ctx.request.url.searchParams;
+  
+  const status = params.get("status") || undefined;
+  if (status && !(status in RESERVATION_STATUSES)) {
+    throw new BadRequestError(`status must be one of: ${Object.keys(RESERVATION_STATUSES).join(", ")}`);
+  }
+  
+  const watchId = parseInt(params.get("watch_id") || "");
+  const reservations = listReservations(db, {
+    status: status as ReservationStatus | undefined,
+    watch_id: isNaN(watchId) ? undefined : watchId
+  });
+  
+  ctx.response.body = {
+    success: true,
+    data: reservations,
+    count: reservations.length
+  };
+});
+
+// Get a reservation
+reservationRoutes.get("/api/admin/reservations/:id", authMiddleware, requirePermission("reservations", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  ctx.response.body = {
+    success: true,
+    data: getReservation(db, parseReservationId(ctx.params.id))
+  };
+});
+
+// Reserve a watch (watch_id plus inquiry_id or customer details; deposit_amount, hold_days, notes)
+reservationRoutes.post("/api/admin/reservations", authMiddleware, requirePermission("reservations", "create"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  const { isValid, fields, sanitizedData } = validateAndSanitize(body ?? {}, validateReservation, MULTILINE_RESERVATION_FIELDS);
+  if (!isValid) {
+    throw new ValidationError(fields);
+  }
+  
+  const reservation = createReservation(db, sanitizedData, ctx.state.user.id);
+  audit(ctx, { action: "create", resource_type: "reservations", resource_id: reservation.id, after: reservation });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: "Watch reserved",
+    data: reservation
+  };
+});
+
+// Extend an active hold by `days` (default BUSINESS_CONFIG.RESERVATION_HOLD_DAYS)
+reservationRoutes.post("/api/admin/reservations/:id/extend", authMiddleware, requirePermission("reservations", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseReservationId(ctx.params.id);
+  
+  const body = ctx.request.hasBody ? await ctx.request.body({ type: "json" }).value : {};
+  const validation = validateReservationExtension(body ?? {});
+  if (!validation.isValid) {
+    throw new ValidationError(validation.fields!);
+  }
+  
+  const before = getReservation(db, id);
+  const reservation = extendReservation(db, id, body?.days);
+  audit(ctx, { action: "update", resource_type: "reservations", resource_id: id, before, after: reservation });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Reservation extended",
+    data: reservation
+  };
+});
+
+// Release an active hold early; the watch becomes available again
+reservationRoutes.post("/api/admin/reservations/:id/release", authMiddleware, requirePermission("reservations", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseReservationId(ctx.params.id);
+  
+  const body = ctx.request.hasBody ? await ctx.request.body({ type: "json" }).value : {};
+  const { isValid, fields, sanitizedData } = validateAndSanitize(body ?? {}, validateReservationRelease, MULTILINE_RESERVATION_FIELDS);
+  if (!isValid) {
+    throw new ValidationError(fields);
+  }
+  
+  const before = getReservation(db, id);
+  const reservation = releaseReservation(db, id, sanitizedData.reason);
+  audit(ctx, { action: "update", resource_type: "reservations", resource_id: id, before, after: reservation });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Reservation released",
+    data: reservation
+  };
+});
+
+// Close an active hold as a sale; the watch is marked sold
+reservationRoutes.post("/api/admin/reservations/:id/complete", authMiddleware, requirePermission("reservations", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const id = parseReservationId(ctx.params.id);
+  
+  const before = getReservation(db, id);
+  const watchBefore = helper.selectOne("watches", "id = ?", [before.watch_id]);
+  const reservation = completeReservation(db, id);
+  audit(ctx, { action: "update", resource_type: "reservations", resource_id: id, before, after: reservation });
+  audit(ctx, {
+    action: "update",
+    resource_type: "watches",
+    resource_id: reservation.watch_id,
+    before: watchBefore,
+    after: helper.selectOne("watches", "id = ?", [reservation.watch_id])
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Reservation completed; the watch is marked as sold",
+    data: reservation
+  };
+});
@@ -0,0 +1,263 @@
+// routes/users.ts - Admin user management routes
+import { Router } from "@oak";
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { authMiddleware, requirePermission } from "../middleware/auth.ts";
+import { audit } from "../services/audit.ts";
+import { recordSecurityEvent } from "../services/security.ts";
+import { disableTwoFactor } from "../services/two_factor.ts";
+import {
+  createUser,
+  deleteUser,
+  EDITABLE_USER_FIELDS,
+  findUserConflict,
+  forcePasswordReset,
+  getUserRow,
+  isLastActiveAdmin,
+  isValidTimezone,
+  listUsers,
+  revokeUserAccess,
+  toPublicUser
+} from "../services/users.ts";
+import { UserRole, UserSearchFilters } from "../types/user.ts";
+import { API_CONFIG } from "../utils/constants.ts";
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from "../utils/errors.ts";
+import { validateUser } from "../utils/validation.ts";
+
+export const userRoutes = new Router();
+
+// List users (filters: role, is_active, search, created/last_login ranges)
+userRoutes.get("/api/admin/users", authMiddleware, requirePermission("users", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const url = new URL(ctx.request.url);
+  const params = url.searchParams;
+  
+  const isActive = params.get("is_active");
+  const filters: UserSearchFilters = {
+    role: (params.get("role") || undefined) as UserRole | undefined,
+    is_active: isActive === null ? undefined : isActive === "true",
+    search: params.get("search") || undefined,
+    created_after: params.get("created_after") || undefined,
+    created_before: params.get("created_before") || undefined,
+    last_login_after: params.get("last_login_after") || undefined,
+    last_login_before: params.get("last_login_before") || undefined
+  };
+  
+  const limit = Math.min(parseInt(params.get("limit") || "") || API_CONFIG.DEFAULT_PAGE_SIZE, API_CONFIG.MAX_PAGE_SIZE);
+  const offset = Math.max(parseInt(params.get("offset") || "") || 0, 0);
+  
+  const { users, total } = listUsers(db, filters, limit, offset);
+  
+  ctx.response.body = {
+    success: true,
+    data: users,
+    count: users.length,
+    pagination: {
+      total,
+      limit,
+      offset,
+      hasMore: offset + users.length < total
+    }
+  };
+});
+
+// Get a single user
+userRoutes.get("/api/admin/users/:id", authMiddleware, requirePermission("users", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const user = getUserRow(db, parseInt(ctx.params.id));
+  
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+  
+  ctx.response.body = {
+    success: true,
+    data: toPublicUser(user)
+  };
+});
+
+// Create a user (role is required; there is no default)
+userRoutes.post("/api/admin/users", authMiddleware, requirePermission("users", "create"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const fields = { ...validateUser(body, { isNew: true }).fields };
+  if (body.timezone && !isValidTimezone(body.timezone)) {
+    fields.timezone = ["Timezone must be a valid IANA time zone"];
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError(fields, "Invalid user data");
+  }
+  
+  if (findUserConflict(db, body.username, body.email)) {
+    throw new ConflictError("Username or email already exists");
+  }
+  
+  const user = await createUser(db, {
+    username: body.username,
+    email: body.email,
+    password: body.password,
+    role: body.role,
+    first_name: body.first_name,
+    last_name: body.last_name,
+    phone: body.phone,
+    timezone: body.timezone
+  });
+  audit(ctx, { action: "create", resource_type: "users", resource_id: user.id, after: user });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: "User created successfully",
+    data: toPublicUser(user)
+  };
+});
+
+// Update role, active flag or profile fields
+userRoutes.put("/api/admin/users/:id", authMiddleware, requirePermission("users", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const id = parseInt(ctx.params.id);
+  
+  const existingUser = getUserRow(db, id);
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const updateData: Record<string, any> = {};
+  for (const field of EDITABLE_USER_FIELDS) {
+    if (body[field] !== undefined) updateData[field] = body[field];
+  }
+  
+  if (Object.keys(updateData).length === 0) {
+    throw new BadRequestError(`Nothing to update. Editable fields: ${EDITABLE_USER_FIELDS.join(", ")}`);
+  }
+  
+  // Validate the user as it will look after the update
+  const fields = { ...validateUser({ ...existingUser, ...updateData }).fields };
+  if (updateData.is_active !== undefined && typeof updateData.is_active !== "boolean") {
+    fields.is_active = ["is_active must be true or false"];
+  }
+  if (updateData.timezone && !isValidTimezone(updateData.timezone)) {
+    fields.timezone = ["Timezone must be a valid IANA time zone"];
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError(fields, "Invalid user data");
+  }
+  
+  const username = updateData.username ?? existingUser.username;
+  const email = updateData.email ?? existingUser.email;
+  if (findUserConflict(db, username, email, id)) {
+    throw new ConflictError("Username or email already exists");
+  }
+  
+  const demoting = updateData.role !== undefined && updateData.role !== "admin";
+  const deactivating = updateData.is_active === false;
+  if ((demoting || deactivating) && isLastActiveAdmin(db, id)) {
+    throw new ConflictError("Cannot demote or deactivate the last active admin");
+  }
+  
+  if (updateData.is_active !== undefined) {
+    updateData.is_active = updateData.is_active ? 1 : 0;
+  }
+  
+  helper.update("admin_users", updateData, "id = ?", [id]);
+  
+  // Deactivated accounts and role changes take effect immediately
+  if (deactivating || (updateData.role !== undefined && updateData.role !== existingUser.role)) {
+    revokeUserAccess(db, id);
+  }
+  
+  const updatedUser = getUserRow(db, id);
+  audit(ctx, { action: "update", resource_type: "users", resource_id: id, before: existingUser, after: updatedUser });
+  
+  ctx.response.body = {
+    success: true,
+    message: "User updated successfully",
+    data: toPublicUser(updatedUser)
+  };
+});
+
+// Require a new password at next login and sign the user out everywhere
+userRoutes.post("/api/admin/users/:id/force-password-reset", authMiddleware, requirePermission("users", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseInt(ctx.params.id);
+  
+  const existingUser = getUserRow(db, id);
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
+  
+  forcePasswordReset(db, id);
+  audit(ctx, {
+    action: "update",
+    resource_type: "users",
+    resource_id: id,
+    before: existingUser,
+    after: getUserRow(db, id)
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "User must set a new password at next login"
+  };
+});
+
+// Turn off a user's 2FA (lost authenticator); they will be asked to enroll again if their role requires it
+userRoutes.post("/api/admin/users/:id/2fa/reset", authMiddleware, requirePermission("users", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseInt(ctx.params.id);
+  
+  const existingUser = getUserRow(db, id);
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
+  
+  disableTwoFactor(db, id);
+  revokeUserAccess(db, id);
+  
+  audit(ctx, { action: "update", resource_type: "users", resource_id: id, before: existingUser, after: getUserRow(db, id) });
+  recordSecurityEvent(db, {
+    event_type: "two_factor_disabled",
+    severity: "high",
+    description: `Two-factor authentication for "${existingUser.username}" was reset by "${ctx.state.user.username}"`,
+    ip_address: ctx.request.ip,
+    user_agent: ctx.request.headers.get("User-Agent") || "",
+    user_id: id
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Two-factor authentication has been reset"
+  };
+});
+
+// Delete a user (never yourself, never the last active admin)
+userRoutes.delete("/api/admin/users/:id", authMiddleware, requirePermission("users", "delete"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const id = parseInt(ctx.params.id);
+  
+  const existingUser = getUserRow(db, id);
+  if (!existingUser) {
+    throw new NotFoundError("User not found");
+  }
+  
+  if (id === ctx.state.user.id) {
+    throw new ConflictError("You cannot delete your own account");
+  }
+  
+  if (isLastActiveAdmin(db, id)) {
+    throw new ConflictError("Cannot delete the last active admin");
+  }
+  
+  deleteUser(db, id);
+  audit(ctx, { action: "delete", resource_type: "users", resource_id: id, before: existingUser });
+  
+  ctx.response.body = {
+    success: true,
+    message: "User deleted successfully"
+  };
+});
@@ -0,0 +1,182 @@
+// routes/watch_images.ts - Admin management of watch photo galleries
+import { Router } from "@oak";
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { authMiddleware, requirePermission } from "../middleware/auth.ts";
+import { audit } from "../services/audit.ts";
+import { processWatchImage } from "../services/images.ts";
+import { readFileUpload } from "../services/uploads.ts";
+import {
+  attachWatchImage,
+  cleanupOrphanedImageFiles,
+  deleteWatchImage,
+  getWatchImage,
+  listWatchImages,
+  reorderWatchImages,
+  updateWatchImage,
+  WatchImageDetails
+} from "../services/watch_images.ts";
+import { BadRequestError, NotFoundError, ValidationError } from "../utils/errors.ts";
+import { validateAndSanitize, validateWatchImageUpdate } from "../utils/validation.ts";
+
+export const watchImageRoutes = new Router();
+
+// Resolves :id to an existing watch (any status, so drafts and sold watches can be edited too)
+function requireWatchId(db: Database, param: string | undefined): number {
+  const id = parseInt(param ?? "");
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid watch ID");
+  }
+
+  if (!new DatabaseHelper(db).selectOne("watches", "id = ?", [id])) {
+    throw new NotFoundError("Watch not found");
+  }
+  return id;
+}
+
+function requireImageId(param: string | undefined): number {
+  const id = parseInt(param ?? "");
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid image ID");
+  }
+  return id;
+}
+
+// Validates alt_text, caption and is_primary from a JSON body or multipart fields
+function readImageDetails(data: Record<string, any>): WatchImageDetails {
+  const { isValid, fields, sanitizedData } = validateAndSanitize(data, validateWatchImageUpdate, ["caption"]);
+  if (!isValid) {
+    throw new ValidationError(fields);
+  }
+
+  const details: WatchImageDetails = {};
+  if (sanitizedData.alt_text !== undefined) details.alt_text = sanitizedData.alt_text;
+  if (sanitizedData.caption !== undefined) details.caption = sanitizedData.caption;
+  if (sanitizedData.is_primary !== undefined) {
+    details.is_primary = sanitizedData.is_primary === true || sanitizedData.is_primary === "true";
+  }
+  return details;
+}
+
+// List a watch's gallery in display order
+watchImageRoutes.get("/api/admin/watches/:id/images", authMiddleware, requirePermission("watches", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const watchId = requireWatchId(db, ctx.params.id);
+  
+  const images = listWatchImages(db, watchId);
+  
+  ctx.response.body = {
+    success: true,
+    data: images,
+    count: images.length
+  };
+});
+
+// Upload an image and attach it to the end of the gallery. Multipart fields: image (the file),
+// alt_text, caption and is_primary.
+watchImageRoutes.post("/api/admin/watches/:id/images", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const watchId = requireWatchId(db, ctx.params.id);
+  
+  const { content, fields } = await readFileUpload(ctx, "image");
+  const details = readImageDetails(fields);
+  const processed = await processWatchImage(content);
+  const image = attachWatchImage(db, watchId, processed, details);
+  
+  audit(ctx, { action: "create", resource_type: "watch_images", resource_id: image.id, after: image });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: "Image added to watch",
+    data: image
+  };
+});
+
+// Reorder the gallery. Body: { image_ids: [...] } listing every image of the watch once.
+// Registered before /:imageId so "order" is never taken for an id.
+watchImageRoutes.put("/api/admin/watches/:id/images/order", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const watchId = requireWatchId(db, ctx.params.id);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  const imageIds = body?.image_ids;
+  
+  if (!Array.isArray(imageIds) || !imageIds.every((id) => Number.isInteger(id))) {
+    throw new ValidationError({ image_ids: ["Must be an array of image IDs"] });
+  }
+  
+  const before = listWatchImages(db, watchId).map((image) => image.id);
+  const images = reorderWatchImages(db, watchId, imageIds);
+  
+  audit(ctx, {
+    action: "update",
+    resource_type: "watch_images",
+    resource_id: watchId,
+    before: { image_ids: before },
+    after: { image_ids: imageIds }
+  });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Images reordered",
+    data: images
+  };
+});
+
+// Update alt text, caption or make the image primary
+watchImageRoutes.put("/api/admin/watches/:id/images/:imageId", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const watchId = requireWatchId(db, ctx.params.id);
+  const imageId = requireImageId(ctx.params.imageId);
+  
+  const before = getWatchImage(db, watchId, imageId);
+  const details = readImageDetails(await ctx.request.body({ type: "json" }).value ?? {});
+  
+  if (Object.keys(details).length === 0) {
+    throw new BadRequestError("Nothing to update. Editable fields: alt_text, caption, is_primary");
+  }
+  
+  const image = updateWatchImage(db, watchId, imageId, details);
+  audit(ctx, { action: "update", resource_type: "watch_images", resource_id: imageId, before, after: image });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Image updated",
+    data: image
+  };
+});
+
+// Remove an image and its files
+watchImageRoutes.delete("/api/admin/watches/:id/images/:imageId", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const watchId = requireWatchId(db, ctx.params.id);
+  const imageId = requireImageId(ctx.params.imageId);
+  
+  const image = await deleteWatchImage(db, watchId, imageId);
+  audit(ctx, { action: "delete", resource_type: "watch_images", resource_id: imageId, before: image });
+  
+  ctx.response.body = {
+    success: true,
+    message: "Image deleted",
+    data: listWatchImages(db, watchId)
+  };
+});
+
+// Delete uploaded files nothing references any more. Query: dry_run=true lists them without deleting.
+watchImageRoutes.post("/api/admin/watch-images/cleanup", authMiddleware, requirePermission("watches", "delete"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const dryRun = ctx.request.url.searchParams.get("dry_run") === "true";
+  
+  const result = await cleanupOrphanedImageFiles(db, { dryRun });
+  
+  if (!dryRun && result.removed.length > 0) {
+    audit(ctx, { action: "delete", resource_type: "watch_images", before: { files: result.removed } });
+  }
+  
+  ctx.response.body = {
+    success: true,
+    message: dryRun ? `${result.removed.length} orphaned files found` : `${result.removed.length} orphaned files removed`,
+    data: result
+  };
+});
@@ -1,372 +1,315 @@
 // routes/watches.ts - Watch management routes
-import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { Context, Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
 import { Database } from "@sqlite";
 import { DatabaseHelper } from "../database/init.ts";
-import { authMiddleware } from "../middleware/auth.ts";
+import { authMiddleware, requirePermission } from "../middleware/auth.ts";
+import { audit } from "../services/audit.ts";
+import { assertWatchStatusEditable } from "../services/reservations.ts";
+import { listWatchImages } from "../services/watch_images.ts";
+import { computeWatchFacets, parseWatchSearchFilters, searchWatches, WatchPage } from "../services/watches.ts";
+import { PaginatedResponse } from "../types/api.ts";
+import { WatchFacets, WatchSearchFilters, WatchSearchResult } from "../types/watch.ts";
+import { AppError, BadRequestError, NotFoundError, ValidationError } from "../utils/errors.ts";
+import {
+  normalizeWatchCondition,
+  validateAndSanitize,
+  validateWatch
+} from "../utils/validation.ts";
 
 export const watchRoutes = new Router();
 
-// Get all watches (public)
-watchRoutes.get("/api/watches", async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const watches = helper.selectAll("watches", "status = ?", ["available"]);
-    
-    ctx.response.body = {
-      success: true,
-      data: watches,
-      count: watches.length
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch watches",
-      details: error.message
-    };
-  }
-});
+// Fields an admin may set on a watch; anything else in a PUT body is ignored
+const EDITABLE_WATCH_FIELDS = [
+  "brand",
+  "model",
+  "reference",
+  "year",
+  "condition",
+  "price",
+  "market_price",
+  "description",
+  "image",
+  "image_url",
+  "accessories",
+  "watch_charts_uuid",
+  "status"
+];
 
-// Get single watch (public)
-watchRoutes.get("/api/watches/:id", async (ctx) => {
+const MULTILINE_WATCH_FIELDS = ["description"];
+
+// Accept label-style conditions ("Very Good") by converting them to the slug the validator expects
+function withNormalizedCondition(data: Record<string, any>): Record<string, any> {
+  return typeof data.condition === "string" ? { ...data, condition: normalizeWatchCondition(data.condition) } : data;
+}
+
+// Run a catalog query from the request's search params and respond with one page
+function respondWithCatalogPage(ctx: Context, params: URLSearchParams, overrides: WatchSearchFilters = {}) {
+  const db = ctx.state.db as Database;
+  const { filters, cursor, errors } = parseWatchSearchFilters(params);
+  
+  if (errors.length > 0) {
+    throw new BadRequestError("Invalid search parameters", { details: errors });
+  }
+  
+  let page: WatchPage;
   try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    const id = parseInt(ctx.params.id);
-    
-    if (isNaN(id)) {
-      ctx.response.status = 400;
-      ctx.response.body = { success: false, error: "Invalid watch ID" };
-      return;
-    }
-    
-    const watch = helper.selectOne("watches", "id = ? AND status = ?", [id, "available"]);
-    
-    if (!watch) {
-      ctx.response.status = 404;
-      ctx.response.body = { success: false, error: "Watch not found" };
-      return;
-    }
-    
-    ctx.response.body = {
-      success: true,
-      data: watch
-    };
+    page = searchWatches(db, { ...filters, ...overrides }, cursor);
   } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch watch",
-      details: error.message
-    };
+    if (!(error instanceof RangeError)) throw error;
+    throw new BadRequestError(error.message);
+  }
+  
+  const applied = { ...filters, ...overrides };
+  const body: PaginatedResponse<WatchSearchResult> & { filters: WatchSearchFilters; facets?: WatchFacets } = {
+    success: true,
+    data: page.watches,
+    count: page.watches.length,
+    pagination: page.pagination,
+    filters: applied
+  };
+  
+  // Opt-in, since it costs a few extra aggregate queries
+  if (params.get("facets") === "true") {
+    body.facets = computeWatchFacets(db, applied);
   }
+  
+  ctx.response.body = body;
+}
+
+// Get all watches (public; paginated, sortable and filterable like /search)
+watchRoutes.get("/api/watches", async (ctx) => {
+  respondWithCatalogPage(ctx, ctx.request.url.searchParams);
 });
 
 // Get watches by brand (public)
 watchRoutes.get("/api/watches/brand/:brand", async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    const brand = ctx.params.brand;
-    
-    const watches = helper.selectAll("watches", "LOWER(brand) = LOWER(?) AND status = ?", [brand, "available"]);
-    
-    ctx.response.body = {
-      success: true,
-      data: watches,
-      count: watches.length
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch watches by brand",
-      details: error.message
-    };
-  }
+  respondWithCatalogPage(ctx, ctx.request.url.searchParams, { brand: ctx.params.brand });
 });
 
 // Search watches (public)
+// q is full-text (brand, model, reference, description) with prefix matching, ranked by relevance
+// unless sortBy is given; results carry <mark>-highlighted fields.
+// Filters: q, brand, model, reference, condition, minPrice/maxPrice, minYear/maxYear
+// Paging: sortBy, sortOrder, limit (max API_CONFIG.MAX_PAGE_SIZE) and either offset or cursor
+// facets=true adds brand/condition/price/decade counts for filter chips
 watchRoutes.get("/api/watches/search", async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const url = new URL(ctx.request.url);
-    const query = url.searchParams.get("q");
-    const brand = url.searchParams.get("brand");
-    const minPrice = url.searchParams.get("minPrice");
-    const maxPrice = url.searchParams.get("maxPrice");
-    const condition = url.searchParams.get("condition");
-    
-    let whereClause = "status = 'available'";
-    const params: any[] = [];
-    
-    if (query) {
-      whereClause += " AND (LOWER(brand) LIKE ? OR LOWER(model) LIKE ? OR LOWER(reference) LIKE ?)";
-      const searchTerm = `%${query.toLowerCase()}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
-    }
-    
-    if (brand) {
-      whereClause += " AND LOWER(brand) = LOWER(?)";
-      params.push(brand);
-    }
-    
-    if (minPrice) {
-      whereClause += " AND price >= ?";
-      params.push(parseInt(minPrice));
-    }
-    
-    if (maxPrice) {
-      whereClause += " AND price <= ?";
-      params.push(parseInt(maxPrice));
-    }
-    
-    if (condition) {
-      whereClause += " AND LOWER(condition) = LOWER(?)";
-      params.push(condition);
-    }
-    
-    const helper = new DatabaseHelper(db);
-    const watches = helper.selectAll("watches", whereClause, params);
-    
-    ctx.response.body = {
-      success: true,
-      data: watches,
-      count: watches.length,
-      filters: { query, brand, minPrice, maxPrice, condition }
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Search failed",
-      details: error.message
-    };
+  respondWithCatalogPage(ctx, ctx.request.url.searchParams);
+});
+
+// Get single watch (public), with its image gallery. Registered after the literal /api/watches/* paths so "search"
+// and "brand" are never taken for an id.
+watchRoutes.get("/api/watches/:id", async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const id = parseInt(ctx.params.id);
+  
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid watch ID");
   }
+  
+  const watch = helper.selectOne("watches", "id = ? AND status = ?", [id, "available"]);
+  
+  if (!watch) {
+    throw new NotFoundError("Watch not found");
+  }
+  
+  ctx.response.body = {
+    success: true,
+    data: { ...watch, images: listWatchImages(db, id) }
+  };
 });
 
 // Admin routes (require authentication)
 
 // Get all watches for admin (includes sold/removed)
-watchRoutes.get("/api/admin/watches", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const watches = helper.selectAll("watches", "", []);
-    const stats = helper.getStats();
-    
-    ctx.response.body = {
-      success: true,
-      data: watches,
-      stats: stats,
-      count: watches.length
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch admin watches",
-      details: error.message
-    };
-  }
+watchRoutes.get("/api/admin/watches", authMiddleware, requirePermission("watches", "list"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const watches = helper.selectAll("watches", "", []);
+  const stats = helper.getStats();
+  
+  ctx.response.body = {
+    success: true,
+    data: watches,
+    stats: stats,
+    count: watches.length
+  };
 });
 
 // Create new watch (admin only)
-watchRoutes.post("/api/admin/watches", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    // Validate required fields
-    const required = ["brand", "model", "reference", "condition", "price"];
-    for (const field of required) {
-      if (!body[field]) {
-        ctx.response.status = 400;
-        ctx.response.body = {
-          success: false,
-          error: `Missing required field: ${field}`
-        };
-        return;
-      }
-    }
-    
-    // Prepare watch data
-    const watchData = {
-      brand: body.brand,
-      model: body.model,
-      reference: body.reference,
-      year: body.year || null,
-      condition: body.condition,
-      price: parseInt(body.price),
-      market_price: body.market_price ? parseInt(body.market_price) : null,
-      description: body.description || "",
-      image: body.image || "⌚",
-      image_url: body.image_url || null,
-      accessories: body.accessories || "",
-      watch_charts_uuid: body.watch_charts_uuid || null,
-      status: body.status || "available"
-    };
-    
-    const watchId = helper.insert("watches", watchData);
-    
-    ctx.response.status = 201;
-    ctx.response.body = {
-      success: true,
-      message: "Watch created successfully",
-      data: { id: watchId, ...watchData }
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to create watch",
-      details: error.message
-    };
+watchRoutes.post("/api/admin/watches", authMiddleware, requirePermission("watches", "create"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  const { isValid, fields, sanitizedData } = validateAndSanitize(
+    withNormalizedCondition(body),
+    validateWatch,
+    MULTILINE_WATCH_FIELDS
+  );
+  if (!isValid) {
+    throw new ValidationError(fields);
   }
+  
+  if (sanitizedData.status) {
+    assertWatchStatusEditable(db, null, sanitizedData.status);
+  }
+  
+  // Prepare watch data
+  const watchData = {
+    brand: sanitizedData.brand,
+    model: sanitizedData.model,
+    reference: sanitizedData.reference,
+    year: sanitizedData.year || null,
+    condition: sanitizedData.condition,
+    price: sanitizedData.price,
+    market_price: sanitizedData.market_price || null,
+    description: sanitizedData.description || "",
+    image: sanitizedData.image || "⌚",
+    image_url: sanitizedData.image_url || null,
+    accessories: sanitizedData.accessories || "",
+    watch_charts_uuid: sanitizedData.watch_charts_uuid || null,
+    status: sanitizedData.status || "available"
+  };
+  
+  const watchId = helper.insert("watches", watchData);
+  audit(ctx, { action: "create", resource_type: "watches", resource_id: watchId, after: watchData });
+  
+  ctx.response.status = 201;
+  ctx.response.body = {
+    success: true,
+    message: "Watch created successfully",
+    data: { id: watchId, ...watchData }
+  };
 });
 
 // Update watch (admin only)
-watchRoutes.put("/api/admin/watches/:id", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    const id = parseInt(ctx.params.id);
-    
-    if (isNaN(id)) {
-      ctx.response.status = 400;
-      ctx.response.body = { success: false, error: "Invalid watch ID" };
-      return;
-    }
-    
-    // Check if watch exists
-    const existingWatch = helper.selectOne("watches", "id = ?", [id]);
-    if (!existingWatch) {
-      ctx.response.status = 404;
-      ctx.response.body = { success: false, error: "Watch not found" };
-      return;
-    }
-    
-    const body = await ctx.request.body({ type: "json" }).value;
-    
-    // Prepare update data (only include provided fields)
-    const updateData: Record<string, any> = {};
-    
-    if (body.brand) updateData.brand = body.brand;
-    if (body.model) updateData.model = body.model;
-    if (body.reference) updateData.reference = body.reference;
-    if (body.year !== undefined) updateData.year = body.year;
-    if (body.condition) updateData.condition = body.condition;
-    if (body.price !== undefined) updateData.price = parseInt(body.price);
-    if (body.market_price !== undefined) updateData.market_price = body.market_price ? parseInt(body.market_price) : null;
-    if (body.description !== undefined) updateData.description = body.description;
-    if (body.image) updateData.image = body.image;
-    if (body.image_url !== undefined) updateData.image_url = body.image_url;
-    if (body.accessories !== undefined) updateData.accessories = body.accessories;
-    if (body.watch_charts_uuid !== undefined) updateData.watch_charts_uuid = body.watch_charts_uuid;
-    if (body.status) updateData.status = body.status;
-    
-    const success = helper.update("watches", updateData, "id = ?", [id]);
+watchRoutes.put("/api/admin/watches/:id", authMiddleware, requirePermission("watches", "update"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const id = parseInt(ctx.params.id);
+  
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid watch ID");
+  }
+  
+  // Check if watch exists
+  const existingWatch = helper.selectOne("watches", "id = ?", [id]);
+  if (!existingWatch) {
+    throw new NotFoundError("Watch not found");
+  }
+  
+  const body = await ctx.request.body({ type: "json" }).value;
+  
+  // Prepare update data (only include provided fields)
+  const updateData: Record<string, any> = {};
+  for (const field of EDITABLE_WATCH_FIELDS) {
+    if (body[field] !== undefined) updateData[field] = body[field];
+  }
+  
+  if (Object.keys(updateData).length === 0) {
+    throw new BadRequestError(`Nothing to update. Editable fields: ${EDITABLE_WATCH_FIELDS.join(", ")}`);
+  }
+  
+  // Validate the watch as it will look after the update
+  const { isValid, fields, sanitizedData } = validateAndSanitize(
+    withNormalizedCondition({ ...existingWatch, ...updateData }),
+    validateWatch,
+    MULTILINE_WATCH_FIELDS
+  );
+  if (!isValid) {
+    throw new ValidationError(fields);
+  }
+  
+  for (const field of Object.keys(updateData)) {
+    updateData[field] = sanitizedData[field];
+  }
+  
+  if (updateData.status !== undefined) {
+    assertWatchStatusEditable(db, existingWatch, updateData.status);
+  }
+  
+  const success = helper.update("watches", updateData, "id = ?", [id]);
+  
+  if (success) {
+    const updatedWatch = helper.selectOne("watches", "id = ?", [id]);
+    audit(ctx, { action: "update", resource_type: "watches", resource_id: id, before: existingWatch, after: updatedWatch });
     
-    if (success) {
-      const updatedWatch = helper.selectOne("watches", "id = ?", [id]);
-      ctx.response.body = {
-        success: true,
-        message: "Watch updated successfully",
-        data: updatedWatch
-      };
-    } else {
-      ctx.response.status = 500;
-      ctx.response.body = {
-        success: false,
-        error: "Failed to update watch"
-      };
-    }
-  } catch (error) {
-    ctx.response.status = 500;
     ctx.response.body = {
-      success: false,
-      error: "Failed to update watch",
-      details: error.message
+      success: true,
+      message: "Watch updated successfully",
+      data: updatedWatch
     };
+  } else {
+    throw new AppError("Failed to update watch");
   }
 });
 
 // Delete watch (admin only)
-watchRoutes.delete("/api/admin/watches/:id", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    const id = parseInt(ctx.params.id);
-    
-    if (isNaN(id)) {
-      ctx.response.status = 400;
-      ctx.response.body = { success: false, error: "Invalid watch ID" };
-      return;
-    }
-    
-    // Check if watch exists
-    const existingWatch = helper.selectOne("watches", "id = ?", [id]);
-    if (!existingWatch) {
-      ctx.response.status = 404;
-      ctx.response.body = { success: false, error: "Watch not found" };
-      return;
-    }
-    
-    // Soft delete by updating status (preserve data for history)
-    const success = helper.update("watches", { status: "deleted" }, "id = ?", [id]);
+watchRoutes.delete("/api/admin/watches/:id", authMiddleware, requirePermission("watches", "delete"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  const id = parseInt(ctx.params.id);
+  
+  if (isNaN(id)) {
+    throw new BadRequestError("Invalid watch ID");
+  }
+  
+  // Check if watch exists
+  const existingWatch = helper.selectOne("watches", "id = ?", [id]);
+  if (!existingWatch) {
+    throw new NotFoundError("Watch not found");
+  }
+  
+  assertWatchStatusEditable(db, existingWatch, "deleted");
+  
+  // Soft delete by updating status (preserve data for history)
+  const success = helper.update("watches", { status: "deleted" }, "id = ?", [id]);
+  
+  if (success) {
+    audit(ctx, {
+      action: "delete",
+      resource_type: "watches",
+      resource_id: id,
+      before: existingWatch,
+      after: helper.selectOne("watches", "id = ?", [id])
+    });
     
-    if (success) {
-      ctx.response.body = {
-        success: true,
-        message: "Watch deleted successfully"
-      };
-    } else {
-      ctx.response.status = 500;
-      ctx.response.body = {
-        success: false,
-        error: "Failed to delete watch"
-      };
-    }
-  } catch (error) {
-    ctx.response.status = 500;
     ctx.response.body = {
-      success: false,
-      error: "Failed to delete watch",
-      details: error.message
+      success: true,
+      message: "Watch deleted successfully"
     };
+  } else {
+    throw new AppError("Failed to delete watch");
   }
 });
 
 // Get inventory statistics (admin only)
-watchRoutes.get("/api/admin/stats", authMiddleware, async (ctx) => {
-  try {
-    const db = ctx.state.db as Database;
-    const helper = new DatabaseHelper(db);
-    
-    const stats = helper.getStats();
-    
-    // Additional detailed stats
-    const brandStats = db.prepare(`
+watchRoutes.get("/api/admin/stats", authMiddleware, requirePermission("analytics", "read"), async (ctx) => {
+  const db = ctx.state.db as Database;
+  const helper = new DatabaseHelper(db);
+  
+  const stats = helper.getStats();
+  
+  // Additional detailed stats
+  const brandStats = db.prepare(`
       SELECT brand, COUNT(*) as count, AVG(price) as avg_price, SUM(price) as total_value
       FROM watches 
       WHERE status = 'available'
       GROUP BY brand
       ORDER BY count DESC
     `).all();
-    
-    const conditionStats = db.prepare(`
+  
+  const conditionStats = db.prepare(`
       SELECT condition, COUNT(*) as count
       FROM watches 
       WHERE status = 'available'
       GROUP BY condition
     `).all();
-    
-    const recentActivity = db.prepare(`
+  
+  const recentActivity = db.prepare(`
       SELECT 'watch_added' as type, brand || ' ' || model as description, created_at
       FROM watches 
       WHERE created_at > datetime('now', '-30 days')
@@ -378,22 +321,14 @@ watchRoutes.get("/api/admin/stats", authMiddleware, async (ctx) => {
       ORDER BY created_at DESC
       LIMIT 10
     `).all();
-    
-    ctx.response.body = {
-      success: true,
-      data: {
-        overview: stats,
-        brandBreakdown: brandStats,
-        conditionBreakdown: conditionStats,
-        recentActivity: recentActivity
-      }
-    };
-  } catch (error) {
-    ctx.response.status = 500;
-    ctx.response.body = {
-      success: false,
-      error: "Failed to fetch statistics",
-      details: error.message
-    };
-  }
+  
+  ctx.response.body = {
+    success: true,
+    data: {
+      overview: stats,
+      brandBreakdown: brandStats,
+      conditionBreakdown: conditionStats,
+      recentActivity: recentActivity
+    }
+  };
 });
@@ -0,0 +1,215 @@
+// services/attachments.ts - Private documents for watches and sell submissions, served via signed links
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { Attachment, AttachmentCategory, AttachmentDownloadLink, AttachmentOwnerType } from "../types/api.ts";
+import { AUTH_CONFIG, ERROR_CODES, FILE_CONFIG, HTTP_STATUS } from "../utils/constants.ts";
+import { sha256Hex, signMessage } from "../utils/crypto.ts";
+import { sniffDocumentType } from "../utils/documents.ts";
+import { FileUploadError, NotFoundError } from "../utils/errors.ts";
+import { stripImageMetadata } from "../utils/images.ts";
+import { logger } from "../utils/logger.ts";
+import { timingSafeEqual } from "../utils/password.ts";
+
+export type DownloadLinkStatus = "valid" | "invalid" | "expired";
+
+export interface NewAttachment {
+  ownerType: AttachmentOwnerType;
+  ownerId: number;
+  category: AttachmentCategory;
+  description?: string | null;
+  content: Uint8Array;
+  originalName: string;
+  uploadedBy?: number;
+}
+
+export interface AttachmentStorageOptions {
+  root?: string; // Defaults to FILE_CONFIG.STORAGE_ROOT
+}
+
+const OWNER_TABLES: Record<AttachmentOwnerType, string> = {
+  watch: "watches",
+  sell_submission: "sell_submissions"
+};
+
+const CATEGORY_PATHS: Record<AttachmentCategory, string> = {
+  certificate: FILE_CONFIG.UPLOAD_PATHS.CERTIFICATES,
+  document: FILE_CONFIG.UPLOAD_PATHS.DOCUMENTS
+};
+
+const ALLOWED_TYPES: readonly string[] = [...FILE_CONFIG.ALLOWED_DOCUMENT_TYPES, ...FILE_CONFIG.ALLOWED_IMAGE_TYPES];
+
+// Kept apart from JWT signatures so a download signature can never be replayed as anything else
+const LINK_SIGNING_SECRET = `attachment-download:${AUTH_CONFIG.JWT_SECRET}`;
+
+const encoder = new TextEncoder();
+
+function toAttachment(row: any): Attachment {
+  return {
+    id: row.id,
+    owner_type: row.owner_type,
+    owner_id: row.owner_id,
+    category: row.category,
+    description: row.description ?? undefined,
+    original_name: row.original_name,
+    mime_type: row.mime_type,
+    size: row.size,
+    sha256: row.sha256,
+    uploaded_by: row.uploaded_by ?? undefined,
+    created_at: row.created_at
+  };
+}
+
+function directoryFor(category: AttachmentCategory, options: AttachmentStorageOptions): string {
+  return `${options.root ?? FILE_CONFIG.STORAGE_ROOT}${CATEGORY_PATHS[category]}`;
+}
+
+// Throws NotFoundError unless the watch or sell submission exists
+export function assertAttachmentOwner(db: Database, ownerType: AttachmentOwnerType, ownerId: number): void {
+  if (!new DatabaseHelper(db).selectOne(OWNER_TABLES[ownerType], "id = ?", [ownerId])) {
+    throw new NotFoundError(ownerType === "watch" ? "Watch not found" : "Sell submission not found");
+  }
+}
+
+export function listAttachments(db: Database, ownerType: AttachmentOwnerType, ownerId: number): Attachment[] {
+  return db.prepare("SELECT * FROM attachments WHERE owner_type = ? AND owner_id = ? ORDER BY created_at, id")
+    .all([ownerType, ownerId])
+    .map(toAttachment);
+}
+
+// The raw row, including stored_name, which never leaves this module
+function findAttachmentRow(db: Database, id: number): { category: AttachmentCategory; stored_name: string } {
+  const row = new DatabaseHelper(db).selectOne("attachments", "id = ?", [id]);
+  if (!row) {
+    throw new NotFoundError("Attachment not found");
+  }
+  return row;
+}
+
+export function getAttachment(db: Database, id: number): Attachment {
+  return toAttachment(findAttachmentRow(db, id));
+}
+
+// Validates and stores an upload. The file is saved under a random name in the private storage root;
+// the client's file name is kept for display and the download header only.
+export async function storeAttachment(
+  db: Database,
+  upload: NewAttachment,
+  options: AttachmentStorageOptions = {}
+): Promise<Attachment> {
+  if (upload.content.length === 0) {
+    throw new FileUploadError("File content is empty");
+  }
+
+  if (upload.content.length > FILE_CONFIG.MAX_FILE_SIZE) {
+    throw new FileUploadError(`Files can be at most ${FILE_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB`, {
+      status: HTTP_STATUS.PAYLOAD_TOO_LARGE,
+      code: ERROR_CODES.FILE_TOO_LARGE,
+      details: { max_bytes: FILE_CONFIG.MAX_FILE_SIZE, size: upload.content.length }
+    });
+  }
+
+  const type = sniffDocumentType(upload.content, upload.originalName);
+  if (!type || !ALLOWED_TYPES.includes(type.mimeType)) {
+    throw new FileUploadError("Only PDF, Word, plain text and image files can be attached", {
+      status: HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE,
+      code: ERROR_CODES.UNSUPPORTED_FILE_TYPE
+    });
+  }
+
+  // Photos of certificates can carry the location they were taken at
+  const content = type.image ? stripImageMetadata(upload.content, type.image) : upload.content;
+
+  const directory = directoryFor(upload.category, options);
+  const storedName = `${crypto.randomUUID()}.${type.extension}`;
+  await Deno.mkdir(directory, { recursive: true });
+  await Deno.writeFile(`${directory}/${storedName}`, content);
+
+  try {
+    const id = new DatabaseHelper(db).insert("attachments", {
+      owner_type: upload.ownerType,
+      owner_id: upload.ownerId,
+      category: upload.category,
+      description: upload.description || null,
+      original_name: upload.originalName.slice(0, 255) || `upload.${type.extension}`,
+      stored_name: storedName,
+      mime_type: type.mimeType,
+      size: content.length,
+      sha256: await sha256Hex(content),
+      uploaded_by: upload.uploadedBy ?? null
+    });
+    return getAttachment(db, id);
+  } catch (error) {
+    await Deno.remove(`${directory}/${storedName}`).catch(() => {});
+    throw error;
+  }
+}
+
+export async function readAttachmentFile(
+  db: Database,
+  id: number,
+  options: AttachmentStorageOptions = {}
+): Promise<{ attachment: Attachment; content: Uint8Array }> {
+  const row = findAttachmentRow(db, id);
+  try {
+    const content = await Deno.readFile(`${directoryFor(row.category, options)}/${row.stored_name}`);
+    return { attachment: toAttachment(row), content };
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    logger.error("Attachment file is missing", { attachment_id: id, stored_name: row.stored_name });
+    throw new NotFoundError("Attachment file not found");
+  }
+}
+
+export async function deleteAttachment(db: Database, id: number, options: AttachmentStorageOptions = {}): Promise<Attachment> {
+  const row = findAttachmentRow(db, id);
+  new DatabaseHelper(db).delete("attachments", "id = ?", [id]);
+
+  try {
+    await Deno.remove(`${directoryFor(row.category, options)}/${row.stored_name}`);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      logger.warn("Could not remove attachment file", { attachment_id: id, error: (error as Error).message });
+    }
+  }
+
+  return toAttachment(row);
+}
+
+function linkMessage(attachmentId: number, userId: number, expires: number): string {
+  return `${attachmentId}.${userId}.${expires}`;
+}
+
+// A download URL for one attachment, bound to the staff member it was issued to and valid for
+// FILE_CONFIG.DOWNLOAD_LINK_EXPIRES
+export async function createDownloadLink(attachment: Attachment, userId: number, now: number = Date.now()): Promise<AttachmentDownloadLink> {
+  const expires = Math.floor((now + FILE_CONFIG.DOWNLOAD_LINK_EXPIRES) / 1000);
+  const signature = await signMessage(LINK_SIGNING_SECRET, linkMessage(attachment.id, userId, expires));
+  const params = new URLSearchParams({ expires: String(expires), user: String(userId), signature });
+
+  return {
+    url: `/api/attachments/${attachment.id}/download?${params}`,
+    expires_at: new Date(expires * 1000).toISOString()
+  };
+}
+
+// Checks a download link's signature before its expiry, so a tampered link is "invalid" rather than "expired"
+export async function verifyDownloadLink(
+  attachmentId: number,
+  params: URLSearchParams,
+  now: number = Date.now()
+): Promise<{ status: DownloadLinkStatus; userId?: number }> {
+  const expires = Number(params.get("expires"));
+  const userId = Number(params.get("user"));
+  const signature = params.get("signature") ?? "";
+
+  if (!Number.isInteger(expires) || !Number.isInteger(userId) || !signature) {
+    return { status: "invalid" };
+  }
+
+  const expected = await signMessage(LINK_SIGNING_SECRET, linkMessage(attachmentId, userId, expires));
+  if (!timingSafeEqual(encoder.encode(signature), encoder.encode(expected))) {
+    return { status: "invalid" };
+  }
+
+  return { status: expires * 1000 > now ? "valid" : "expired", userId };
+}
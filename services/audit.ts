@@ -0,0 +1,167 @@
+// services/audit.ts - Audit trail of admin mutations with before/after diffs
+import { Context } from "@oak";
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { AuditLog } from "../types/user.ts";
+import { FEATURE_FLAGS } from "../utils/constants.ts";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export interface AuditEntry {
+  action: AuditAction;
+  resource_type: string;
+  resource_id?: number;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface AuditLogFilters {
+  user_id?: number;
+  resource_type?: string;
+  resource_id?: number;
+  action?: AuditAction;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Secrets never reach the audit table; we only record that they changed
+const REDACTED_FIELDS = ["password_hash", "key_value", "token_hash", "totp_secret", "totp_pending_secret"];
+const REDACTED = "[REDACTED]";
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ["updated_at"];
+
+function toAuditLog(row: any): AuditLog {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    username: row.username,
+    action: row.action,
+    resource_type: row.resource_type,
+    resource_id: row.resource_id ?? undefined,
+    old_values: row.old_values ? JSON.parse(row.old_values) : undefined,
+    new_values: row.new_values ? JSON.parse(row.new_values) : undefined,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    timestamp: row.timestamp
+  };
+}
+
+function redact(field: string, value: any): any {
+  return REDACTED_FIELDS.includes(field) && value !== null && value !== undefined ? REDACTED : value;
+}
+
+// Only the fields that actually changed, as parallel old/new maps
+export function diffValues(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { old_values: Record<string, any> | null; new_values: Record<string, any> | null } {
+  const oldValues: Record<string, any> = {};
+  const newValues: Record<string, any> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    if (before) oldValues[field] = redact(field, oldValue);
+    if (after) newValues[field] = redact(field, newValue);
+  }
+
+  return {
+    old_values: before ? oldValues : null,
+    new_values: after ? newValues : null
+  };
+}
+
+export function recordAuditLog(db: Database, actor: {
+  user_id: number;
+  username: string;
+  ip_address: string;
+  user_agent: string;
+}, entry: AuditEntry): number | null {
+  if (!FEATURE_FLAGS.AUDIT_LOGGING) return null;
+
+  const { old_values, new_values } = diffValues(entry.before, entry.after);
+
+  // An update that changed nothing is not worth a row
+  if (entry.action === "update" && Object.keys(new_values ?? {}).length === 0) {
+    return null;
+  }
+
+  const helper = new DatabaseHelper(db);
+  return helper.insert("audit_logs", {
+    user_id: actor.user_id,
+    username: actor.username,
+    action: entry.action,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id ?? null,
+    old_values: old_values ? JSON.stringify(old_values) : null,
+    new_values: new_values ? JSON.stringify(new_values) : null,
+    ip_address: actor.ip_address,
+    user_agent: actor.user_agent,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Record a mutation made by the authenticated user of this request
+export function audit(ctx: Context, entry: AuditEntry): number | null {
+  const user = ctx.state.user;
+
+  return recordAuditLog(ctx.state.db as Database, {
+    user_id: user.id,
+    username: user.username,
+    ip_address: ctx.request.ip,
+    user_agent: ctx.request.headers.get("User-Agent") || ""
+  }, entry);
+}
+
+// Newest first, with the total count of matching entries for paging
+export function listAuditLogs(db: Database, filters: AuditLogFilters = {}): { logs: AuditLog[]; total: number } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.user_id !== undefined) {
+    conditions.push("user_id = ?");
+    params.push(filters.user_id);
+  }
+  if (filters.resource_type) {
+    conditions.push("resource_type = ?");
+    params.push(filters.resource_type);
+  }
+  if (filters.resource_id !== undefined) {
+    conditions.push("resource_id = ?");
+    params.push(filters.resource_id);
+  }
+  if (filters.action) {
+    conditions.push("action = ?");
+    params.push(filters.action);
+  }
+  if (filters.since) {
+    conditions.push("timestamp >= ?");
+    params.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push("timestamp <= ?");
+    params.push(filters.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 500);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const total = db.prepare(`SELECT COUNT(*) as count FROM audit_logs ${where}`)
+    .get(params) as { count: number };
+  const rows = db.prepare(`
+    SELECT * FROM audit_logs ${where}
+    ORDER BY timestamp DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).all([...params, limit, offset]);
+
+  return { logs: rows.map(toAuditLog), total: total.count };
+}
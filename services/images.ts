@@ -0,0 +1,148 @@
+// services/images.ts - Uploaded watch photos: validation, metadata stripping and WebP size variants
+import { decode, Image } from "@imagescript";
+import { WatchImageVariant } from "../types/watch.ts";
+import { ERROR_CODES, FILE_CONFIG, HTTP_STATUS, STATIC_CONFIG } from "../utils/constants.ts";
+import { FileUploadError } from "../utils/errors.ts";
+import {
+  fitWithin,
+  IMAGE_EXTENSIONS,
+  IMAGE_MIME_TYPES,
+  ImageDimensions,
+  imageDimensions,
+  ImageType,
+  jpegOrientation,
+  sniffImageType,
+  stripImageMetadata
+} from "../utils/images.ts";
+
+export const WATCH_IMAGE_DIR = `${STATIC_CONFIG.ROOT}/images/watches`;
+export const WATCH_IMAGE_URL = `${STATIC_CONFIG.URL_PREFIX}images/watches`;
+
+// "thumbnail", "small", "medium" or "large"
+export type ImageVariant = WatchImageVariant;
+
+export interface ProcessedImage {
+  url: string; // The original, with metadata removed
+  filename: string;
+  type: ImageType;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+  srcset: string; // WebP variants, ready for <img srcset>
+}
+
+// Clockwise rotation that puts each EXIF orientation upright. The mirrored orientations (2, 4, 5, 7) are
+// rotated but not flipped; cameras practically never write them.
+const ORIENTATION_ROTATION: Record<number, number> = { 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 };
+
+export interface ImageStorageOptions {
+  directory?: string;
+  urlBase?: string;
+}
+
+// Checks size, real type and pixel count; throws FileUploadError describing the first problem
+export function inspectImageUpload(content: Uint8Array): { type: ImageType; dimensions: ImageDimensions } {
+  if (content.length === 0) {
+    throw new FileUploadError("File content is empty");
+  }
+
+  if (content.length > FILE_CONFIG.MAX_FILE_SIZE) {
+    throw new FileUploadError(`Images can be at most ${FILE_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB`, {
+      status: HTTP_STATUS.PAYLOAD_TOO_LARGE,
+      code: ERROR_CODES.FILE_TOO_LARGE,
+      details: { max_bytes: FILE_CONFIG.MAX_FILE_SIZE, size: content.length }
+    });
+  }
+
+  const type = sniffImageType(content);
+  if (!type || !(FILE_CONFIG.ALLOWED_IMAGE_TYPES as readonly string[]).includes(IMAGE_MIME_TYPES[type])) {
+    throw new FileUploadError("Only JPEG, PNG, GIF and WebP images are allowed", {
+      status: HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE,
+      code: ERROR_CODES.UNSUPPORTED_FILE_TYPE
+    });
+  }
+
+  const dimensions = imageDimensions(content, type);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new FileUploadError("The image is damaged or incomplete");
+  }
+
+  if (dimensions.width * dimensions.height > FILE_CONFIG.MAX_IMAGE_PIXELS) {
+    throw new FileUploadError(`Images can be at most ${FILE_CONFIG.MAX_IMAGE_PIXELS / 1_000_000} megapixels`, {
+      status: HTTP_STATUS.PAYLOAD_TOO_LARGE,
+      code: ERROR_CODES.FILE_TOO_LARGE,
+      details: dimensions
+    });
+  }
+
+  return { type, dimensions };
+}
+
+export function buildSrcset(variants: ImageVariant[]): string {
+  // Variants of a small original can share a width; the browser only needs one of each
+  const byWidth = new Map(variants.map((variant) => [variant.width, variant.url]));
+  return [...byWidth].sort(([a], [b]) => a - b).map(([width, url]) => `${url} ${width}w`).join(", ");
+}
+
+// Stores the stripped original plus one WebP per FILE_CONFIG.IMAGE_SIZES entry. Files already written
+// are removed again if a later step fails.
+export async function processWatchImage(content: Uint8Array, options: ImageStorageOptions = {}): Promise<ProcessedImage> {
+  const directory = options.directory ?? WATCH_IMAGE_DIR;
+  const urlBase = options.urlBase ?? WATCH_IMAGE_URL;
+  const { type, dimensions: stored } = inspectImageUpload(content);
+
+  let original = stripImageMetadata(content, type);
+  let image: Image;
+  try {
+    image = await decode(original, true) as Image; // First frame only for animated GIFs
+  } catch (error) {
+    throw new FileUploadError("The image could not be decoded", { cause: error });
+  }
+
+  // Stripping removed the orientation tag, so sideways phone photos are turned upright in the pixels instead
+  const rotation = type === "jpeg" ? ORIENTATION_ROTATION[jpegOrientation(content)] : undefined;
+  let dimensions = stored;
+  if (rotation) {
+    image.rotate(rotation);
+    original = await image.encodeJPEG(90);
+    dimensions = { width: image.width, height: image.height };
+  }
+
+  const baseName = `watch_${Date.now()}_${crypto.randomUUID().slice(0, 8)}`;
+  const filename = `${baseName}.${IMAGE_EXTENSIONS[type]}`;
+  const written: string[] = [];
+
+  try {
+    await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeFile(`${directory}/${filename}`, original);
+    written.push(`${directory}/${filename}`);
+
+    const variants: ImageVariant[] = [];
+    for (const [sizeName, box] of Object.entries(FILE_CONFIG.IMAGE_SIZES)) {
+      const name = sizeName.toLowerCase();
+      const fitted = fitWithin(dimensions, box);
+      const webp = await image.clone().resize(fitted.width, fitted.height).encodeWEBP(FILE_CONFIG.WEBP_QUALITY);
+      const variantFilename = `${baseName}_${name}.webp`;
+
+      await Deno.writeFile(`${directory}/${variantFilename}`, webp);
+      written.push(`${directory}/${variantFilename}`);
+      variants.push({ name, url: `${urlBase}/${variantFilename}`, filename: variantFilename, ...fitted, size: webp.length });
+    }
+
+    return {
+      url: `${urlBase}/${filename}`,
+      filename,
+      type,
+      mimeType: IMAGE_MIME_TYPES[type],
+      size: original.length,
+      ...dimensions,
+      variants,
+      srcset: buildSrcset(variants)
+    };
+  } catch (error) {
+    await Promise.all(written.map((path) => Deno.remove(path).catch(() => {})));
+    throw error;
+  }
+}
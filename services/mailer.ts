@@ -0,0 +1,77 @@
+// services/mailer.ts - Outgoing email with pluggable transports
+import { logger } from "../utils/logger.ts";
+
+// Configuration from environment variables
+const MAIL_TRANSPORT = Deno.env.get("MAIL_TRANSPORT") || "console"; // console or file
+const MAIL_FROM = Deno.env.get("MAIL_FROM") || "Prestige Timepieces <no-reply@prestigetimepieces.com>";
+const MAIL_OUTBOX_DIR = Deno.env.get("MAIL_OUTBOX_DIR") || "./tmp/mail";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  templateId?: string;
+}
+
+export interface MailResult {
+  messageId: string;
+  transport: string;
+  timestamp: string;
+}
+
+// A transport delivers a fully addressed message; swap it out with setMailTransport
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Development transport: writes the message to the log (addresses are redacted like any other log line)
+export const consoleTransport: MailTransport = {
+  name: "console",
+  send(message) {
+    logger.info("Email (console transport)", { to: message.to, subject: message.subject, text: message.text });
+    return Promise.resolve();
+  }
+};
+
+// Development transport: writes each message as a JSON file in MAIL_OUTBOX_DIR
+export function fileTransport(directory: string = MAIL_OUTBOX_DIR): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await Deno.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`;
+      await Deno.writeTextFile(`${directory}/${fileName}`, JSON.stringify(message, null, 2));
+    }
+  };
+}
+
+function defaultTransport(): MailTransport {
+  switch (MAIL_TRANSPORT.toLowerCase()) {
+    case "file":
+      return fileTransport();
+    default:
+      return consoleTransport;
+  }
+}
+
+let transport: MailTransport = defaultTransport();
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<MailResult> {
+  await transport.send({ ...message, from: MAIL_FROM });
+
+  return {
+    messageId: crypto.randomUUID(),
+    transport: transport.name,
+    timestamp: new Date().toISOString()
+  };
+}
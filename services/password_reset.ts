@@ -0,0 +1,90 @@
+// services/password_reset.ts - Forgotten password recovery via single-use emailed tokens
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { APP_CONFIG, AUTH_CONFIG, EMAIL_TEMPLATES } from "../utils/constants.ts";
+import { generateSecureToken, hashToken } from "../utils/crypto.ts";
+import { hashPassword } from "../utils/password.ts";
+import { sendMail } from "./mailer.ts";
+import { revokeUserSessions } from "./sessions.ts";
+
+const APP_BASE_URL = Deno.env.get("APP_BASE_URL") || "http://localhost:8000";
+
+export type ResetTokenStatus = "valid" | "invalid" | "expired" | "used";
+
+// Issue a fresh token (invalidating any outstanding ones) and email the reset link
+export async function requestPasswordReset(db: Database, user: any, ipAddress: string): Promise<void> {
+  const helper = new DatabaseHelper(db);
+  const token = generateSecureToken();
+  const now = Date.now();
+
+  db.prepare("UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL")
+    .run(new Date(now).toISOString(), user.id);
+
+  helper.insert("password_reset_tokens", {
+    user_id: user.id,
+    token_hash: await hashToken(token),
+    requested_ip: ipAddress,
+    expires_at: new Date(now + AUTH_CONFIG.PASSWORD_RESET_EXPIRES).toISOString(),
+    created_at: new Date(now).toISOString()
+  });
+
+  const link = `${APP_BASE_URL}/admin?reset_token=${encodeURIComponent(token)}`;
+  const minutes = Math.round(AUTH_CONFIG.PASSWORD_RESET_EXPIRES / 60000);
+
+  await sendMail({
+    to: user.email,
+    subject: EMAIL_TEMPLATES.PASSWORD_RESET.SUBJECT,
+    templateId: EMAIL_TEMPLATES.PASSWORD_RESET.TEMPLATE_ID,
+    text: `Hello ${user.username},
+
+We received a request to reset your ${APP_CONFIG.NAME} admin password.
+Use the link below within ${minutes} minutes to choose a new one:
+
+${link}
+
+If you didn't ask for this, you can ignore this email; your password won't change.`
+  });
+}
+
+function findResetToken(db: Database, tokenHash: string): any {
+  const helper = new DatabaseHelper(db);
+  return helper.selectOne("password_reset_tokens", "token_hash = ?", [tokenHash]);
+}
+
+function tokenStatus(row: any): ResetTokenStatus {
+  if (!row) return "invalid";
+  if (row.used_at) return "used";
+  if (new Date(row.expires_at).getTime() <= Date.now()) return "expired";
+  return "valid";
+}
+
+// Consume the token and set the new password; every existing session is signed out
+export async function resetPassword(
+  db: Database,
+  token: string,
+  newPassword: string
+): Promise<{ status: ResetTokenStatus; userId?: number }> {
+  const row = findResetToken(db, await hashToken(token));
+  const status = tokenStatus(row);
+  if (status !== "valid") {
+    return { status };
+  }
+
+  // Guard against the same token being redeemed twice concurrently
+  const consumed = db.prepare("UPDATE password_reset_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL")
+    .run(new Date().toISOString(), row.id);
+  if (consumed === 0) {
+    return { status: "used" };
+  }
+
+  const helper = new DatabaseHelper(db);
+  helper.update(
+    "admin_users",
+    { password_hash: await hashPassword(newPassword), must_change_password: 0 },
+    "id = ?",
+    [row.user_id]
+  );
+  revokeUserSessions(db, row.user_id);
+
+  return { status: "valid", userId: row.user_id };
+}
@@ -0,0 +1,117 @@
+// services/rate_limit.ts - Token buckets for request rate limiting, with pluggable storage
+import { Database } from "@sqlite";
+import { API_CONFIG } from "../utils/constants.ts";
+
+// `capacity` requests may be made in a burst; the bucket then refills evenly over `windowMs`
+export interface RateLimitRule {
+  capacity: number;
+  windowMs: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Epoch milliseconds
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // Until the next request is allowed; 0 when allowed
+}
+
+// A store keeps one bucket per key; rateLimitMiddleware takes one as an option
+export interface RateLimitStore {
+  name: string;
+  take(key: string, rule: RateLimitRule, now?: number): RateLimitDecision | Promise<RateLimitDecision>;
+}
+
+// Refills `state` up to `now`, then spends one token if there is one
+export function takeToken(
+  state: BucketState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const refillPerMs = rule.capacity / rule.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(rule.capacity, state.tokens + elapsed * refillPerMs) : rule.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((rule.capacity - tokens) / refillPerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000)
+    }
+  };
+}
+
+// A bucket left alone for a full window has refilled, so it can be forgotten
+function expiresAt(rule: RateLimitRule, now: number): number {
+  return now + rule.windowMs;
+}
+
+// Single-process store; buckets are lost on restart
+export function memoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState & { expiresAt: number }>();
+  let nextPruneAt = 0;
+
+  return {
+    name: "memory",
+    take(key, rule, now = Date.now()) {
+      if (now >= nextPruneAt) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (bucket.expiresAt <= now) buckets.delete(bucketKey);
+        }
+        nextPruneAt = now + 60 * 1000;
+      }
+
+      const result = takeToken(buckets.get(key) ?? null, rule, now);
+      buckets.set(key, { ...result.state, expiresAt: expiresAt(rule, now) });
+      return result.decision;
+    }
+  };
+}
+
+// Buckets in rate_limit_buckets, shared by every process using the same database
+export function sqliteRateLimitStore(db: Database): RateLimitStore {
+  let nextPruneAt = 0;
+
+  return {
+    name: "sqlite",
+    take(key, rule, now = Date.now()) {
+      if (now >= nextPruneAt) {
+        db.prepare("DELETE FROM rate_limit_buckets WHERE expires_at <= ?").run(now);
+        nextPruneAt = now + 60 * 1000;
+      }
+
+      const row = db.prepare("SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?").get(key) as
+        | { tokens: number; updated_at: number }
+        | undefined;
+      const result = takeToken(row ? { tokens: row.tokens, updatedAt: row.updated_at } : null, rule, now);
+
+      db.prepare(`
+        INSERT INTO rate_limit_buckets (key, tokens, updated_at, expires_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at, expires_at = excluded.expires_at
+      `).run(key, result.state.tokens, result.state.updatedAt, expiresAt(rule, now));
+
+      return result.decision;
+    }
+  };
+}
+
+// RATE_LIMIT_STORE picks the store; sqlite keeps limits consistent across several server processes
+export function defaultRateLimitStore(db: Database): RateLimitStore {
+  switch (API_CONFIG.RATE_LIMIT.STORE.toLowerCase()) {
+    case "sqlite":
+      return sqliteRateLimitStore(db);
+    default:
+      return memoryRateLimitStore();
+  }
+}
@@ -0,0 +1,265 @@
+// services/reservations.ts - Reservation holds on watches: creation, extension, release and expiry
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { Reservation, ReservationStatus } from "../types/watch.ts";
+import { BUSINESS_CONFIG } from "../utils/constants.ts";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface NewReservation {
+  watch_id: number;
+  inquiry_id?: number | null;
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string | null;
+  deposit_amount?: number | null;
+  hold_days?: number;
+  notes?: string | null;
+}
+
+export interface ReservationFilters {
+  status?: ReservationStatus;
+  watch_id?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toReservation(row: any): Reservation {
+  return {
+    id: row.id,
+    watch_id: row.watch_id,
+    inquiry_id: row.inquiry_id ?? undefined,
+    customer_name: row.customer_name,
+    customer_email: row.customer_email,
+    customer_phone: row.customer_phone ?? undefined,
+    deposit_amount: row.deposit_amount,
+    status: row.status,
+    expires_at: row.expires_at,
+    extension_count: row.extension_count,
+    notes: row.notes ?? undefined,
+    release_reason: row.release_reason ?? undefined,
+    released_at: row.released_at ?? undefined,
+    created_by: row.created_by ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? undefined
+  };
+}
+
+// A watch goes back on sale when its hold ends, unless it was sold or removed in the meantime
+function makeWatchAvailable(db: Database, watchId: number): void {
+  new DatabaseHelper(db).update("watches", { status: "available" }, "id = ? AND status = 'reserved'", [watchId]);
+}
+
+export function listReservations(db: Database, filters: ReservationFilters = {}): Reservation[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.status) {
+    conditions.push("status = ?");
+    params.push(filters.status);
+  }
+  if (filters.watch_id) {
+    conditions.push("watch_id = ?");
+    params.push(filters.watch_id);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return db.prepare(`SELECT * FROM reservations ${where} ORDER BY created_at DESC, id DESC`)
+    .all(params)
+    .map(toReservation);
+}
+
+export function getReservation(db: Database, id: number): Reservation {
+  const row = new DatabaseHelper(db).selectOne("reservations", "id = ?", [id]);
+  if (!row) {
+    throw new NotFoundError("Reservation not found");
+  }
+  return toReservation(row);
+}
+
+// The watch's current hold, if any. It can be past its expiry when the background job hasn't run yet.
+export function findActiveReservation(db: Database, watchId: number): Reservation | null {
+  const row = new DatabaseHelper(db).selectOne("reservations", "watch_id = ? AND status = 'active'", [watchId]);
+  return row ? toReservation(row) : null;
+}
+
+// Guards a status change made by editing the watch itself. "reserved" belongs to the reservation
+// service: a hand-set reservation would never expire, and un-reserving a held watch would put it back
+// on sale while the hold still blocks new reservations.
+export function assertWatchStatusEditable(db: Database, watch: { id: number; status: string } | null, status: string): void {
+  if (watch?.status === status) {
+    return;
+  }
+
+  if (status === "reserved") {
+    throw new ConflictError("Watches can only be reserved by creating a reservation");
+  }
+
+  if (watch?.status === "reserved") {
+    expireReservations(db, Date.now(), watch.id);
+    const active = findActiveReservation(db, watch.id);
+    if (active) {
+      throw new ConflictError("This watch has an active reservation; complete or release it first", {
+        details: { reservation_id: active.id, expires_at: active.expires_at }
+      });
+    }
+  }
+}
+
+// Unlinks reservations from an inquiry that is being deleted; they keep their own copy of the customer
+// details. Foreign keys aren't enforced, so nothing else would.
+export function detachInquiry(db: Database, inquiryId: number): void {
+  db.prepare("UPDATE reservations SET inquiry_id = NULL WHERE inquiry_id = ?").run(inquiryId);
+}
+
+// Marks active holds past their expiry as expired and puts their watches back on sale. Limited to one
+// watch when watchId is given, so a new hold never waits for the background job.
+export function expireReservations(db: Database, now: number = Date.now(), watchId?: number): Reservation[] {
+  const expiredAt = new Date(now).toISOString();
+  const rows = db.prepare(`
+    SELECT * FROM reservations
+    WHERE status = 'active' AND expires_at <= ? ${watchId === undefined ? "" : "AND watch_id = ?"}
+  `).all(watchId === undefined ? [expiredAt] : [expiredAt, watchId]);
+
+  const helper = new DatabaseHelper(db);
+  for (const row of rows) {
+    helper.update("reservations", { status: "expired", released_at: expiredAt }, "id = ?", [row.id]);
+    makeWatchAvailable(db, row.watch_id);
+    logger.info("Reservation expired", { reservation_id: row.id, watch_id: row.watch_id });
+  }
+
+  return rows.map((row) => getReservation(db, row.id));
+}
+
+// Places a hold on an available watch. Customer details default to those of the linked inquiry.
+export function createReservation(db: Database, input: NewReservation, createdBy?: number, now: number = Date.now()): Reservation {
+  const helper = new DatabaseHelper(db);
+  expireReservations(db, now, input.watch_id);
+
+  const watch = helper.selectOne("watches", "id = ? AND status != 'deleted'", [input.watch_id]);
+  if (!watch) {
+    throw new NotFoundError("Watch not found");
+  }
+
+  const active = findActiveReservation(db, input.watch_id);
+  if (active) {
+    throw new ConflictError(`This watch is already reserved until ${active.expires_at}`, {
+      details: { reservation_id: active.id, expires_at: active.expires_at }
+    });
+  }
+
+  if (watch.status !== "available") {
+    throw new ConflictError(`Only available watches can be reserved; this one is ${watch.status}`);
+  }
+
+  const inquiry = input.inquiry_id ? helper.selectOne("inquiries", "id = ?", [input.inquiry_id]) : null;
+  if (input.inquiry_id && !inquiry) {
+    throw new NotFoundError("Inquiry not found");
+  }
+  if (inquiry?.watch_id && inquiry.watch_id !== input.watch_id) {
+    throw new ValidationError({ inquiry_id: ["The inquiry is about a different watch"] });
+  }
+
+  const depositAmount = input.deposit_amount ?? 0;
+  if (depositAmount > watch.price) {
+    throw new ValidationError({ deposit_amount: ["Deposit Amount cannot exceed the watch price"] });
+  }
+
+  const holdDays = input.hold_days ?? BUSINESS_CONFIG.RESERVATION_HOLD_DAYS;
+  const id = helper.insert("reservations", {
+    watch_id: input.watch_id,
+    inquiry_id: inquiry?.id ?? null,
+    customer_name: input.customer_name || inquiry?.customer_name,
+    customer_email: input.customer_email || inquiry?.customer_email,
+    customer_phone: input.customer_phone || inquiry?.customer_phone || null,
+    deposit_amount: depositAmount,
+    status: "active",
+    expires_at: new Date(now + holdDays * DAY_MS).toISOString(),
+    notes: input.notes || null,
+    created_by: createdBy ?? null
+  });
+
+  helper.update("watches", { status: "reserved" }, "id = ?", [input.watch_id]);
+  return getReservation(db, id);
+}
+
+function requireActive(db: Database, id: number, now: number): Reservation {
+  const reservation = getReservation(db, id);
+  if (reservation.status === "active" && Date.parse(reservation.expires_at) <= now) {
+    // Ran out before the background job got to it
+    expireReservations(db, now, reservation.watch_id);
+    throw new ConflictError("This reservation has expired");
+  }
+  if (reservation.status !== "active") {
+    throw new ConflictError(`This reservation has already been ${reservation.status}`);
+  }
+  return reservation;
+}
+
+// Pushes the expiry back by `days`, at most BUSINESS_CONFIG.RESERVATION_MAX_EXTENSIONS times
+export function extendReservation(
+  db: Database,
+  id: number,
+  days: number = BUSINESS_CONFIG.RESERVATION_HOLD_DAYS,
+  now: number = Date.now()
+): Reservation {
+  const reservation = requireActive(db, id, now);
+
+  if (reservation.extension_count >= BUSINESS_CONFIG.RESERVATION_MAX_EXTENSIONS) {
+    throw new ConflictError(`A reservation can be extended at most ${BUSINESS_CONFIG.RESERVATION_MAX_EXTENSIONS} times`);
+  }
+
+  new DatabaseHelper(db).update("reservations", {
+    expires_at: new Date(Date.parse(reservation.expires_at) + days * DAY_MS).toISOString(),
+    extension_count: reservation.extension_count + 1
+  }, "id = ?", [id]);
+
+  return getReservation(db, id);
+}
+
+// Ends a hold early and puts the watch back on sale
+export function releaseReservation(db: Database, id: number, reason?: string | null, now: number = Date.now()): Reservation {
+  const reservation = requireActive(db, id, now);
+
+  new DatabaseHelper(db).update("reservations", {
+    status: "released",
+    release_reason: reason || null,
+    released_at: new Date(now).toISOString()
+  }, "id = ?", [id]);
+  makeWatchAvailable(db, reservation.watch_id);
+
+  return getReservation(db, id);
+}
+
+// Closes a hold because its customer bought the watch: the reservation is completed and the watch
+// sold together, so it is never back on sale in between
+export function completeReservation(db: Database, id: number, now: number = Date.now()): Reservation {
+  const reservation = requireActive(db, id, now);
+  const helper = new DatabaseHelper(db);
+
+  helper.transaction(() => {
+    helper.update("reservations", { status: "completed", released_at: new Date(now).toISOString() }, "id = ?", [id]);
+    helper.update("watches", { status: "sold" }, "id = ?", [reservation.watch_id]);
+  });
+
+  return getReservation(db, id);
+}
+
+// Runs expireReservations now and then every `intervalMs`; returns a function that stops the job
+export function startReservationExpiryJob(
+  db: Database,
+  intervalMs: number = BUSINESS_CONFIG.RESERVATION_EXPIRY_CHECK_INTERVAL
+): () => void {
+  const run = () => {
+    try {
+      expireReservations(db);
+    } catch (error) {
+      // Try again on the next tick rather than stopping the job
+      logger.error("Reservation expiry job failed", { error });
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+}
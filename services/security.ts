@@ -0,0 +1,173 @@
+// services/security.ts - Login attempt tracking, lockouts and the security event log
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { SecurityEvent, SecurityEventType } from "../types/user.ts";
+import { AUTH_CONFIG } from "../utils/constants.ts";
+
+export interface RecordSecurityEventOptions {
+  event_type: SecurityEventType;
+  severity: SecurityEvent["severity"];
+  description: string;
+  ip_address: string;
+  user_agent?: string;
+  user_id?: number;
+  additional_data?: Record<string, any>;
+}
+
+export interface SecurityEventFilters {
+  event_type?: SecurityEventType;
+  severity?: SecurityEvent["severity"];
+  user_id?: number;
+  ip_address?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LoginLockout {
+  scope: "account" | "ip";
+  locked_until: string;
+  retry_after: number; // seconds
+}
+
+// Attempts older than this are pruned; they no longer affect any lockout window
+const ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function toSecurityEvent(row: any): SecurityEvent {
+  return {
+    id: row.id,
+    user_id: row.user_id ?? undefined,
+    event_type: row.event_type,
+    severity: row.severity,
+    description: row.description,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent ?? undefined,
+    additional_data: row.additional_data ? JSON.parse(row.additional_data) : undefined,
+    timestamp: row.timestamp
+  };
+}
+
+export function recordSecurityEvent(db: Database, event: RecordSecurityEventOptions): number {
+  const helper = new DatabaseHelper(db);
+
+  return helper.insert("security_events", {
+    user_id: event.user_id ?? null,
+    event_type: event.event_type,
+    severity: event.severity,
+    description: event.description,
+    ip_address: event.ip_address,
+    user_agent: event.user_agent ?? null,
+    additional_data: event.additional_data ? JSON.stringify(event.additional_data) : null,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Newest first, with the total count of matching events for paging
+export function listSecurityEvents(
+  db: Database,
+  filters: SecurityEventFilters = {}
+): { events: SecurityEvent[]; total: number } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.event_type) {
+    conditions.push("event_type = ?");
+    params.push(filters.event_type);
+  }
+  if (filters.severity) {
+    conditions.push("severity = ?");
+    params.push(filters.severity);
+  }
+  if (filters.user_id !== undefined) {
+    conditions.push("user_id = ?");
+    params.push(filters.user_id);
+  }
+  if (filters.ip_address) {
+    conditions.push("ip_address = ?");
+    params.push(filters.ip_address);
+  }
+  if (filters.since) {
+    conditions.push("timestamp >= ?");
+    params.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push("timestamp <= ?");
+    params.push(filters.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 500);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const total = db.prepare(`SELECT COUNT(*) as count FROM security_events ${where}`)
+    .get(params) as { count: number };
+  const rows = db.prepare(`
+    SELECT * FROM security_events ${where}
+    ORDER BY timestamp DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).all([...params, limit, offset]);
+
+  return { events: rows.map(toSecurityEvent), total: total.count };
+}
+
+export function recordLoginAttempt(db: Database, username: string, ipAddress: string, successful: boolean): void {
+  const helper = new DatabaseHelper(db);
+  const now = Date.now();
+
+  helper.insert("login_attempts", {
+    username: username.toLowerCase(),
+    ip_address: ipAddress,
+    successful: successful ? 1 : 0,
+    attempted_at: new Date(now).toISOString()
+  });
+
+  db.prepare("DELETE FROM login_attempts WHERE attempted_at < ?")
+    .run(new Date(now - ATTEMPT_RETENTION_MS).toISOString());
+}
+
+// Sliding window: locked while `max` failures fall inside the last LOCKOUT_DURATION,
+// i.e. until the max-th most recent failure ages out of the window
+function lockoutFromFailures(failures: { attempted_at: string }[], max: number): string | null {
+  if (failures.length < max) return null;
+
+  const lockedUntil = new Date(new Date(failures[max - 1].attempted_at).getTime() + AUTH_CONFIG.LOCKOUT_DURATION);
+  return lockedUntil.getTime() > Date.now() ? lockedUntil.toISOString() : null;
+}
+
+// Failures for a username only count since its last successful login
+export function getLoginLockout(db: Database, username: string, ipAddress: string): LoginLockout | null {
+  const windowStart = new Date(Date.now() - AUTH_CONFIG.LOCKOUT_DURATION).toISOString();
+
+  const ipFailures = db.prepare(`
+    SELECT attempted_at FROM login_attempts
+    WHERE ip_address = ? AND successful = 0 AND attempted_at > ?
+    ORDER BY attempted_at DESC
+  `).all(ipAddress, windowStart) as { attempted_at: string }[];
+
+  const accountFailures = db.prepare(`
+    SELECT attempted_at FROM login_attempts
+    WHERE username = ? AND successful = 0 AND attempted_at > ?
+      AND attempted_at > COALESCE(
+        (SELECT MAX(attempted_at) FROM login_attempts WHERE username = ? AND successful = 1), ''
+      )
+    ORDER BY attempted_at DESC
+  `).all(username.toLowerCase(), windowStart, username.toLowerCase()) as { attempted_at: string }[];
+
+  const checks: [LoginLockout["scope"], string | null][] = [
+    ["ip", lockoutFromFailures(ipFailures, AUTH_CONFIG.MAX_LOGIN_ATTEMPTS_PER_IP)],
+    ["account", lockoutFromFailures(accountFailures, AUTH_CONFIG.MAX_LOGIN_ATTEMPTS)]
+  ];
+
+  for (const [scope, lockedUntil] of checks) {
+    if (lockedUntil) {
+      return {
+        scope,
+        locked_until: lockedUntil,
+        retry_after: Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000)
+      };
+    }
+  }
+
+  return null;
+}
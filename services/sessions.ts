@@ -0,0 +1,195 @@
+// services/sessions.ts - Server-side admin session tracking
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { SESSION_DURATION, UserSession } from "../types/user.ts";
+import { AUTH_CONFIG } from "../utils/constants.ts";
+import { generateSecureToken, hashToken } from "../utils/crypto.ts";
+
+export interface CreateSessionOptions {
+  ipAddress: string;
+  userAgent: string;
+  duration?: number; // milliseconds
+  rememberMe?: boolean;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  expires_at: string;
+}
+
+export type RefreshResult =
+  | { status: "rotated"; session: UserSession; refreshToken: IssuedRefreshToken }
+  | { status: "invalid" | "expired" | "reused" };
+
+function toSession(row: any): UserSession {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    last_activity: row.last_activity,
+    created_at: row.created_at,
+    expires_at: row.expires_at,
+    is_active: Boolean(row.is_active),
+    remember_me: Boolean(row.remember_me)
+  };
+}
+
+// Start a new session for a user, trimming the oldest ones beyond the concurrent limit
+export function createSession(db: Database, userId: number, options: CreateSessionOptions): UserSession {
+  const helper = new DatabaseHelper(db);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + (options.duration ?? SESSION_DURATION.default));
+
+  const session = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    ip_address: options.ipAddress,
+    user_agent: options.userAgent,
+    last_activity: now.toISOString(),
+    created_at: now.toISOString(),
+    expires_at: expiresAt.toISOString(),
+    is_active: 1,
+    remember_me: options.rememberMe ? 1 : 0
+  };
+
+  helper.insert("user_sessions", session);
+
+  const active = listActiveSessions(db, userId);
+  for (const stale of active.slice(SESSION_DURATION.max_sessions)) {
+    revokeSession(db, stale.id);
+  }
+
+  return toSession(session);
+}
+
+export function getSession(db: Database, sessionId: string): UserSession | null {
+  const helper = new DatabaseHelper(db);
+  const row = helper.selectOne("user_sessions", "id = ?", [sessionId]);
+  return row ? toSession(row) : null;
+}
+
+// A session is usable only while active and not past its expiry
+export function getActiveSession(db: Database, sessionId: string): UserSession | null {
+  const session = getSession(db, sessionId);
+  if (!session || !session.is_active) return null;
+  if (new Date(session.expires_at).getTime() <= Date.now()) return null;
+  return session;
+}
+
+// Sliding expiry: push the session end out by another full window
+export function extendSession(db: Database, sessionId: string, duration: number): UserSession | null {
+  const expiresAt = new Date(Date.now() + duration).toISOString();
+  db.prepare("UPDATE user_sessions SET expires_at = ?, last_activity = ? WHERE id = ? AND is_active = 1")
+    .run(expiresAt, new Date().toISOString(), sessionId);
+
+  return getActiveSession(db, sessionId);
+}
+
+// Idle window for a session: remember-me logins stay alive much longer between refreshes
+export function sessionDuration(rememberMe: boolean): number {
+  return rememberMe ? AUTH_CONFIG.REMEMBER_ME_DURATION : AUTH_CONFIG.REFRESH_TOKEN_EXPIRES;
+}
+
+export function touchSession(db: Database, sessionId: string): void {
+  db.prepare("UPDATE user_sessions SET last_activity = ? WHERE id = ?")
+    .run(new Date().toISOString(), sessionId);
+}
+
+// Most recently active first
+export function listActiveSessions(db: Database, userId: number): UserSession[] {
+  const rows = db.prepare(`
+    SELECT * FROM user_sessions
+    WHERE user_id = ? AND is_active = 1 AND expires_at > ?
+    ORDER BY last_activity DESC
+  `).all(userId, new Date().toISOString());
+
+  return rows.map(toSession);
+}
+
+export function revokeSession(db: Database, sessionId: string): boolean {
+  const changes = db.prepare(`
+    UPDATE user_sessions SET is_active = 0, revoked_at = ?
+    WHERE id = ? AND is_active = 1
+  `).run(new Date().toISOString(), sessionId);
+
+  return changes > 0;
+}
+
+// Revoke every active session for a user, optionally keeping one (usually the caller's own)
+export function revokeUserSessions(db: Database, userId: number, exceptSessionId?: string): number {
+  return db.prepare(`
+    UPDATE user_sessions SET is_active = 0, revoked_at = ?
+    WHERE user_id = ? AND is_active = 1 AND id != ?
+  `).run(new Date().toISOString(), userId, exceptSessionId ?? "");
+}
+
+// Refresh tokens
+//
+// Each session owns a family of refresh tokens. Every refresh consumes the presented token
+// and issues its successor; presenting an already-consumed token means it was copied, so
+// the whole family and its session are revoked.
+
+export async function issueRefreshToken(
+  db: Database,
+  session: UserSession,
+  parentId: number | null = null
+): Promise<IssuedRefreshToken> {
+  const helper = new DatabaseHelper(db);
+  const token = generateSecureToken();
+
+  helper.insert("refresh_tokens", {
+    session_id: session.id,
+    user_id: session.user_id,
+    token_hash: await hashToken(token),
+    parent_id: parentId,
+    expires_at: session.expires_at,
+    created_at: new Date().toISOString()
+  });
+
+  return { token, expires_at: session.expires_at };
+}
+
+export function revokeRefreshTokenFamily(db: Database, sessionId: string): number {
+  return db.prepare(`
+    UPDATE refresh_tokens SET revoked_at = ?
+    WHERE session_id = ? AND revoked_at IS NULL
+  `).run(new Date().toISOString(), sessionId);
+}
+
+export async function rotateRefreshToken(db: Database, token: string): Promise<RefreshResult> {
+  const helper = new DatabaseHelper(db);
+  const row = helper.selectOne("refresh_tokens", "token_hash = ?", [await hashToken(token)]);
+
+  if (!row) {
+    return { status: "invalid" };
+  }
+
+  if (row.used_at || row.revoked_at) {
+    revokeRefreshTokenFamily(db, row.session_id);
+    revokeSession(db, row.session_id);
+    return { status: "reused" };
+  }
+
+  const session = getActiveSession(db, row.session_id);
+  if (!session || new Date(row.expires_at).getTime() <= Date.now()) {
+    return { status: "expired" };
+  }
+
+  // Guard against two concurrent refreshes with the same token
+  const consumed = db.prepare("UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL")
+    .run(new Date().toISOString(), row.id);
+  if (consumed === 0) {
+    revokeRefreshTokenFamily(db, row.session_id);
+    revokeSession(db, row.session_id);
+    return { status: "reused" };
+  }
+
+  const extended = extendSession(db, session.id, sessionDuration(Boolean(session.remember_me)));
+  if (!extended) {
+    return { status: "expired" };
+  }
+
+  const refreshToken = await issueRefreshToken(db, extended, row.id);
+  return { status: "rotated", session: extended, refreshToken };
+}
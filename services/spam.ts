@@ -0,0 +1,139 @@
+// services/spam.ts - Spam scoring for the public inquiry and sell forms
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { AUTH_CONFIG, SPAM_CONFIG } from "../utils/constants.ts";
+import { signMessage } from "../utils/crypto.ts";
+import { timingSafeEqual } from "../utils/password.ts";
+
+// Settings keys that override the SPAM_CONFIG defaults; lists are comma-separated
+export const SPAM_KEYWORDS_SETTING = "spam_keywords";
+export const SPAM_DISPOSABLE_DOMAINS_SETTING = "spam_disposable_domains";
+export const SPAM_QUARANTINE_SCORE_SETTING = "spam_quarantine_score";
+
+export type SpamReason = "honeypot" | "too_fast" | "duplicate" | "disposable_email" | "links" | "keywords";
+
+export interface SpamAssessment {
+  score: number;
+  reasons: SpamReason[];
+  quarantined: boolean;
+}
+
+export interface SubmissionToAssess {
+  table: "inquiries" | "sell_submissions";
+  body: Record<string, unknown>; // The raw request body, which carries the honeypot and form token fields
+  email: string;
+  text: (string | null | undefined)[]; // Free-text fields to scan for links and keywords
+  // Columns that, with the email, identify a repeat of the same submission (e.g. watch_id)
+  duplicateOf: Record<string, string | number | null>;
+}
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+// Kept apart from other signatures so a form token can never be replayed as anything else
+const FORM_TOKEN_SIGNING_SECRET = `spam-form:${AUTH_CONFIG.JWT_SECRET}`;
+
+const encoder = new TextEncoder();
+
+function settingList(helper: DatabaseHelper, key: string, fallback: readonly string[]): string[] {
+  const setting = helper.selectOne("settings", "key = ?", [key]);
+  if (!setting?.value) {
+    return [...fallback];
+  }
+
+  return setting.value
+    .split(",")
+    .map((item: string) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// A token for one public form, "<issued at in epoch ms>.<signature>". The issue time comes from the
+// server, so the fill time can't be faked by the client.
+export async function issueFormToken(now: number = Date.now()): Promise<string> {
+  return `${now}.${await signMessage(FORM_TOKEN_SIGNING_SECRET, `form:${now}`)}`;
+}
+
+// The issue time of a token we signed, or null for anything missing, malformed or forged
+export async function formTokenIssuedAt(token: unknown): Promise<number | null> {
+  if (typeof token !== "string") return null;
+
+  const [issuedAt, signature, ...rest] = token.split(".");
+  if (!/^\d{1,15}$/.test(issuedAt ?? "") || !signature || rest.length > 0) return null;
+
+  const expected = await signMessage(FORM_TOKEN_SIGNING_SECRET, `form:${issuedAt}`);
+  return timingSafeEqual(encoder.encode(signature), encoder.encode(expected)) ? Number(issuedAt) : null;
+}
+
+function quarantineScore(helper: DatabaseHelper): number {
+  const setting = helper.selectOne("settings", "key = ?", [SPAM_QUARANTINE_SCORE_SETTING]);
+  const score = Number(setting?.value);
+  return Number.isFinite(score) && score > 0 ? score : SPAM_CONFIG.QUARANTINE_SCORE;
+}
+
+function isDuplicate(db: Database, submission: SubmissionToAssess): boolean {
+  const columns = Object.keys(submission.duplicateOf);
+  const where = [
+    "customer_email = ? COLLATE NOCASE",
+    ...columns.map((column) => `${column} IS ? COLLATE NOCASE`),
+    "created_at > datetime('now', ?)"
+  ].join(" AND ");
+  const windowSeconds = Math.round(SPAM_CONFIG.DUPLICATE_WINDOW_MS / 1000);
+
+  const row = db.prepare(`SELECT 1 FROM ${submission.table} WHERE ${where} LIMIT 1`).get([
+    submission.email,
+    ...Object.values(submission.duplicateOf),
+    `-${windowSeconds} seconds`
+  ]);
+  return row !== undefined;
+}
+
+// Scores a submission before it is stored; each signal adds its SPAM_CONFIG.WEIGHTS entry
+export async function assessSubmission(
+  db: Database,
+  submission: SubmissionToAssess,
+  now: number = Date.now()
+): Promise<SpamAssessment> {
+  const helper = new DatabaseHelper(db);
+  const { WEIGHTS } = SPAM_CONFIG;
+  const reasons: SpamReason[] = [];
+  let score = 0;
+
+  const flag = (reason: SpamReason, weight: number) => {
+    reasons.push(reason);
+    score += weight;
+  };
+
+  const honeypot = submission.body[SPAM_CONFIG.HONEYPOT_FIELD];
+  if (honeypot !== undefined && honeypot !== null && String(honeypot).trim() !== "") {
+    flag("honeypot", WEIGHTS.HONEYPOT);
+  }
+
+  // Without a valid token there's no trustworthy fill time, which is treated like filling in too fast
+  const issuedAt = await formTokenIssuedAt(submission.body[SPAM_CONFIG.FORM_TOKEN_FIELD]);
+  if (issuedAt === null || now - issuedAt < SPAM_CONFIG.MIN_FILL_TIME_MS) {
+    flag("too_fast", WEIGHTS.TOO_FAST);
+  }
+
+  if (isDuplicate(db, submission)) {
+    flag("duplicate", WEIGHTS.DUPLICATE);
+  }
+
+  const domain = submission.email.split("@").pop()?.toLowerCase() ?? "";
+  if (settingList(helper, SPAM_DISPOSABLE_DOMAINS_SETTING, SPAM_CONFIG.DISPOSABLE_EMAIL_DOMAINS).includes(domain)) {
+    flag("disposable_email", WEIGHTS.DISPOSABLE_EMAIL);
+  }
+
+  const text = submission.text.filter(Boolean).join("\n");
+  const extraLinks = (text.match(LINK_PATTERN)?.length ?? 0) - SPAM_CONFIG.MAX_LINKS;
+  if (extraLinks > 0) {
+    flag("links", extraLinks * WEIGHTS.LINK);
+  }
+
+  const lowerText = text.toLowerCase();
+  const keywordHits = settingList(helper, SPAM_KEYWORDS_SETTING, SPAM_CONFIG.KEYWORDS)
+    .filter((keyword) => lowerText.includes(keyword)).length;
+  if (keywordHits > 0) {
+    flag("keywords", keywordHits * WEIGHTS.KEYWORD);
+  }
+
+  return { score, reasons, quarantined: score >= quarantineScore(helper) };
+}
@@ -0,0 +1,151 @@
+// services/tokens.ts - Scoped API tokens for scripts and integrations
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { ApiToken, ROLE_PERMISSIONS, UserAction, UserRole } from "../types/user.ts";
+import { AUTH_CONFIG } from "../utils/constants.ts";
+import { generateSecureToken, hashToken } from "../utils/crypto.ts";
+
+export interface CreateApiTokenOptions {
+  name: string;
+  scopes: string[];
+  expiresInDays: number;
+}
+
+export interface IssuedApiToken {
+  token: string; // Plain-text token, only ever returned at creation time
+  apiToken: ApiToken;
+}
+
+// Shorthand scope actions, e.g. "watches:write" => create, update and delete
+const SCOPE_ACTION_ALIASES: Record<string, UserAction[]> = {
+  read: ["read", "list"],
+  write: ["create", "update", "delete"],
+  "*": ["create", "read", "update", "delete", "list", "export", "import"]
+};
+
+const DISPLAY_PREFIX_LENGTH = AUTH_CONFIG.API_TOKEN_PREFIX.length + 6;
+
+function toApiToken(row: any): ApiToken {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    token_prefix: row.token_prefix,
+    scopes: JSON.parse(row.scopes || "[]"),
+    expires_at: row.expires_at,
+    last_used_at: row.last_used_at,
+    last_used_ip: row.last_used_ip,
+    created_at: row.created_at,
+    revoked_at: row.revoked_at
+  };
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(AUTH_CONFIG.API_TOKEN_PREFIX);
+}
+
+// Expand a "resource:action" scope into the concrete actions it grants
+function expandScope(scope: string): { resource: string; actions: UserAction[] } | null {
+  const [resource, action, ...rest] = scope.split(":");
+  if (!resource || !action || rest.length > 0) return null;
+
+  const actions = SCOPE_ACTION_ALIASES[action] ?? [action as UserAction];
+  if (!actions.every((a) => SCOPE_ACTION_ALIASES["*"].includes(a))) return null;
+
+  return { resource, actions };
+}
+
+export function scopeAllows(scopes: string[], resource: string, action: UserAction): boolean {
+  return scopes.some((scope) => {
+    const expanded = expandScope(scope);
+    return expanded !== null && expanded.resource === resource && expanded.actions.includes(action);
+  });
+}
+
+// A token may only carry scopes its owner's role grants; returns one error per bad scope
+export function validateScopes(scopes: unknown, role: UserRole): string[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return ["At least one scope is required"];
+  }
+
+  const permissions = ROLE_PERMISSIONS[role] || [];
+  const errors: string[] = [];
+
+  for (const scope of scopes) {
+    const expanded = typeof scope === "string" ? expandScope(scope) : null;
+    if (!expanded) {
+      errors.push(`Invalid scope "${scope}". Expected "resource:action"`);
+      continue;
+    }
+
+    // Aliases only need to overlap the role; requests are still checked against both at use time
+    const granted = permissions.find((p) => p.resource === expanded.resource)?.actions || [];
+    if (!expanded.actions.some((action) => granted.includes(action))) {
+      errors.push(`Your role cannot grant scope "${scope}"`);
+    }
+  }
+
+  return errors;
+}
+
+export async function createApiToken(
+  db: Database,
+  userId: number,
+  options: CreateApiTokenOptions
+): Promise<IssuedApiToken> {
+  const helper = new DatabaseHelper(db);
+  const token = `${AUTH_CONFIG.API_TOKEN_PREFIX}${generateSecureToken()}`;
+  const now = new Date();
+
+  const row = {
+    user_id: userId,
+    name: options.name,
+    token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    token_hash: await hashToken(token),
+    scopes: JSON.stringify(options.scopes),
+    expires_at: new Date(now.getTime() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    created_at: now.toISOString()
+  };
+
+  const id = helper.insert("api_tokens", row);
+
+  return { token, apiToken: toApiToken({ id, ...row }) };
+}
+
+export function getApiToken(db: Database, id: number): ApiToken | null {
+  const helper = new DatabaseHelper(db);
+  const row = helper.selectOne("api_tokens", "id = ?", [id]);
+  return row ? toApiToken(row) : null;
+}
+
+// Newest first; pass a user id to list only that user's tokens
+export function listApiTokens(db: Database, userId?: number): ApiToken[] {
+  const rows = userId === undefined
+    ? db.prepare("SELECT * FROM api_tokens ORDER BY created_at DESC").all()
+    : db.prepare("SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC").all(userId);
+
+  return rows.map(toApiToken);
+}
+
+// Look up a presented token; only unrevoked, unexpired tokens are returned
+export async function findActiveApiToken(db: Database, token: string): Promise<ApiToken | null> {
+  const helper = new DatabaseHelper(db);
+  const row = helper.selectOne("api_tokens", "token_hash = ?", [await hashToken(token)]);
+
+  if (!row || row.revoked_at) return null;
+  if (new Date(row.expires_at).getTime() <= Date.now()) return null;
+
+  return toApiToken(row);
+}
+
+export function recordApiTokenUse(db: Database, id: number, ipAddress: string): void {
+  db.prepare("UPDATE api_tokens SET last_used_at = ?, last_used_ip = ? WHERE id = ?")
+    .run(new Date().toISOString(), ipAddress, id);
+}
+
+export function revokeApiToken(db: Database, id: number): boolean {
+  const changes = db.prepare("UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id);
+
+  return changes > 0;
+}
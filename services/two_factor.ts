@@ -0,0 +1,191 @@
+// services/two_factor.ts - TOTP enrollment, recovery codes and two-step login challenges
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { APP_CONFIG, AUTH_CONFIG } from "../utils/constants.ts";
+import { generateSecureToken, hashToken } from "../utils/crypto.ts";
+import { buildProvisioningUri, generateTotpSecret, verifyTotp } from "../utils/totp.ts";
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_uri: string;
+}
+
+export interface LoginChallenge {
+  id: number;
+  user_id: number;
+  remember_me: boolean;
+}
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+// Settings key holding a comma-separated list of roles that must use 2FA
+export const TWO_FACTOR_ROLES_SETTING = "two_factor_required_roles";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function getTwoFactorRequiredRoles(db: Database): string[] {
+  const helper = new DatabaseHelper(db);
+  const setting = helper.selectOne("settings", "key = ?", [TWO_FACTOR_ROLES_SETTING]);
+
+  return (setting?.value || "")
+    .split(",")
+    .map((role: string) => role.trim())
+    .filter(Boolean);
+}
+
+export function isTwoFactorRequired(db: Database, role: string): boolean {
+  return getTwoFactorRequiredRoles(db).includes(role);
+}
+
+// Start (or restart) enrollment; the secret only becomes active once a code is confirmed
+export function beginEnrollment(db: Database, user: any): TwoFactorEnrollment {
+  const helper = new DatabaseHelper(db);
+  const secret = generateTotpSecret();
+
+  helper.update("admin_users", { totp_pending_secret: secret }, "id = ?", [user.id]);
+
+  return {
+    secret,
+    otpauth_uri: buildProvisioningUri(secret, user.username, APP_CONFIG.NAME)
+  };
+}
+
+// Activate the pending secret; returns fresh recovery codes, or null if the code is wrong
+export async function confirmEnrollment(db: Database, user: any, code: string): Promise<string[] | null> {
+  if (!user.totp_pending_secret) return null;
+
+  const step = await verifyTotp(user.totp_pending_secret, code);
+  if (step === null) return null;
+
+  const helper = new DatabaseHelper(db);
+  helper.update("admin_users", {
+    totp_secret: user.totp_pending_secret,
+    totp_pending_secret: null,
+    totp_enabled: 1,
+    totp_last_step: step
+  }, "id = ?", [user.id]);
+
+  return await generateRecoveryCodes(db, user.id);
+}
+
+export function disableTwoFactor(db: Database, userId: number): void {
+  const helper = new DatabaseHelper(db);
+  helper.update("admin_users", {
+    totp_secret: null,
+    totp_pending_secret: null,
+    totp_enabled: 0,
+    totp_last_step: null
+  }, "id = ?", [userId]);
+  db.prepare("DELETE FROM recovery_codes WHERE user_id = ?").run(userId);
+}
+
+// Lowercase letters and digits without look-alikes (0/o, 1/l/i)
+function randomRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Replaces any existing codes; the plain-text codes are only returned here
+export async function generateRecoveryCodes(db: Database, userId: number): Promise<string[]> {
+  const helper = new DatabaseHelper(db);
+  const codes: string[] = [];
+
+  db.prepare("DELETE FROM recovery_codes WHERE user_id = ?").run(userId);
+
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const code = randomRecoveryCode();
+    codes.push(code);
+
+    helper.insert("recovery_codes", {
+      user_id: userId,
+      code_hash: await hashToken(normalizeRecoveryCode(code)),
+      created_at: new Date().toISOString()
+    });
+  }
+
+  return codes;
+}
+
+export function countRemainingRecoveryCodes(db: Database, userId: number): number {
+  const result = db.prepare("SELECT COUNT(*) as count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL")
+    .get(userId) as { count: number };
+  return result.count;
+}
+
+// Check a TOTP code (rejecting replays of an already-used step) or consume a recovery code
+export async function verifySecondFactor(
+  db: Database,
+  user: any,
+  input: { code?: string; recovery_code?: string }
+): Promise<SecondFactorMethod | null> {
+  if (!user.totp_enabled || !user.totp_secret) return null;
+
+  if (input.code) {
+    const step = await verifyTotp(user.totp_secret, input.code);
+    if (step === null || (user.totp_last_step !== null && step <= user.totp_last_step)) {
+      return null;
+    }
+
+    const advanced = db.prepare(
+      "UPDATE admin_users SET totp_last_step = ? WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)"
+    ).run(step, user.id, step);
+    return advanced > 0 ? "totp" : null;
+  }
+
+  if (input.recovery_code) {
+    const codeHash = await hashToken(normalizeRecoveryCode(input.recovery_code));
+    const consumed = db.prepare(
+      "UPDATE recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL"
+    ).run(new Date().toISOString(), user.id, codeHash);
+    return consumed > 0 ? "recovery_code" : null;
+  }
+
+  return null;
+}
+
+// Login challenges bridge the password step and the second factor
+
+export async function createLoginChallenge(db: Database, userId: number, rememberMe: boolean): Promise<string> {
+  const helper = new DatabaseHelper(db);
+  const token = generateSecureToken();
+  const now = Date.now();
+
+  helper.insert("login_challenges", {
+    user_id: userId,
+    token_hash: await hashToken(token),
+    remember_me: rememberMe ? 1 : 0,
+    attempts: 0,
+    expires_at: new Date(now + AUTH_CONFIG.TWO_FACTOR_CHALLENGE_EXPIRES).toISOString(),
+    created_at: new Date(now).toISOString()
+  });
+
+  return token;
+}
+
+// Unused, unexpired challenges that haven't run out of attempts
+export async function findLoginChallenge(db: Database, token: string): Promise<LoginChallenge | null> {
+  const helper = new DatabaseHelper(db);
+  const row = helper.selectOne("login_challenges", "token_hash = ?", [await hashToken(token)]);
+
+  if (!row || row.used_at) return null;
+  if (new Date(row.expires_at).getTime() <= Date.now()) return null;
+  if (row.attempts >= AUTH_CONFIG.TWO_FACTOR_MAX_ATTEMPTS) return null;
+
+  return { id: row.id, user_id: row.user_id, remember_me: Boolean(row.remember_me) };
+}
+
+export function recordChallengeFailure(db: Database, challengeId: number): void {
+  db.prepare("UPDATE login_challenges SET attempts = attempts + 1 WHERE id = ?").run(challengeId);
+}
+
+export function consumeLoginChallenge(db: Database, challengeId: number): boolean {
+  const changes = db.prepare("UPDATE login_challenges SET used_at = ? WHERE id = ? AND used_at IS NULL")
+    .run(new Date().toISOString(), challengeId);
+  return changes > 0;
+}
@@ -0,0 +1,46 @@
+// services/uploads.ts - Reading files from multipart admin uploads
+import { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { FILE_CONFIG } from "../utils/constants.ts";
+import { BadRequestError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface FileUpload {
+  content: Uint8Array;
+  originalName: string; // As sent by the client; only ever used for display
+  fields: Record<string, string>; // The other form fields sent with the file
+}
+
+// Reads the file sent in `field`, or else the first file in the form. The declared content type is
+// ignored; callers sniff the real type from the bytes.
+export async function readFileUpload(ctx: Context, field: string): Promise<FileUpload> {
+  if (!ctx.request.hasBody) {
+    throw new BadRequestError("No body in request");
+  }
+
+  // Keep uploads in memory up to the size limit; oak rejects anything larger with a 413
+  const formData = await ctx.request.body({ type: "form-data" }).value.read({
+    maxSize: FILE_CONFIG.MAX_FILE_SIZE,
+    maxFileSize: FILE_CONFIG.MAX_FILE_SIZE
+  });
+  const file = formData.files?.find((candidate) => candidate.name === field) ?? formData.files?.[0];
+
+  if (!file) {
+    throw new BadRequestError(`No ${field} file found in upload`, {
+      details: {
+        hasFiles: !!(formData.files && formData.files.length > 0),
+        fileCount: formData.files?.length || 0,
+        fieldKeys: formData.fields ? Object.keys(formData.fields) : []
+      }
+    });
+  }
+
+  logger.debug("Processing upload", {
+    field: file.name,
+    originalName: file.originalName,
+    contentType: file.contentType,
+    size: file.content?.length || 0
+  });
+
+  const content = file.content ?? (file.filename ? await Deno.readFile(file.filename) : new Uint8Array());
+  return { content, originalName: file.originalName, fields: formData.fields ?? {} };
+}
@@ -0,0 +1,218 @@
+// services/users.ts - Staff account management
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { User, UserListItem, UserRole, UserSearchFilters } from "../types/user.ts";
+import { hashPassword } from "../utils/password.ts";
+import { revokeUserSessions } from "./sessions.ts";
+
+export type PublicUser = Omit<User, "password_hash">;
+
+export interface CreateUserInput {
+  username: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  first_name?: string;
+  last_name?: string;
+  phone?: string;
+  timezone?: string;
+}
+
+// Fields an admin may change through the user management API
+export const EDITABLE_USER_FIELDS = [
+  "username",
+  "email",
+  "role",
+  "is_active",
+  "first_name",
+  "last_name",
+  "phone",
+  "timezone"
+] as const;
+
+function fullName(row: any): string | undefined {
+  const name = [row.first_name, row.last_name].filter(Boolean).join(" ");
+  return name || undefined;
+}
+
+export function toPublicUser(row: any): PublicUser {
+  return {
+    id: row.id,
+    username: row.username,
+    email: row.email,
+    role: row.role,
+    last_login: row.last_login ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? undefined,
+    first_name: row.first_name ?? undefined,
+    last_name: row.last_name ?? undefined,
+    phone: row.phone ?? undefined,
+    timezone: row.timezone ?? undefined,
+    is_active: Boolean(row.is_active),
+    must_change_password: Boolean(row.must_change_password),
+    totp_enabled: Boolean(row.totp_enabled)
+  };
+}
+
+function toUserListItem(row: any): UserListItem {
+  return {
+    id: row.id,
+    username: row.username,
+    email: row.email,
+    role: row.role,
+    full_name: fullName(row),
+    last_login: row.last_login ?? undefined,
+    is_active: Boolean(row.is_active),
+    created_at: row.created_at
+  };
+}
+
+export function getUserRow(db: Database, id: number): any {
+  const helper = new DatabaseHelper(db);
+  return helper.selectOne("admin_users", "id = ?", [id]);
+}
+
+export function listUsers(
+  db: Database,
+  filters: UserSearchFilters,
+  limit: number,
+  offset: number
+): { users: UserListItem[]; total: number } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.role) {
+    conditions.push("role = ?");
+    params.push(filters.role);
+  }
+  if (filters.is_active !== undefined) {
+    conditions.push("is_active = ?");
+    params.push(filters.is_active ? 1 : 0);
+  }
+  if (filters.search) {
+    conditions.push("(username LIKE ? OR email LIKE ? OR first_name LIKE ? OR last_name LIKE ?)");
+    const term = `%${filters.search}%`;
+    params.push(term, term, term, term);
+  }
+  if (filters.created_after) {
+    conditions.push("created_at >= ?");
+    params.push(filters.created_after);
+  }
+  if (filters.created_before) {
+    conditions.push("created_at <= ?");
+    params.push(filters.created_before);
+  }
+  if (filters.last_login_after) {
+    conditions.push("last_login >= ?");
+    params.push(filters.last_login_after);
+  }
+  if (filters.last_login_before) {
+    conditions.push("last_login <= ?");
+    params.push(filters.last_login_before);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const total = db.prepare(`SELECT COUNT(*) as count FROM admin_users ${where}`)
+    .get(params) as { count: number };
+  const rows = db.prepare(`
+    SELECT * FROM admin_users ${where}
+    ORDER BY username ASC
+    LIMIT ? OFFSET ?
+  `).all([...params, limit, offset]);
+
+  return { users: rows.map(toUserListItem), total: total.count };
+}
+
+export function findUserConflict(db: Database, username: string, email: string, excludeId?: number): any {
+  const helper = new DatabaseHelper(db);
+  return helper.selectOne(
+    "admin_users",
+    "(username = ? OR email = ?) AND id != ?",
+    [username, email, excludeId ?? 0]
+  );
+}
+
+export async function createUser(db: Database, input: CreateUserInput): Promise<any> {
+  const helper = new DatabaseHelper(db);
+
+  const id = helper.insert("admin_users", {
+    username: input.username,
+    email: input.email,
+    password_hash: await hashPassword(input.password),
+    role: input.role,
+    first_name: input.first_name ?? null,
+    last_name: input.last_name ?? null,
+    phone: input.phone ?? null,
+    timezone: input.timezone ?? null,
+    is_active: 1,
+    created_at: new Date().toISOString()
+  });
+
+  return getUserRow(db, id);
+}
+
+// True when the user is the only remaining active admin, who must not be demoted, deactivated or deleted
+export function isLastActiveAdmin(db: Database, userId: number): boolean {
+  const user = getUserRow(db, userId);
+  if (!user || user.role !== "admin" || !user.is_active) return false;
+
+  const others = db.prepare(
+    "SELECT COUNT(*) as count FROM admin_users WHERE role = 'admin' AND is_active = 1 AND id != ?"
+  ).get(userId) as { count: number };
+
+  return others.count === 0;
+}
+
+// Disabling an account also signs it out everywhere and revokes its API tokens
+export function revokeUserAccess(db: Database, userId: number): void {
+  revokeUserSessions(db, userId);
+  db.prepare("UPDATE api_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), userId);
+}
+
+// The user must pick a new password at next login; existing sessions are ended now
+export function forcePasswordReset(db: Database, userId: number): void {
+  const helper = new DatabaseHelper(db);
+  helper.update("admin_users", { must_change_password: 1 }, "id = ?", [userId]);
+  revokeUserSessions(db, userId);
+}
+
+// Everything a user could sign in with. Foreign keys aren't enforced, so these are cleared by hand.
+const USER_CREDENTIAL_TABLES = [
+  "refresh_tokens",
+  "user_sessions",
+  "api_tokens",
+  "recovery_codes",
+  "login_challenges",
+  "password_reset_tokens"
+];
+
+// Records of who created something, which outlive the user
+const USER_AUTHORSHIP_COLUMNS: [table: string, column: string][] = [
+  ["attachments", "uploaded_by"],
+  ["reservations", "created_by"]
+];
+
+// Deletes the account and its credentials together; audit and security logs keep the id as history
+export function deleteUser(db: Database, userId: number): boolean {
+  const helper = new DatabaseHelper(db);
+  return helper.transaction(() => {
+    for (const table of USER_CREDENTIAL_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+    }
+    for (const [table, column] of USER_AUTHORSHIP_COLUMNS) {
+      db.prepare(`UPDATE ${table} SET ${column} = NULL WHERE ${column} = ?`).run(userId);
+    }
+    return helper.delete("admin_users", "id = ?", [userId]);
+  });
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
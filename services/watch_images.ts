@@ -0,0 +1,254 @@
+// services/watch_images.ts - Watch photo galleries: ordering, the primary image and orphaned file cleanup
+import { Database } from "@sqlite";
+import { DatabaseHelper } from "../database/init.ts";
+import { WatchImage, WatchImageVariant } from "../types/watch.ts";
+import { NotFoundError, ValidationError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+import { ProcessedImage, WATCH_IMAGE_DIR } from "./images.ts";
+
+export interface WatchImageDetails {
+  alt_text?: string | null;
+  caption?: string | null;
+  is_primary?: boolean;
+}
+
+export interface OrphanCleanupOptions {
+  directory?: string;
+  dryRun?: boolean;
+  minAgeMs?: number; // Younger files are skipped: they may belong to an upload still being attached
+  now?: number;
+}
+
+export interface OrphanCleanupResult {
+  scanned: number;
+  removed: string[];
+  bytes: number;
+  dryRun: boolean;
+}
+
+// Only files the upload pipeline wrote are candidates; hand-placed files (the seed photos) never are
+const UPLOADED_FILE_PATTERN = /^watch_\d+_[0-9a-f]{8}(_[a-z]+)?\.(jpg|png|gif|webp)$/;
+const DEFAULT_ORPHAN_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
+function toWatchImage(row: any): WatchImage {
+  let variants: WatchImageVariant[] = [];
+  try {
+    variants = JSON.parse(row.variants || "[]");
+  } catch {
+    // A damaged variants column still leaves the original usable
+  }
+
+  return {
+    id: row.id,
+    watch_id: row.watch_id,
+    filename: row.filename,
+    url: row.url,
+    mime_type: row.mime_type ?? undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    size: row.size ?? undefined,
+    variants,
+    srcset: row.srcset ?? undefined,
+    alt_text: row.alt_text ?? undefined,
+    caption: row.caption ?? undefined,
+    position: row.position,
+    is_primary: Boolean(row.is_primary),
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? undefined
+  };
+}
+
+// Gallery order: position, then upload order for ties
+export function listWatchImages(db: Database, watchId: number): WatchImage[] {
+  return db.prepare("SELECT * FROM watch_images WHERE watch_id = ? ORDER BY position, id")
+    .all([watchId])
+    .map(toWatchImage);
+}
+
+export function getWatchImage(db: Database, watchId: number, imageId: number): WatchImage {
+  const row = new DatabaseHelper(db).selectOne("watch_images", "id = ? AND watch_id = ?", [imageId, watchId]);
+  if (!row) {
+    throw new NotFoundError("Image not found");
+  }
+  return toWatchImage(row);
+}
+
+// Makes one image the primary and mirrors its URL into watches.image_url, which listings still read
+function setPrimary(db: Database, watchId: number, imageId: number | null): void {
+  const helper = new DatabaseHelper(db);
+  db.prepare("UPDATE watch_images SET is_primary = 0 WHERE watch_id = ? AND is_primary = 1").run([watchId]);
+
+  if (imageId === null) {
+    helper.update("watches", { image_url: null }, "id = ?", [watchId]);
+    return;
+  }
+
+  helper.update("watch_images", { is_primary: 1 }, "id = ?", [imageId]);
+  const image = helper.selectOne("watch_images", "id = ?", [imageId]);
+  helper.update("watches", { image_url: image.url }, "id = ?", [watchId]);
+}
+
+// Adds a processed upload to the end of the gallery. The first image of a watch is always primary.
+export function attachWatchImage(
+  db: Database,
+  watchId: number,
+  image: ProcessedImage,
+  details: WatchImageDetails = {}
+): WatchImage {
+  const helper = new DatabaseHelper(db);
+  const last = db.prepare("SELECT MAX(position) as position, COUNT(*) as count FROM watch_images WHERE watch_id = ?")
+    .get([watchId]) as { position: number | null; count: number };
+
+  const imageId = helper.insert("watch_images", {
+    watch_id: watchId,
+    filename: image.filename,
+    url: image.url,
+    mime_type: image.mimeType,
+    width: image.width,
+    height: image.height,
+    size: image.size,
+    variants: JSON.stringify(image.variants),
+    srcset: image.srcset,
+    alt_text: details.alt_text || null,
+    caption: details.caption || null,
+    position: last.position === null ? 0 : last.position + 1,
+    is_primary: 0
+  });
+
+  if (last.count === 0 || details.is_primary) {
+    setPrimary(db, watchId, imageId);
+  }
+
+  return getWatchImage(db, watchId, imageId);
+}
+
+// Updates alt text and caption, and promotes the image when is_primary is true. Unsetting the primary
+// flag is refused: a gallery with images always has one, so another image must be promoted instead.
+export function updateWatchImage(db: Database, watchId: number, imageId: number, details: WatchImageDetails): WatchImage {
+  const existing = getWatchImage(db, watchId, imageId);
+
+  if (details.is_primary === false && existing.is_primary) {
+    throw new ValidationError({ is_primary: ["Promote another image to replace the primary image"] });
+  }
+
+  const changes: Record<string, string | null> = {};
+  if (details.alt_text !== undefined) changes.alt_text = details.alt_text || null;
+  if (details.caption !== undefined) changes.caption = details.caption || null;
+
+  if (Object.keys(changes).length > 0) {
+    new DatabaseHelper(db).update("watch_images", changes, "id = ?", [imageId]);
+  }
+
+  if (details.is_primary && !existing.is_primary) {
+    setPrimary(db, watchId, imageId);
+  }
+
+  return getWatchImage(db, watchId, imageId);
+}
+
+// Sets the gallery order; imageIds must list every image of the watch exactly once
+export function reorderWatchImages(db: Database, watchId: number, imageIds: number[]): WatchImage[] {
+  const current = listWatchImages(db, watchId).map((image) => image.id);
+  const requested = new Set(imageIds);
+
+  if (requested.size !== imageIds.length || imageIds.length !== current.length || !current.every((id) => requested.has(id))) {
+    throw new ValidationError({ image_ids: ["Must list each image of the watch exactly once"] });
+  }
+
+  const updatePosition = db.prepare("UPDATE watch_images SET position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+  imageIds.forEach((id, position) => updatePosition.run([position, id]));
+
+  return listWatchImages(db, watchId);
+}
+
+async function removeFiles(directory: string, filenames: string[]): Promise<void> {
+  await Promise.all(filenames.map(async (filename) => {
+    try {
+      await Deno.remove(`${directory}/${filename}`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        // The row is already gone; the orphan cleanup will retry the file
+        logger.warn("Could not remove image file", { filename, error: (error as Error).message });
+      }
+    }
+  }));
+}
+
+// Removes the image and its files. If it was the primary, the next image in the gallery takes over.
+export async function deleteWatchImage(
+  db: Database,
+  watchId: number,
+  imageId: number,
+  directory: string = WATCH_IMAGE_DIR
+): Promise<WatchImage> {
+  const image = getWatchImage(db, watchId, imageId);
+  new DatabaseHelper(db).delete("watch_images", "id = ?", [imageId]);
+
+  if (image.is_primary) {
+    setPrimary(db, watchId, listWatchImages(db, watchId)[0]?.id ?? null);
+  }
+
+  // Backfilled rows can point at a file another row (or a seed watch) still uses
+  const stillUsed = db.prepare("SELECT 1 FROM watch_images WHERE filename = ? LIMIT 1").get([image.filename]);
+  const filenames = [...(stillUsed ? [] : [image.filename]), ...image.variants.map((variant) => variant.filename)];
+  await removeFiles(directory, filenames.filter((filename) => UPLOADED_FILE_PATTERN.test(filename)));
+
+  return image;
+}
+
+// Every file name the database still points at: gallery originals, their variants and watches.image_url
+function referencedFilenames(db: Database): Set<string> {
+  const referenced = new Set<string>();
+  const basename = (url: string) => url.split("?")[0].split("/").pop() ?? "";
+
+  for (const row of db.prepare("SELECT filename, variants FROM watch_images").all() as { filename: string; variants: string }[]) {
+    referenced.add(row.filename);
+    try {
+      for (const variant of JSON.parse(row.variants || "[]") as WatchImageVariant[]) {
+        referenced.add(variant.filename);
+      }
+    } catch {
+      // Unreadable variants: nothing more to keep
+    }
+  }
+
+  for (const row of db.prepare("SELECT image_url FROM watches WHERE image_url IS NOT NULL").all() as { image_url: string }[]) {
+    referenced.add(basename(row.image_url));
+  }
+
+  return referenced;
+}
+
+// Deletes uploaded files that no image row or watch references any more, e.g. uploads that were never
+// attached or whose rows were removed while the disk was unavailable
+export async function cleanupOrphanedImageFiles(db: Database, options: OrphanCleanupOptions = {}): Promise<OrphanCleanupResult> {
+  const directory = options.directory ?? WATCH_IMAGE_DIR;
+  const dryRun = options.dryRun ?? false;
+  const cutoff = (options.now ?? Date.now()) - (options.minAgeMs ?? DEFAULT_ORPHAN_MIN_AGE_MS);
+  const referenced = referencedFilenames(db);
+  const result: OrphanCleanupResult = { scanned: 0, removed: [], bytes: 0, dryRun };
+
+  try {
+    for await (const entry of Deno.readDir(directory)) {
+      if (!entry.isFile || !UPLOADED_FILE_PATTERN.test(entry.name)) continue;
+      result.scanned++;
+
+      if (referenced.has(entry.name)) continue;
+
+      const info = await Deno.stat(`${directory}/${entry.name}`);
+      if ((info.mtime?.getTime() ?? 0) > cutoff) continue;
+
+      if (!dryRun) {
+        await Deno.remove(`${directory}/${entry.name}`);
+      }
+      result.removed.push(entry.name);
+      result.bytes += info.size;
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+
+  result.removed.sort();
+  logger.info("Orphaned image cleanup finished", { ...result, removed: result.removed.length });
+  return result;
+}
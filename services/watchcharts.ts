@@ -1,4 +1,7 @@
 // services/watchcharts.ts - WatchCharts API integration service
+import { ExternalApiError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
+
 const WATCHCHARTS_API_BASE = "https://api.watchcharts.com/v3";
 const WATCHCHARTS_API_KEY = Deno.env.get("WATCHCHARTS_API_KEY") || "";
 
@@ -25,7 +28,7 @@ async function makeWatchChartsRequest(endpoint: string, params?: Record<string,
 
   // Check if API key is configured
   if (!WATCHCHARTS_API_KEY) {
-    console.warn("WatchCharts API key not configured, using mock data");
+    logger.warn("WatchCharts API key not configured, using mock data");
     return generateMockWatchChartsResponse(endpoint, params);
   }
 
@@ -46,16 +49,14 @@ async function makeWatchChartsRequest(endpoint: string, params?: Record<string,
     const data = await response.json();
     return data;
   } catch (error) {
-    console.error("WatchCharts API request failed:", error);
-    
     // Fallback to mock data if API fails
-    console.log("Falling back to mock data");
+    logger.warn("WatchCharts API request failed, falling back to mock data", { endpoint, error });
     return generateMockWatchChartsResponse(endpoint, params);
   }
 }
 
 export async function searchWatchCharts(brandName: string, reference: string) {
-  console.log(`Searching WatchCharts for ${brandName} ${reference}`);
+  logger.debug("Searching WatchCharts", { brand: brandName, reference });
   
   try {
     const response = await makeWatchChartsRequest("/search/watch", {
@@ -109,13 +110,12 @@ export async function searchWatchCharts(brandName: string, reference: string) {
       }];
     }
   } catch (error) {
-    console.error("WatchCharts search failed:", error);
-    throw new Error(`WatchCharts search failed: ${error.message}`);
+    throw new ExternalApiError("watchcharts", "WatchCharts search failed", { cause: error });
   }
 }
 
 export async function getWatchInfo(uuid: string) {
-  console.log(`Getting WatchCharts info for UUID: ${uuid}`);
+  logger.debug("Getting WatchCharts info", { uuid });
   
   try {
     const response = await makeWatchChartsRequest(`/watch/info`, { uuid });
@@ -146,8 +146,7 @@ export async function getWatchInfo(uuid: string) {
       popularity_score: response.popularity_score
     };
   } catch (error) {
-    console.error("WatchCharts get info failed:", error);
-    throw new Error(`WatchCharts get info failed: ${error.message}`);
+    throw new ExternalApiError("watchcharts", "WatchCharts lookup failed", { cause: error });
   }
 }
 
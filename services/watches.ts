@@ -0,0 +1,409 @@
+// services/watches.ts - Public catalog queries: full-text search, filtering, sorting and pagination
+import { Database } from "@sqlite";
+import { PaginationInfo } from "../types/api.ts";
+import {
+  FacetCount,
+  PriceFacetCount,
+  WATCH_CONDITIONS,
+  Watch,
+  WatchCondition,
+  WatchFacets,
+  WatchSearchFilters,
+  WatchSearchResult,
+  WatchSortField
+} from "../types/watch.ts";
+import { API_CONFIG, SEARCH_CONFIG, WATCH_CONFIG } from "../utils/constants.ts";
+import { fromBase64Url, toBase64Url } from "../utils/crypto.ts";
+import { formatWatchCondition, highlightSearchTerm, normalizeReference } from "../utils/formatting.ts";
+import { normalizeWatchCondition, validateEnum } from "../utils/validation.ts";
+
+export interface WatchPage {
+  watches: WatchSearchResult[];
+  pagination: PaginationInfo;
+}
+
+export interface ParsedWatchQuery {
+  filters: WatchSearchFilters;
+  cursor?: string;
+  errors: string[];
+}
+
+// Position after the last row of a page: its sort key plus id as a tie-breaker
+interface CatalogCursor {
+  sortBy: WatchSortField;
+  sortOrder: "asc" | "desc";
+  value: string | number;
+  id: number;
+}
+
+// "relevance" is only meaningful with a text query
+export const WATCH_SORT_FIELDS = [...SEARCH_CONFIG.SORT_FIELDS.WATCHES, "relevance"] as readonly WatchSortField[];
+const DEFAULT_SORT: WatchSortField = "created_at";
+
+// Sort keys are normalised so keyset comparisons agree with ORDER BY (case-insensitive text, no NULLs)
+const SORT_EXPRESSIONS: Record<string, string> = {
+  brand: "LOWER(brand)",
+  model: "LOWER(model)",
+  price: "price",
+  year: "COALESCE(year, 0)",
+  condition: "LOWER(condition)",
+  created_at: "COALESCE(created_at, '')"
+};
+
+// SQL twin of normalizeReference()
+const COMPACT_REFERENCE_SQL =
+  "LOWER(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(reference, ' ', ''), '-', ''), '.', ''), '/', ''), '_', ''))";
+
+// bm25 column weights for watches_fts (brand, model, reference, reference_compact, description):
+// identifying fields outrank a passing mention in the description
+const RELEVANCE_WEIGHTS = "10.0, 8.0, 10.0, 10.0, 1.0";
+
+const MAX_SEARCH_WORDS = 10;
+const SNIPPET_LENGTH = 160;
+
+function parseNonNegativeInt(params: URLSearchParams, name: string, errors: string[]): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    errors.push(`${name} must be a non-negative integer`);
+    return undefined;
+  }
+  return value;
+}
+
+// Read WatchSearchFilters from a query string, collecting every problem rather than stopping at the first
+export function parseWatchSearchFilters(params: URLSearchParams): ParsedWatchQuery {
+  const errors: string[] = [];
+
+  const filters: WatchSearchFilters = {
+    q: params.get("q")?.trim() || undefined,
+    brand: params.get("brand")?.trim() || undefined,
+    model: params.get("model")?.trim() || undefined,
+    reference: params.get("reference")?.trim() || undefined,
+    condition: params.get("condition") ? normalizeWatchCondition(params.get("condition")!) as WatchCondition : undefined,
+    minPrice: parseNonNegativeInt(params, "minPrice", errors),
+    maxPrice: parseNonNegativeInt(params, "maxPrice", errors),
+    minYear: parseNonNegativeInt(params, "minYear", errors),
+    maxYear: parseNonNegativeInt(params, "maxYear", errors),
+    limit: parseNonNegativeInt(params, "limit", errors),
+    offset: parseNonNegativeInt(params, "offset", errors)
+  };
+
+  if (filters.condition) {
+    errors.push(...validateEnum(filters.condition, "condition", Object.keys(WATCH_CONDITIONS)).errors);
+  }
+
+  if (filters.q && filters.q.length < SEARCH_CONFIG.MIN_SEARCH_LENGTH) {
+    errors.push(`q must be at least ${SEARCH_CONFIG.MIN_SEARCH_LENGTH} characters`);
+  }
+  if (filters.q && filters.q.length > SEARCH_CONFIG.MAX_SEARCH_LENGTH) {
+    errors.push(`q must be at most ${SEARCH_CONFIG.MAX_SEARCH_LENGTH} characters`);
+  }
+
+  const sortBy = params.get("sortBy");
+  if (sortBy) {
+    if (WATCH_SORT_FIELDS.includes(sortBy as WatchSortField)) {
+      filters.sortBy = sortBy as WatchSortField;
+    } else {
+      errors.push(`sortBy must be one of: ${WATCH_SORT_FIELDS.join(", ")}`);
+    }
+  }
+
+  const sortOrder = params.get("sortOrder")?.toLowerCase();
+  if (sortOrder) {
+    if (sortOrder === "asc" || sortOrder === "desc") {
+      filters.sortOrder = sortOrder;
+    } else {
+      errors.push("sortOrder must be asc or desc");
+    }
+  }
+
+  if (filters.limit === 0) {
+    errors.push("limit must be at least 1");
+  }
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    errors.push("minPrice cannot be greater than maxPrice");
+  }
+  if (filters.minYear !== undefined && filters.maxYear !== undefined && filters.minYear > filters.maxYear) {
+    errors.push("minYear cannot be greater than maxYear");
+  }
+
+  const cursor = params.get("cursor") || undefined;
+  if (cursor && filters.offset) {
+    errors.push("Use either cursor or offset, not both");
+  }
+
+  return { filters, cursor, errors };
+}
+
+export function encodeCursor(cursor: CatalogCursor): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(cursor)));
+}
+
+// Returns null for anything that isn't a cursor we issued for this sort
+export function decodeCursor(token: string, sortBy: WatchSortField, sortOrder: "asc" | "desc"): CatalogCursor | null {
+  try {
+    const cursor = JSON.parse(new TextDecoder().decode(fromBase64Url(token))) as CatalogCursor;
+
+    if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) return null;
+    if (!Number.isInteger(cursor.id)) return null;
+    if (typeof cursor.value !== "string" && typeof cursor.value !== "number") return null;
+
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Lowercased letter/digit runs of a search query
+function searchWords(q: string): string[] {
+  return q.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, MAX_SEARCH_WORDS);
+}
+
+// FTS5 query for free text: every word as a prefix (all must match, in any column), or the words
+// run together as a reference prefix so "116610 LN" finds "116610LN" and vice versa.
+// Words are quoted, so user input can't inject FTS5 operators.
+export function buildMatchQuery(q: string): string | null {
+  const words = searchWords(q);
+  if (words.length === 0) return null;
+
+  const allWords = words.map((word) => `"${word}"*`).join(" ");
+  if (words.length === 1) return allWords;
+
+  return `(${allWords}) OR reference_compact : "${words.join("")}"*`;
+}
+
+function buildWhere(filters: WatchSearchFilters, matchQuery: string | null): { where: string; params: any[] } {
+  const conditions: string[] = ["status = ?"];
+  const params: any[] = [filters.status || "available"];
+
+  if (matchQuery) {
+    conditions.push("id IN (SELECT rowid FROM watches_fts WHERE watches_fts MATCH ?)");
+    params.push(matchQuery);
+  }
+  if (filters.brand) {
+    conditions.push("LOWER(brand) = LOWER(?)");
+    params.push(filters.brand);
+  }
+  if (filters.model) {
+    conditions.push("LOWER(model) LIKE ?");
+    params.push(`%${filters.model.toLowerCase()}%`);
+  }
+  if (filters.reference) {
+    conditions.push(`${COMPACT_REFERENCE_SQL} LIKE ?`);
+    params.push(`%${normalizeReference(filters.reference)}%`);
+  }
+  if (filters.condition) {
+    conditions.push("REPLACE(LOWER(condition), ' ', '-') = ?");
+    params.push(filters.condition);
+  }
+  if (filters.minPrice !== undefined) {
+    conditions.push("price >= ?");
+    params.push(filters.minPrice);
+  }
+  if (filters.maxPrice !== undefined) {
+    conditions.push("price <= ?");
+    params.push(filters.maxPrice);
+  }
+  if (filters.minYear !== undefined) {
+    conditions.push("year >= ?");
+    params.push(filters.minYear);
+  }
+  if (filters.maxYear !== undefined) {
+    conditions.push("year <= ?");
+    params.push(filters.maxYear);
+  }
+
+  return { where: conditions.join(" AND "), params };
+}
+
+// Relevance pages by position: there is no stable keyset over bm25 scores
+function isRelevanceSort(sortBy: WatchSortField): boolean {
+  return sortBy === "relevance";
+}
+
+// Short piece of text around the first matching word, for result snippets
+function excerptAround(text: string, words: string[], length: number = SNIPPET_LENGTH): string {
+  if (!text || text.length <= length) return text;
+
+  const lower = text.toLowerCase();
+  const positions = words.map((word) => lower.indexOf(word)).filter((position) => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, Math.min(first - Math.floor(length / 3), text.length - length));
+  const excerpt = text.slice(start, start + length).trim();
+
+  return `${start > 0 ? "…" : ""}${excerpt}${start + length < text.length ? "…" : ""}`;
+}
+
+function withHighlights(watch: Watch, q: string): WatchSearchResult {
+  const words = searchWords(q);
+
+  return {
+    ...watch,
+    highlights: {
+      brand: highlightSearchTerm(watch.brand, q),
+      model: highlightSearchTerm(watch.model, q),
+      reference: highlightSearchTerm(watch.reference, q),
+      description: watch.description ? highlightSearchTerm(excerptAround(watch.description, words), q) : undefined
+    }
+  };
+}
+
+// One page of the catalog. With a cursor the page starts after it (keyset); otherwise at `offset`.
+// A text query filters through the FTS index; sortBy "relevance" (the default with q) ranks by bm25.
+// Throws RangeError for a cursor that doesn't belong to this sort.
+export function searchWatches(db: Database, filters: WatchSearchFilters, cursorToken?: string): WatchPage {
+  const matchQuery = filters.q ? buildMatchQuery(filters.q) : null;
+  const sortBy = filters.sortBy || (matchQuery ? "relevance" : DEFAULT_SORT);
+  if (isRelevanceSort(sortBy) && !matchQuery) {
+    throw new RangeError("sortBy=relevance requires a search query (q)");
+  }
+
+  const sortOrder = filters.sortOrder || (sortBy === DEFAULT_SORT ? "desc" : "asc");
+  const limit = Math.min(filters.limit || API_CONFIG.DEFAULT_PAGE_SIZE, API_CONFIG.MAX_PAGE_SIZE);
+
+  const { where, params } = buildWhere(filters, matchQuery);
+
+  const total = db.prepare(`SELECT COUNT(*) as count FROM watches WHERE ${where}`)
+    .get(params) as { count: number };
+
+  let pageWhere = where;
+  const pageParams = [...params];
+  let offset = filters.offset || 0;
+
+  const cursor = cursorToken ? decodeCursor(cursorToken, sortBy, sortOrder) : null;
+  if (cursorToken && !cursor) {
+    throw new RangeError("Invalid or expired cursor for this sort order");
+  }
+
+  let rows: any[];
+  if (isRelevanceSort(sortBy)) {
+    if (cursor) offset = Number(cursor.value);
+
+    rows = db.prepare(`
+      SELECT watches.*, ranked.score AS sort_key FROM watches
+      JOIN (
+        SELECT rowid AS fts_id, bm25(watches_fts, ${RELEVANCE_WEIGHTS}) AS score
+        FROM watches_fts WHERE watches_fts MATCH ?
+      ) ranked ON ranked.fts_id = watches.id
+      WHERE ${where}
+      ORDER BY ranked.score ASC, watches.id ASC
+      LIMIT ? OFFSET ?
+    `).all([matchQuery, ...params, limit, offset]) as any[];
+  } else {
+    const sortExpression = SORT_EXPRESSIONS[sortBy];
+    const direction = sortOrder === "asc" ? "ASC" : "DESC";
+
+    if (cursor) {
+      const comparator = sortOrder === "asc" ? ">" : "<";
+      pageWhere += ` AND (${sortExpression} ${comparator} ? OR (${sortExpression} = ? AND id ${comparator} ?))`;
+      pageParams.push(cursor.value, cursor.value, cursor.id);
+
+      // Rows remaining after the cursor tell us where this page sits in the full result
+      const remaining = db.prepare(`SELECT COUNT(*) as count FROM watches WHERE ${pageWhere}`)
+        .get(pageParams) as { count: number };
+      offset = total.count - remaining.count;
+    }
+
+    rows = db.prepare(`
+      SELECT *, ${sortExpression} AS sort_key FROM watches
+      WHERE ${pageWhere}
+      ORDER BY ${sortExpression} ${direction}, id ${direction}
+      LIMIT ? OFFSET ?
+    `).all([...pageParams, limit, cursor ? 0 : offset]) as any[];
+  }
+
+  const hasMore = offset + rows.length < total.count;
+  const last = rows[rows.length - 1];
+  const nextValue = isRelevanceSort(sortBy) ? offset + rows.length : last?.sort_key;
+
+  const watches = rows.map(({ sort_key: sortKey, ...row }) => {
+    const watch = row as Watch;
+    if (!filters.q) return watch;
+
+    const result = withHighlights(watch, filters.q);
+    if (isRelevanceSort(sortBy)) result.relevance = -sortKey;
+    return result;
+  });
+
+  return {
+    watches,
+    pagination: {
+      total: total.count,
+      limit,
+      offset,
+      page: Math.floor(offset / limit) + 1,
+      totalPages: Math.ceil(total.count / limit),
+      hasMore,
+      hasPrevious: offset > 0,
+      nextCursor: hasMore && last ? encodeCursor({ sortBy, sortOrder, value: nextValue, id: last.id }) : undefined
+    }
+  };
+}
+
+// Facet counts for the current search. Each facet is counted with its own filter removed,
+// e.g. with brand=Rolex the brand facet still lists Omega, but the price facet counts only Rolexes.
+export function computeWatchFacets(db: Database, filters: WatchSearchFilters): WatchFacets {
+  const matchQuery = filters.q ? buildMatchQuery(filters.q) : null;
+  const without = (...keys: (keyof WatchSearchFilters)[]) => {
+    const rest = { ...filters };
+    for (const key of keys) delete rest[key];
+    return buildWhere(rest, matchQuery);
+  };
+
+  const brandWhere = without("brand");
+  const brand = db.prepare(`
+    SELECT MIN(brand) as value, COUNT(*) as count FROM watches
+    WHERE ${brandWhere.where}
+    GROUP BY brand COLLATE NOCASE
+    ORDER BY count DESC, value ASC
+  `).all(brandWhere.params) as { value: string; count: number }[];
+
+  const conditionWhere = without("condition");
+  const condition = db.prepare(`
+    SELECT REPLACE(LOWER(condition), ' ', '-') as value, COUNT(*) as count FROM watches
+    WHERE ${conditionWhere.where}
+    GROUP BY value
+    ORDER BY count DESC, value ASC
+  `).all(conditionWhere.params) as { value: string; count: number }[];
+
+  // One pass over the rows, one SUM per bucket; the top bucket has no upper bound
+  const priceWhere = without("minPrice", "maxPrice");
+  const bucketSql = WATCH_CONFIG.PRICE_RANGES.map((range, index) =>
+    Number.isFinite(range.max)
+      ? `SUM(CASE WHEN price >= ${range.min} AND price < ${range.max} THEN 1 ELSE 0 END) as bucket_${index}`
+      : `SUM(CASE WHEN price >= ${range.min} THEN 1 ELSE 0 END) as bucket_${index}`
+  ).join(", ");
+  const priceCounts = db.prepare(`SELECT ${bucketSql} FROM watches WHERE ${priceWhere.where}`)
+    .get(priceWhere.params) as Record<string, number | null>;
+
+  const price: PriceFacetCount[] = WATCH_CONFIG.PRICE_RANGES.map((range, index) => ({
+    value: Number.isFinite(range.max) ? `${range.min}-${range.max}` : `${range.min}+`,
+    label: range.label,
+    min: range.min,
+    max: Number.isFinite(range.max) ? range.max : null,
+    count: priceCounts[`bucket_${index}`] ?? 0
+  }));
+
+  const decadeWhere = without("minYear", "maxYear");
+  const decade = db.prepare(`
+    SELECT (year / 10) * 10 as decade, COUNT(*) as count FROM watches
+    WHERE ${decadeWhere.where} AND year IS NOT NULL
+    GROUP BY decade
+    ORDER BY decade DESC
+  `).all(decadeWhere.params) as { decade: number; count: number }[];
+
+  return {
+    brand: brand.map((row): FacetCount => ({ value: row.value, label: row.value, count: row.count })),
+    condition: condition.map((row): FacetCount => ({
+      value: row.value,
+      label: formatWatchCondition(row.value as WatchCondition),
+      count: row.count
+    })),
+    price,
+    decade: decade.map((row): FacetCount => ({ value: String(row.decade), label: `${row.decade}s`, count: row.count }))
+  };
+}
@@ -1,4 +1,6 @@
 // services/whatsapp.ts - WhatsApp Business API integration service
+import { ExternalApiError } from "../utils/errors.ts";
+import { logger } from "../utils/logger.ts";
 
 // Configuration from environment variables
 const WHATSAPP_PROVIDER = Deno.env.get("WHATSAPP_PROVIDER") || "twilio"; // twilio, meta, or mock
@@ -33,7 +35,7 @@ export async function sendWhatsAppMessage(to: string, message: string, mediaUrl?
   // Normalize phone number (ensure it has country code)
   const normalizedTo = normalizePhoneNumber(to);
   
-  console.log(`Sending WhatsApp message to ${normalizedTo} via ${WHATSAPP_PROVIDER}`);
+  logger.info("Sending WhatsApp message", { to: normalizedTo, provider: WHATSAPP_PROVIDER });
   
   const messageData: WhatsAppMessage = {
     to: normalizedTo,
@@ -63,7 +65,7 @@ export async function sendTemplateMessage(
 ): Promise<WhatsAppResponse> {
   const normalizedTo = normalizePhoneNumber(to);
   
-  console.log(`Sending WhatsApp template ${templateName} to ${normalizedTo}`);
+  logger.info("Sending WhatsApp template", { to: normalizedTo, template: templateName });
   
   const messageData: WhatsAppMessage = {
     to: normalizedTo,
@@ -85,7 +87,7 @@ export async function sendTemplateMessage(
 // Twilio WhatsApp implementation
 async function sendViaTwilio(messageData: WhatsAppMessage): Promise<WhatsAppResponse> {
   if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
-    console.warn("Twilio credentials not configured, using mock response");
+    logger.warn("Twilio credentials not configured, using mock response");
     return await sendViaMock(messageData);
   }
 
@@ -128,8 +130,7 @@ async function sendViaTwilio(messageData: WhatsAppMessage): Promise<WhatsAppResp
       provider: "twilio"
     };
   } catch (error) {
-    console.error("Twilio WhatsApp send failed:", error);
-    throw new Error(`Twilio WhatsApp send failed: ${error.message}`);
+    throw new ExternalApiError("whatsapp", "Twilio WhatsApp send failed", { cause: error });
   }
 }
 
@@ -145,7 +146,7 @@ async function sendTwilioTemplate(messageData: WhatsAppMessage): Promise<WhatsAp
 // Meta WhatsApp Business API implementation
 async function sendViaMeta(messageData: WhatsAppMessage): Promise<WhatsAppResponse> {
   if (!META_ACCESS_TOKEN || !META_PHONE_NUMBER_ID) {
-    console.warn("Meta WhatsApp credentials not configured, using mock response");
+    logger.warn("Meta WhatsApp credentials not configured, using mock response");
     return await sendViaMock(messageData);
   }
 
@@ -185,8 +186,7 @@ async function sendViaMeta(messageData: WhatsAppMessage): Promise<WhatsAppRespon
       provider: "meta"
     };
   } catch (error) {
-    console.error("Meta WhatsApp send failed:", error);
-    throw new Error(`Meta WhatsApp send failed: ${error.message}`);
+    throw new ExternalApiError("whatsapp", "Meta WhatsApp send failed", { cause: error });
   }
 }
 
@@ -239,24 +239,19 @@ async function sendMetaTemplate(messageData: WhatsAppMessage): Promise<WhatsAppR
       provider: "meta"
     };
   } catch (error) {
-    console.error("Meta WhatsApp template send failed:", error);
-    throw new Error(`Meta WhatsApp template send failed: ${error.message}`);
+    throw new ExternalApiError("whatsapp", "Meta WhatsApp template send failed", { cause: error });
   }
 }
 
 // Mock implementation for development/testing
 async function sendViaMock(messageData: WhatsAppMessage): Promise<WhatsAppResponse> {
-  console.log("🔧 MOCK WhatsApp Message:");
-  console.log(`📱 To: ${messageData.to}`);
-  console.log(`💬 Message: ${messageData.body}`);
-  if (messageData.mediaUrl) {
-    console.log(`🖼️ Media: ${messageData.mediaUrl}`);
-  }
-  if (messageData.templateName) {
-    console.log(`📋 Template: ${messageData.templateName}`);
-    console.log(`🔤 Params: ${messageData.templateParams?.join(", ")}`);
-  }
-  console.log("---");
+  logger.info("Mock WhatsApp message", {
+    to: messageData.to,
+    body: messageData.body,
+    mediaUrl: messageData.mediaUrl,
+    template: messageData.templateName,
+    templateParams: messageData.templateParams
+  });
 
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 500));
@@ -338,7 +333,7 @@ export function getMessageTemplate(templateName: string, customParams?: string[]
 // WhatsApp Business API webhook handler (for receiving messages)
 export async function handleWhatsAppWebhook(body: any): Promise<void> {
   try {
-    console.log("WhatsApp webhook received:", JSON.stringify(body, null, 2));
+    logger.debug("WhatsApp webhook received", { object: body?.object, entries: body?.entry?.length ?? 0 });
     
     // Handle different webhook events
     if (body.entry) {
@@ -361,13 +356,12 @@ export async function handleWhatsAppWebhook(body: any): Promise<void> {
       }
     }
   } catch (error) {
-    console.error("WhatsApp webhook processing error:", error);
+    logger.error("WhatsApp webhook processing failed", { error });
   }
 }
 
 async function processIncomingMessage(message: any, contact: any): Promise<void> {
-  console.log(`Incoming WhatsApp message from ${contact?.profile?.name || message.from}:`);
-  console.log(`Message: ${message.text?.body || message.type}`);
+  logger.info("Incoming WhatsApp message", { from: message.from, name: contact?.profile?.name, type: message.type });
   
   // Here you could:
   // 1. Store the message in database
@@ -386,7 +380,7 @@ async function processIncomingMessage(message: any, contact: any): Promise<void>
 }
 
 async function processMessageStatus(status: any): Promise<void> {
-  console.log(`Message ${status.id} status: ${status.status}`);
+  logger.debug("WhatsApp message status", { messageId: status.id, status: status.status });
   
   // Handle delivery confirmations, read receipts, etc.
   // You could update message status in your database here
@@ -397,10 +391,10 @@ export function verifyWhatsAppWebhook(mode: string, token: string, challenge: st
   const VERIFY_TOKEN = Deno.env.get("WHATSAPP_VERIFY_TOKEN") || "prestige_timepieces_verify_token";
   
   if (mode === "subscribe" && token === VERIFY_TOKEN) {
-    console.log("WhatsApp webhook verified successfully");
+    logger.info("WhatsApp webhook verified");
     return challenge;
   } else {
-    console.warn("WhatsApp webhook verification failed");
+    logger.warn("WhatsApp webhook verification failed");
     return null;
   }
 }
@@ -486,7 +480,7 @@ async function processMessageQueue(): Promise<void> {
         await messageFunction();
         await new Promise(resolve => setTimeout(resolve, MESSAGE_RATE_LIMIT));
       } catch (error) {
-        console.error("Queued message failed:", error);
+        logger.error("Queued WhatsApp message failed", { error });
       }
     }
   }
@@ -528,22 +522,20 @@ export async function sendWhatsAppWithRetry(
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      console.log(`WhatsApp send attempt ${attempt}/${maxRetries} to ${to}`);
       return await sendWhatsAppMessage(to, message, mediaUrl);
     } catch (error) {
       lastError = error as Error;
-      console.error(`WhatsApp send attempt ${attempt} failed:`, error);
+      logger.warn("WhatsApp send attempt failed", { attempt, maxRetries, to, error });
       
       if (attempt < maxRetries) {
         // Exponential backoff: wait 2^attempt seconds
         const waitTime = Math.pow(2, attempt) * 1000;
-        console.log(`Waiting ${waitTime}ms before retry...`);
         await new Promise(resolve => setTimeout(resolve, waitTime));
       }
     }
   }
   
-  throw new Error(`WhatsApp send failed after ${maxRetries} attempts. Last error: ${lastError?.message}`);
+  throw new ExternalApiError("whatsapp", `WhatsApp send failed after ${maxRetries} attempts`, { cause: lastError });
 }
 
 // Message formatting helpers
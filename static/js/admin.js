@@ -4,16 +4,39 @@ class AdminPanel {
         this.watches = [];
         this.currentEditId = null;
         this.isLoading = false;
+        this.accessToken = null;
+        this.refreshToken = null;
+        this.refreshTimer = null;
+        this.refreshPromise = null;
         this.init();
     }
 
     async init() {
+        this.setupEventListeners();
+        this.loadTokens();
+
+        // Arriving from a password reset email
+        this.resetToken = new URLSearchParams(window.location.search).get('reset_token');
+        if (this.resetToken) {
+            this.showLogin('resetPasswordForm');
+            return;
+        }
+
+        // Start every page load with a fresh access token (and a scheduled renewal)
+        if (!this.refreshToken || !(await this.refreshSession())) {
+            this.showLogin();
+            return;
+        }
+
         await this.loadInventory();
         this.updateStats();
-        this.setupEventListeners();
     }
 
     setupEventListeners() {
+        document.getElementById('loginForm').addEventListener('submit', (e) => this.handleLogin(e));
+        document.getElementById('twoFactorForm').addEventListener('submit', (e) => this.handleTwoFactor(e));
+        document.getElementById('forgotPasswordForm').addEventListener('submit', (e) => this.handleForgotPassword(e));
+        document.getElementById('resetPasswordForm').addEventListener('submit', (e) => this.handleResetPassword(e));
         document.getElementById('watchForm').addEventListener('submit', (e) => this.handleWatchForm(e));
         
         // Tab switching
@@ -53,11 +76,7 @@ class AdminPanel {
     async loadInventory() {
         try {
             this.setLoading(true);
-            const response = await fetch('/api/admin/watches', {
-                headers: {
-                    'Authorization': 'Bearer admin-token' // Simple auth for demo
-                }
-            });
+            const response = await this.apiFetch('/api/admin/watches');
             
             if (!response.ok) {
                 throw new Error(`HTTP error! status: ${response.status}`);
@@ -73,6 +92,7 @@ class AdminPanel {
                 this.showMessage('Failed to load inventory: ' + result.error, 'error');
             }
         } catch (error) {
+            if (error.isAuthError) return;
             console.error('Error loading inventory:', error);
             this.showMessage('Failed to connect to server. Using offline mode.', 'error');
             // Fallback to sample data for demo
@@ -255,23 +275,20 @@ class AdminPanel {
     }
 
     async createWatch(watchData) {
-        const response = await fetch('/api/admin/watches', {
+        const response = await this.apiFetch('/api/admin/watches', {
             method: 'POST',
             headers: {
-                'Content-Type': 'application/json',
-                'Authorization': 'Bearer admin-token'
+                'Content-Type': 'application/json'
             },
             body: JSON.stringify(watchData)
         });
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
         const result = await response.json();
         
-        if (!result.success) {
-            throw new Error(result.error || 'Failed to create watch');
+        if (!response.ok || !result.success) {
+            // Validation failures (422) list what is wrong with each field
+            const details = Array.isArray(result.details) ? `: ${result.details.join('. ')}` : '';
+            throw new Error((result.error || 'Failed to create watch') + details);
         }
 
         this.showMessage('Watch added successfully!', 'success');
@@ -279,23 +296,19 @@ class AdminPanel {
     }
 
     async updateWatch(id, watchData) {
-        const response = await fetch(`/api/admin/watches/${id}`, {
+        const response = await this.apiFetch(`/api/admin/watches/${id}`, {
             method: 'PUT',
             headers: {
-                'Content-Type': 'application/json',
-                'Authorization': 'Bearer admin-token'
+                'Content-Type': 'application/json'
             },
             body: JSON.stringify(watchData)
         });
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
         const result = await response.json();
         
-        if (!result.success) {
-            throw new Error(result.error || 'Failed to update watch');
+        if (!response.ok || !result.success) {
+            const details = Array.isArray(result.details) ? `: ${result.details.join('. ')}` : '';
+            throw new Error((result.error || 'Failed to update watch') + details);
         }
 
         this.showMessage('Watch updated successfully!', 'success');
@@ -350,11 +363,8 @@ class AdminPanel {
         try {
             this.setLoading(true);
             
-            const response = await fetch(`/api/admin/watches/${id}`, {
-                method: 'DELETE',
-                headers: {
-                    'Authorization': 'Bearer admin-token'
-                }
+            const response = await this.apiFetch(`/api/admin/watches/${id}`, {
+                method: 'DELETE'
             });
 
             if (!response.ok) {
@@ -585,11 +595,8 @@ class AdminPanel {
             formData.append('image', file);
 
             // Upload to server
-            const response = await fetch('/api/admin/upload', {
+            const response = await this.apiFetch('/api/admin/upload', {
                 method: 'POST',
-                headers: {
-                    'Authorization': 'Bearer admin-token'
-                },
                 body: formData
             });
 
@@ -640,9 +647,289 @@ class AdminPanel {
         this.showMessage('Image removed', 'success');
     }
 
-    logout() {
-        if (confirm('Are you sure you want to logout?')) {
-            window.close();
+    async logout() {
+        if (!confirm('Are you sure you want to logout?')) {
+            return;
+        }
+
+        try {
+            await fetch('/api/auth/logout', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.accessToken}`
+                }
+            });
+        } catch (error) {
+            console.error('Error logging out:', error);
+        }
+
+        this.clearTokens();
+        this.showLogin();
+    }
+
+    // Authentication
+
+    loadTokens() {
+        // "Remember me" logins live in localStorage, everything else ends with the browser session
+        this.tokenStorage = localStorage.getItem('refreshToken') ? localStorage : sessionStorage;
+        this.accessToken = this.tokenStorage.getItem('accessToken');
+        this.refreshToken = this.tokenStorage.getItem('refreshToken');
+    }
+
+    saveTokens(data) {
+        this.accessToken = data.token;
+        this.refreshToken = data.refresh_token;
+        this.tokenStorage.setItem('accessToken', data.token);
+        this.tokenStorage.setItem('refreshToken', data.refresh_token);
+        this.scheduleTokenRefresh(data.expires_in);
+    }
+
+    clearTokens() {
+        clearTimeout(this.refreshTimer);
+        [localStorage, sessionStorage].forEach(storage => {
+            storage.removeItem('accessToken');
+            storage.removeItem('refreshToken');
+        });
+        this.accessToken = null;
+        this.refreshToken = null;
+    }
+
+    // Renew a minute before the access token expires so staff aren't logged out mid-shift
+    scheduleTokenRefresh(expiresIn) {
+        clearTimeout(this.refreshTimer);
+        const delay = Math.max((expiresIn - 60) * 1000, 5000);
+        this.refreshTimer = setTimeout(() => this.refreshSession(), delay);
+    }
+
+    async refreshSession() {
+        if (!this.refreshToken) {
+            return false;
+        }
+
+        // Refresh tokens are single-use, so concurrent callers share one request
+        if (!this.refreshPromise) {
+            this.refreshPromise = (async () => {
+                try {
+                    const response = await fetch('/api/auth/refresh', {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json'
+                        },
+                        body: JSON.stringify({ refresh_token: this.refreshToken })
+                    });
+
+                    const result = await response.json();
+
+                    if (!response.ok || !result.success) {
+                        this.clearTokens();
+                        return false;
+                    }
+
+                    this.saveTokens(result.data);
+                    return true;
+                } catch (error) {
+                    console.error('Error refreshing session:', error);
+                    return false;
+                } finally {
+                    this.refreshPromise = null;
+                }
+            })();
+        }
+
+        return this.refreshPromise;
+    }
+
+    // fetch() wrapper that authenticates the request and retries once after a token refresh
+    async apiFetch(url, options = {}) {
+        const send = () => fetch(url, {
+            ...options,
+            headers: {
+                ...options.headers,
+                'Authorization': `Bearer ${this.accessToken}`
+            }
+        });
+
+        let response = await send();
+
+        if (response.status === 401 && await this.refreshSession()) {
+            response = await send();
+        }
+
+        if (response.status === 401) {
+            this.clearTokens();
+            this.showLogin();
+            const error = new Error('Your session has expired. Please log in again.');
+            error.isAuthError = true;
+            throw error;
+        }
+
+        return response;
+    }
+
+    showLogin(formId = 'loginForm') {
+        ['loginForm', 'twoFactorForm', 'forgotPasswordForm', 'resetPasswordForm'].forEach(id => {
+            document.getElementById(id).style.display = id === formId ? 'block' : 'none';
+        });
+        ['loginError', 'twoFactorMessage', 'forgotMessage', 'resetMessage'].forEach(id => {
+            document.getElementById(id).textContent = '';
+        });
+        document.getElementById('loginOverlay').style.display = 'flex';
+    }
+
+    hideLogin() {
+        document.getElementById('loginOverlay').style.display = 'none';
+    }
+
+    async handleLogin(event) {
+        event.preventDefault();
+
+        const form = event.target;
+        const rememberMe = document.getElementById('rememberMe').checked;
+
+        try {
+            const response = await fetch('/api/auth/login', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    username: document.getElementById('loginUsername').value,
+                    password: document.getElementById('loginPassword').value,
+                    remember_me: rememberMe
+                })
+            });
+
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || 'Login failed');
+            }
+
+            form.reset();
+
+            // Password accepted; the account also needs a code from the authenticator app
+            if (result.data.two_factor_required) {
+                this.loginChallenge = { token: result.data.challenge_token, rememberMe };
+                this.showLogin('twoFactorForm');
+                document.getElementById('twoFactorCode').focus();
+                return;
+            }
+
+            await this.completeLogin(result.data, rememberMe);
+        } catch (error) {
+            document.getElementById('loginError').textContent = error.message;
+        }
+    }
+
+    async handleTwoFactor(event) {
+        event.preventDefault();
+
+        const message = document.getElementById('twoFactorMessage');
+        const value = document.getElementById('twoFactorCode').value.trim();
+
+        if (!this.loginChallenge) {
+            this.showLogin();
+            return;
+        }
+
+        // Six digits is an authenticator code; anything else is treated as a recovery code
+        const secondFactor = /^\d{6}$/.test(value.replace(/\s+/g, '')) ? { code: value } : { recovery_code: value };
+
+        try {
+            const response = await fetch('/api/auth/login/2fa', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ challenge_token: this.loginChallenge.token, ...secondFactor })
+            });
+
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || 'Verification failed');
+            }
+
+            const { rememberMe } = this.loginChallenge;
+            this.loginChallenge = null;
+            event.target.reset();
+
+            await this.completeLogin(result.data, rememberMe);
+        } catch (error) {
+            message.textContent = error.message;
+        }
+    }
+
+    async completeLogin(data, rememberMe) {
+        this.clearTokens();
+        this.tokenStorage = rememberMe ? localStorage : sessionStorage;
+        this.saveTokens(data);
+
+        this.hideLogin();
+
+        await this.loadInventory();
+    }
+
+    async handleForgotPassword(event) {
+        event.preventDefault();
+
+        const message = document.getElementById('forgotMessage');
+
+        try {
+            const response = await fetch('/api/auth/password-reset/request', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ email: document.getElementById('forgotEmail').value })
+            });
+
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || 'Failed to request password reset');
+            }
+
+            event.target.reset();
+            message.textContent = result.message;
+        } catch (error) {
+            message.textContent = error.message;
+        }
+    }
+
+    async handleResetPassword(event) {
+        event.preventDefault();
+
+        const message = document.getElementById('resetMessage');
+
+        try {
+            const response = await fetch('/api/auth/password-reset/confirm', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    token: this.resetToken,
+                    new_password: document.getElementById('resetPassword').value,
+                    confirm_password: document.getElementById('resetPasswordConfirm').value
+                })
+            });
+
+            const result = await response.json();
+
+            if (!response.ok || !result.success) {
+                const details = Array.isArray(result.details) ? ` ${result.details.join('. ')}` : '';
+                throw new Error((result.error || 'Failed to reset password') + details);
+            }
+
+            // Drop the spent token from the address bar before returning to the login form
+            this.resetToken = null;
+            window.history.replaceState({}, '', window.location.pathname);
+            event.target.reset();
+            this.showLogin();
+            document.getElementById('loginError').textContent = result.message;
+        } catch (error) {
+            message.textContent = error.message;
         }
     }
 }
@@ -677,3 +964,15 @@ function removeImage() {
         adminPanel.removeImage();
     }
 }
+
+function showForgotPassword() {
+    if (adminPanel) {
+        adminPanel.showLogin('forgotPasswordForm');
+    }
+}
+
+function showLoginForm() {
+    if (adminPanel) {
+        adminPanel.showLogin();
+    }
+}
@@ -14,21 +14,34 @@ class WatchWebsite {
     async loadWatches() {
         try {
             this.setLoading(true);
-            const response = await fetch('/api/watches');
+            const watches = [];
+            let cursor = null;
             
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-            
-            const result = await response.json();
+            // The catalog is paginated; follow the cursor until every page is loaded
+            do {
+                const params = new URLSearchParams({ limit: '100' });
+                if (cursor) params.set('cursor', cursor);
+                
+                const response = await fetch(`/api/watches?${params}`);
+                
+                if (!response.ok) {
+                    throw new Error(`HTTP error! status: ${response.status}`);
+                }
+                
+                const result = await response.json();
+                
+                if (!result.success) {
+                    console.error('Failed to load watches:', result.error);
+                    this.loadSampleData();
+                    return;
+                }
+                
+                watches.push(...result.data);
+                cursor = result.pagination?.nextCursor || null;
+            } while (cursor);
             
-            if (result.success) {
-                this.watches = result.data;
-                this.renderWatches();
-            } else {
-                console.error('Failed to load watches:', result.error);
-                this.loadSampleData();
-            }
+            this.watches = watches;
+            this.renderWatches();
         } catch (error) {
             console.error('Error loading watches:', error);
             // Fallback to sample data if API fails
@@ -163,6 +176,7 @@ class WatchWebsite {
         const sellForm = document.getElementById('sellForm');
         if (sellForm) {
             sellForm.addEventListener('submit', (e) => this.handleSellForm(e));
+            this.loadFormToken(sellForm);
         }
 
         // Smooth scrolling for navigation links
@@ -233,20 +247,34 @@ class WatchWebsite {
         window.open(whatsappUrl, '_blank');
     }
 
+    // The spam check times the form from this token, so fetch a fresh one whenever the form is shown
+    async loadFormToken(form) {
+        try {
+            const response = await fetch('/api/form-token');
+            const result = await response.json();
+            form.elements.form_token.value = result.data.token;
+        } catch (error) {
+            console.error('Failed to load form token:', error);
+        }
+    }
+
     async handleSellForm(event) {
         event.preventDefault();
         
-        const formData = new FormData(event.target);
+        const form = event.target;
+        const formData = new FormData(form);
         const watchData = {
             brand: formData.get('brand'),
             model: formData.get('model'),
-            year: formData.get('year'),
+            year: formData.get('year') ? Number(formData.get('year')) : undefined,
             condition: formData.get('condition'),
             accessories: formData.get('accessories'),
             description: formData.get('description'),
-            name: formData.get('name'),
-            phone: formData.get('phone'),
-            email: formData.get('email')
+            customer_name: formData.get('name'),
+            customer_phone: formData.get('phone'),
+            customer_email: formData.get('email'),
+            website: formData.get('website'),
+            form_token: formData.get('form_token')
         };
 
         // Show loading state
@@ -256,27 +284,25 @@ class WatchWebsite {
         submitBtn.disabled = true;
 
         try {
-            // Simulate API call (replace with actual endpoint)
-            await new Promise(resolve => setTimeout(resolve, 2000));
+            const response = await fetch('/api/sell', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(watchData)
+            });
+            const result = await response.json();
 
-            // Create WhatsApp message
-            const message = `New Watch Submission:
-Brand: ${watchData.brand}
-Model: ${watchData.model}
-Year: ${watchData.year}
-Condition: ${watchData.condition}
-Accessories: ${watchData.accessories}
-Description: ${watchData.description}
-Contact: ${watchData.name} (${watchData.phone}, ${watchData.email})`;
+            if (!response.ok || !result.success) {
+                const fieldErrors = result.fields ? Object.values(result.fields).flat() : [];
+                this.showMessage(fieldErrors[0] || result.error || 'Failed to submit. Please try again.', 'error');
+                return;
+            }
 
             // Show success message
             this.showMessage('Thank you! We\'ll contact you within 24 hours with a quote.', 'success');
 
-            // Reset form
-            event.target.reset();
-
-            // Open WhatsApp with pre-filled message
-            this.openWhatsApp(message);
+            // Reset form; the next submission needs its own token
+            form.reset();
+            this.loadFormToken(form);
 
         } catch (error) {
             this.showMessage('Failed to submit. Please try again.', 'error');
@@ -0,0 +1,182 @@
+// tests/api_test.ts - Docs, health, settings, integration keys, audit log and integration routes
+import { assert, assertEquals, assertExists, assertNotEquals } from "@std/assert";
+import { routeTest } from "./helpers.ts";
+
+routeTest("GET /api/docs and /api/health are public", async (server) => {
+  const docs = await server.get("/api/docs");
+  assertEquals(docs.status, 200);
+  assertExists(docs.body.endpoints);
+
+  const health = await server.get("/api/health");
+  assertEquals(health.status, 200);
+  assertEquals(health.body.status, "healthy");
+});
+
+routeTest("Unknown API paths return 404 in the error envelope", async (server) => {
+  const response = await server.get("/api/does-not-exist");
+
+  assertEquals(response.status, 404);
+  assertEquals(response.body.success, false);
+  assertEquals(response.body.code, "NOT_FOUND");
+  assertEquals(response.body.path, "/api/does-not-exist");
+  assertEquals(response.body.method, "GET");
+  assertExists(response.body.timestamp);
+  assertEquals(response.body.requestId, response.headers.get("X-Request-Id"));
+});
+
+routeTest("Every response carries a request id, reusing a forwarded one", async (server) => {
+  const generated = await server.get("/api/health");
+  assertExists(generated.headers.get("X-Request-Id"));
+
+  const forwarded = await server.get("/api/watches/9999", { headers: { "X-Request-Id": "proxy-abc.123" } });
+  assertEquals(forwarded.headers.get("X-Request-Id"), "proxy-abc.123");
+  assertEquals(forwarded.body.requestId, "proxy-abc.123");
+
+  const unsafe = await server.get("/api/health", { headers: { "X-Request-Id": "not a valid id!" } });
+  assertNotEquals(unsafe.headers.get("X-Request-Id"), "not a valid id!");
+});
+
+routeTest("GET and PUT /api/settings read and update settings", async (server) => {
+  const token = await server.login();
+
+  const before = await server.get("/api/settings", { token });
+  assertEquals(before.status, 200);
+  assertEquals(before.body.data.company_name.value, "Prestige Timepieces");
+
+  const updated = await server.put("/api/settings", {
+    token,
+    body: { company_name: "Prestige Watches", opening_hours: "9-5" }
+  });
+  assertEquals(updated.status, 200);
+  assertEquals(updated.body.updated, ["company_name", "opening_hours"]);
+
+  const after = await server.get("/api/settings", { token });
+  assertEquals(after.body.data.company_name.value, "Prestige Watches");
+  assertEquals(after.body.data.opening_hours.value, "9-5");
+});
+
+routeTest("PUT /api/settings rejects malformed keys and values", async (server) => {
+  const token = await server.login();
+
+  const response = await server.put("/api/settings", {
+    token,
+    body: { "Company Name": "Bad key", opening_hours: { from: 9 } }
+  });
+
+  assertEquals(response.status, 422);
+  assertEquals(response.body.code, "VALIDATION_ERROR");
+  assertEquals(Object.keys(response.body.fields).length, 2);
+});
+
+routeTest("/api/settings needs the settings permissions", async (server) => {
+  const anonymous = await server.get("/api/settings");
+  assertEquals(anonymous.status, 401);
+
+  const manager = await server.createUser("manager");
+  const read = await server.get("/api/settings", { token: manager.token });
+  assertEquals(read.status, 403);
+
+  const write = await server.put("/api/settings", { token: manager.token, body: { company_name: "Nope" } });
+  assertEquals(write.status, 403);
+});
+
+routeTest("GET /api/keys/status and POST /api/keys manage integration keys", async (server) => {
+  const token = await server.login();
+
+  const status = await server.get("/api/keys/status", { token });
+  assertEquals(status.status, 200);
+  assertEquals(status.body.success, true);
+
+  const missing = await server.post("/api/keys", { token, body: { service: "watchcharts" } });
+  assertEquals(missing.status, 422);
+  assertExists(missing.body.fields.key_name);
+
+  const created = await server.post("/api/keys", {
+    token,
+    body: { service: "watchcharts", key_name: "api_key", key_value: "test-key" }
+  });
+  assertEquals(created.status, 201);
+  assertExists(created.body.data.id);
+
+  const staff = await server.createUser("staff");
+  const forbidden = await server.post("/api/keys", {
+    token: staff.token,
+    body: { service: "watchcharts", key_name: "api_key", key_value: "test-key" }
+  });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("GET /api/admin/audit-logs records admin changes", async (server) => {
+  const token = await server.login();
+  await server.put("/api/settings", { token, body: { company_name: "Audited" } });
+
+  const response = await server.get("/api/admin/audit-logs?resource_type=settings", { token });
+  assertEquals(response.status, 200);
+  assertEquals(response.body.total, 1);
+  assertEquals(response.body.data[0].action, "update");
+
+  const viewer = await server.createUser("viewer");
+  const forbidden = await server.get("/api/admin/audit-logs", { token: viewer.token });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("WatchCharts routes require auth and validate input", async (server) => {
+  const anonymous = await server.post("/api/watchcharts/search", { body: { brand: "Rolex", reference: "116610LN" } });
+  assertEquals(anonymous.status, 401);
+
+  const lookup = await server.get("/api/watchcharts/watch/some-uuid");
+  assertEquals(lookup.status, 401);
+
+  const token = await server.login();
+  const missing = await server.post("/api/watchcharts/search", { token, body: { brand: "Rolex" } });
+  assertEquals(missing.status, 400);
+
+  const viewer = await server.createUser("viewer");
+  const forbidden = await server.post("/api/watchcharts/search", {
+    token: viewer.token,
+    body: { brand: "Rolex", reference: "116610LN" }
+  });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("WhatsApp routes send through the configured provider", async (server) => {
+  const token = await server.login();
+
+  const missing = await server.post("/api/whatsapp/send", { token, body: { to: "+15551234567" } });
+  assertEquals(missing.status, 400);
+
+  const sent = await server.post("/api/whatsapp/send", { token, body: { to: "+15551234567", message: "Hello" } });
+  assertEquals(sent.status, 200);
+  assertEquals(sent.body.success, true);
+
+  const test = await server.post("/api/test/whatsapp", { token });
+  assertEquals(test.status, 200);
+
+  const staff = await server.createUser("staff");
+  const forbidden = await server.post("/api/whatsapp/send", {
+    token: staff.token,
+    body: { to: "+15551234567", message: "Hello" }
+  });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("POST /api/admin/upload requires watches:update", async (server) => {
+  const anonymous = await server.post("/api/admin/upload");
+  assertEquals(anonymous.status, 401);
+
+  const viewer = await server.createUser("viewer");
+  const forbidden = await server.post("/api/admin/upload", { token: viewer.token });
+  assertEquals(forbidden.status, 403);
+  assert(!forbidden.body.success);
+});
+
+routeTest("POST /api/admin/upload checks the real file type, not the declared one", async (server) => {
+  const token = await server.login();
+  const form = new FormData();
+  form.append("image", new File(["<script>alert(1)</script>"], "watch.jpg", { type: "image/jpeg" }));
+
+  const response = await server.post("/api/admin/upload", { token, body: form });
+
+  assertEquals(response.status, 415);
+  assertEquals(response.body.code, "UNSUPPORTED_FILE_TYPE");
+});
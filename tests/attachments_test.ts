@@ -0,0 +1,141 @@
+// tests/attachments_test.ts - Private documents for watches and sell submissions, and signed download links
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { createDownloadLink, getAttachment } from "../services/attachments.ts";
+import { attachmentDisposition, sniffDocumentType } from "../utils/documents.ts";
+import { routeTest, TestServer } from "./helpers.ts";
+
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n");
+
+function pdfForm(name = "warranty-card.pdf", category?: string): FormData {
+  const form = new FormData();
+  form.append("file", new File([PDF_BYTES], name, { type: "application/pdf" }));
+  form.append("description", "Warranty card, stamped 2019");
+  if (category) form.append("category", category);
+  return form;
+}
+
+async function uploadToWatch(server: TestServer, token: string, form: FormData = pdfForm()) {
+  return await server.post("/api/admin/watches/1/attachments", { token, body: form });
+}
+
+Deno.test("sniffDocumentType trusts bytes, and names only where containers are ambiguous", () => {
+  assertEquals(sniffDocumentType(PDF_BYTES, "receipt.txt")?.mimeType, "application/pdf");
+  assertEquals(sniffDocumentType(new TextEncoder().encode("Serviced 2023-04-01"), "service.txt")?.mimeType, "text/plain");
+  assertEquals(sniffDocumentType(new TextEncoder().encode("<html><script>"), "certificate.pdf"), null);
+  assertEquals(sniffDocumentType(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0]), "archive.docx"), null);
+});
+
+Deno.test("attachmentDisposition always downloads and keeps the header safe", () => {
+  const header = attachmentDisposition('Zertifikat "Süß"\r\n.pdf', "pdf");
+
+  assert(header.startsWith("attachment; "));
+  assert(!header.includes("\r") && !header.includes("\n"));
+  assertStringIncludes(header, 'filename="Zertifikat S__.pdf"');
+  assertStringIncludes(header, "filename*=UTF-8''Zertifikat%20S%C3%BC%C3%9F.pdf");
+});
+
+routeTest("POST /api/admin/watches/:id/attachments stores a document privately", async (server) => {
+  const token = await server.login();
+
+  const response = await uploadToWatch(server, token, pdfForm("warranty-card.pdf", "certificate"));
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.category, "certificate");
+  assertEquals(response.body.data.mime_type, "application/pdf");
+  assertEquals(response.body.data.original_name, "warranty-card.pdf");
+  assertEquals(response.body.data.stored_name, undefined);
+  assertEquals(response.body.data.url, undefined);
+
+  const list = await server.get("/api/admin/watches/1/attachments", { token });
+  assertEquals(list.body.count, 1);
+  assertEquals(list.body.data[0].description, "Warranty card, stamped 2019");
+});
+
+routeTest("POST /api/admin/watches/:id/attachments checks the real type and the category", async (server) => {
+  const token = await server.login();
+  const disguised = new FormData();
+  disguised.append("file", new File(["<html><script>alert(1)</script>"], "certificate.pdf", { type: "application/pdf" }));
+
+  const rejected = await uploadToWatch(server, token, disguised);
+  assertEquals(rejected.status, 415);
+  assertEquals(rejected.body.code, "UNSUPPORTED_FILE_TYPE");
+
+  const badCategory = await uploadToWatch(server, token, pdfForm("receipt.pdf", "invoice"));
+  assertEquals(badCategory.status, 422);
+  assert(badCategory.body.fields.category);
+});
+
+routeTest("Attachment uploads need update permission and an existing owner", async (server) => {
+  const viewer = await server.createUser("viewer");
+  assertEquals((await uploadToWatch(server, viewer.token)).status, 403);
+
+  const token = await server.login();
+  const missing = await server.post("/api/admin/sell-submissions/999/attachments", { token, body: pdfForm() });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("Sell submissions take attachments too", async (server) => {
+  const token = await server.login();
+  server.db.prepare(`
+    INSERT INTO sell_submissions (brand, model, condition, customer_name, customer_email, customer_phone)
+    VALUES ('Omega', 'Seamaster', 'good', 'Sam Seller', 'sam@example.com', '+15555550100')
+  `).run();
+
+  const response = await server.post("/api/admin/sell-submissions/1/attachments", { token, body: pdfForm("receipt.pdf") });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.owner_type, "sell_submission");
+  assertEquals((await server.get("/api/admin/watches/1/attachments", { token })).body.count, 0);
+});
+
+routeTest("Signed links download the file without an Authorization header", async (server) => {
+  const token = await server.login();
+  const id = (await uploadToWatch(server, token)).body.data.id;
+
+  const link = await server.post(`/api/admin/attachments/${id}/link`, { token });
+  assertEquals(link.status, 200);
+  assert(Date.parse(link.body.data.expires_at) > Date.now());
+
+  const download = await server.get(link.body.data.url);
+  assertEquals(download.status, 200);
+  assertEquals(download.body, new TextDecoder().decode(PDF_BYTES));
+  assertEquals(download.headers.get("Content-Type"), "application/pdf");
+  assertStringIncludes(download.headers.get("Content-Disposition") ?? "", "attachment;");
+  assertEquals(download.headers.get("Cache-Control"), "private, no-store");
+
+  // An edited expiry breaks the signature, and a link without one is refused outright
+  const tampered = link.body.data.url.replace(/expires=(\d+)/, (_: string, value: string) => `expires=${Number(value) + 3600}`);
+  assertEquals((await server.get(tampered)).status, 403);
+  assertEquals((await server.get(`/api/attachments/${id}/download`)).status, 403);
+});
+
+routeTest("Expired links and links of deactivated users are refused", async (server) => {
+  const token = await server.login();
+  const viewer = await server.createUser("viewer");
+  const id = (await uploadToWatch(server, token)).body.data.id;
+  const attachment = getAttachment(server.db, id);
+
+  const expired = await createDownloadLink(attachment, viewer.id, Date.now() - 60 * 60 * 1000);
+  const refused = await server.get(expired.url);
+  assertEquals(refused.status, 403);
+  assertEquals(refused.body.code, "TOKEN_EXPIRED");
+
+  const link = await server.post(`/api/admin/attachments/${id}/link`, { token: viewer.token });
+  assertEquals(link.status, 200);
+  server.db.prepare("UPDATE admin_users SET is_active = 0 WHERE id = ?").run([viewer.id]);
+  assertEquals((await server.get(link.body.data.url)).status, 403);
+});
+
+routeTest("DELETE /api/admin/attachments/:id removes the attachment", async (server) => {
+  const token = await server.login();
+  const id = (await uploadToWatch(server, token)).body.data.id;
+  const link = (await server.post(`/api/admin/attachments/${id}/link`, { token })).body.data;
+
+  const viewer = await server.createUser("viewer");
+  assertEquals((await server.delete(`/api/admin/attachments/${id}`, { token: viewer.token })).status, 403);
+
+  const response = await server.delete(`/api/admin/attachments/${id}`, { token });
+  assertEquals(response.status, 200);
+  assertEquals((await server.get("/api/admin/watches/1/attachments", { token })).body.count, 0);
+  assertEquals((await server.get(link.url)).status, 404);
+});
@@ -0,0 +1,393 @@
+// tests/auth_test.ts - Login, sessions, API tokens, password recovery and two-factor routes
+import { assert, assertEquals, assertExists, assertNotEquals, assertStringIncludes } from "@std/assert";
+import { AUTH_CONFIG } from "../utils/constants.ts";
+import { generateTotp, TOTP_PERIOD } from "../utils/totp.ts";
+import { ADMIN_PASSWORD, routeTest, STRONG_PASSWORD, TestServer } from "./helpers.ts";
+
+const NEW_PASSWORD = "N3w!Secure#Pass";
+
+// Enrolls the logged-in user in 2FA; returns the secret and recovery codes
+async function enableTwoFactor(server: TestServer, token: string): Promise<{ secret: string; recoveryCodes: string[] }> {
+  const setup = await server.post("/api/auth/2fa/setup", { token });
+  assertEquals(setup.status, 200);
+  const secret = setup.body.data.secret;
+
+  const enabled = await server.post("/api/auth/2fa/enable", { token, body: { code: await generateTotp(secret) } });
+  assertEquals(enabled.status, 200);
+
+  return { secret, recoveryCodes: enabled.body.data.recovery_codes };
+}
+
+routeTest("POST /api/auth/login issues an access token and refresh token", async (server) => {
+  const response = await server.post("/api/auth/login", { body: { username: "admin", password: ADMIN_PASSWORD } });
+
+  assertEquals(response.status, 200);
+  assertExists(response.body.data.token);
+  assertExists(response.body.data.refresh_token);
+  assertExists(response.body.data.session_id);
+  assertEquals(response.body.data.user.role, "admin");
+});
+
+routeTest("POST /api/auth/login validates input and rejects bad credentials", async (server) => {
+  const missing = await server.post("/api/auth/login", { body: { username: "admin" } });
+  assertEquals(missing.status, 400);
+
+  const wrong = await server.post("/api/auth/login", { body: { username: "admin", password: "wrong" } });
+  assertEquals(wrong.status, 401);
+  assertEquals(wrong.body.code, "INVALID_CREDENTIALS");
+
+  const unknown = await server.post("/api/auth/login", { body: { username: "nobody", password: "wrong" } });
+  assertEquals(unknown.status, 401);
+});
+
+routeTest("POST /api/auth/login locks the account after repeated failures", async (server) => {
+  let response = await server.post("/api/auth/login", { body: { username: "admin", password: "wrong" } });
+  for (let attempt = 1; attempt < AUTH_CONFIG.MAX_LOGIN_ATTEMPTS; attempt++) {
+    assertEquals(response.status, 401);
+    response = await server.post("/api/auth/login", { body: { username: "admin", password: "wrong" } });
+  }
+
+  assertEquals(response.status, 423);
+  assertEquals(response.body.code, "ACCOUNT_LOCKED");
+  assertExists(response.headers.get("Retry-After"));
+
+  // Even the right password is refused while locked
+  const locked = await server.post("/api/auth/login", { body: { username: "admin", password: ADMIN_PASSWORD } });
+  assertEquals(locked.status, 423);
+});
+
+routeTest("GET /api/auth/me returns the current user", async (server) => {
+  const token = await server.login();
+
+  const response = await server.get("/api/auth/me", { token });
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.username, "admin");
+
+  const anonymous = await server.get("/api/auth/me");
+  assertEquals(anonymous.status, 401);
+
+  const garbage = await server.get("/api/auth/me", { token: "not-a-jwt" });
+  assertEquals(garbage.status, 401);
+});
+
+routeTest("POST /api/auth/refresh rotates the refresh token and rejects reuse", async (server) => {
+  const login = await server.loginResponse();
+
+  const refreshed = await server.post("/api/auth/refresh", { body: { refresh_token: login.refresh_token } });
+  assertEquals(refreshed.status, 200);
+  assertNotEquals(refreshed.body.data.refresh_token, login.refresh_token);
+  assertEquals(refreshed.body.data.session_id, login.session_id);
+
+  const reused = await server.post("/api/auth/refresh", { body: { refresh_token: login.refresh_token } });
+  assertEquals(reused.status, 401);
+
+  const missing = await server.post("/api/auth/refresh", { body: {} });
+  assertEquals(missing.status, 400);
+});
+
+routeTest("POST /api/auth/logout ends the session behind the access token", async (server) => {
+  const token = await server.login();
+
+  const response = await server.post("/api/auth/logout", { token });
+  assertEquals(response.status, 200);
+
+  const after = await server.get("/api/auth/me", { token });
+  assertEquals(after.status, 401);
+});
+
+routeTest("GET and DELETE /api/auth/sessions manage the user's sessions", async (server) => {
+  const first = await server.loginResponse();
+  const second = await server.loginResponse();
+
+  const list = await server.get("/api/auth/sessions", { token: second.token });
+  assertEquals(list.status, 200);
+  assertEquals(list.body.data.total_sessions, 2);
+  assertEquals(list.body.data.current.id, second.session_id);
+
+  const revokeOne = await server.delete(`/api/auth/sessions/${first.session_id}`, { token: second.token });
+  assertEquals(revokeOne.status, 200);
+  assertEquals((await server.get("/api/auth/me", { token: first.token })).status, 401);
+
+  const unknown = await server.delete("/api/auth/sessions/does-not-exist", { token: second.token });
+  assertEquals(unknown.status, 404);
+
+  const third = await server.login();
+  const revokeOthers = await server.delete("/api/auth/sessions", { token: second.token });
+  assertEquals(revokeOthers.status, 200);
+  assertEquals(revokeOthers.body.revoked, 1);
+  assertEquals((await server.get("/api/auth/me", { token: third })).status, 401);
+  assertEquals((await server.get("/api/auth/me", { token: second.token })).status, 200);
+});
+
+routeTest("GET and DELETE /api/admin/users/:id/sessions manage another user's sessions", async (server) => {
+  const staff = await server.createUser("staff");
+  const token = await server.login();
+
+  const list = await server.get(`/api/admin/users/${staff.id}/sessions`, { token });
+  assertEquals(list.status, 200);
+  assertEquals(list.body.data.length, 1);
+
+  const revoked = await server.delete(`/api/admin/users/${staff.id}/sessions`, { token });
+  assertEquals(revoked.status, 200);
+  assertEquals((await server.get("/api/auth/me", { token: staff.token })).status, 401);
+
+  const malformed = await server.get("/api/admin/users/abc/sessions", { token });
+  assertEquals(malformed.status, 400);
+
+  const staffToken = await server.login(staff.username, staff.password);
+  const forbidden = await server.get(`/api/admin/users/${staff.id}/sessions`, { token: staffToken });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("POST /api/auth/change-password enforces the policy and the current password", async (server) => {
+  const token = await server.login();
+
+  const missing = await server.post("/api/auth/change-password", { token, body: { newPassword: NEW_PASSWORD } });
+  assertEquals(missing.status, 400);
+
+  const weak = await server.post("/api/auth/change-password", {
+    token,
+    body: { currentPassword: ADMIN_PASSWORD, newPassword: "short" }
+  });
+  assertEquals(weak.status, 422);
+  assert(weak.body.fields.newPassword.length >= 1);
+
+  const wrongCurrent = await server.post("/api/auth/change-password", {
+    token,
+    body: { currentPassword: "not-it", newPassword: NEW_PASSWORD }
+  });
+  assertEquals(wrongCurrent.status, 400);
+
+  const changed = await server.post("/api/auth/change-password", {
+    token,
+    body: { currentPassword: ADMIN_PASSWORD, newPassword: NEW_PASSWORD }
+  });
+  assertEquals(changed.status, 200);
+
+  const oldLogin = await server.post("/api/auth/login", { body: { username: "admin", password: ADMIN_PASSWORD } });
+  assertEquals(oldLogin.status, 401);
+  await server.login("admin", NEW_PASSWORD);
+});
+
+async function waitForMail(server: TestServer, count: number): Promise<void> {
+  for (let attempt = 0; attempt < 100 && server.outbox.length < count; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assertEquals(server.outbox.length, count);
+}
+
+routeTest("Password reset emails a single-use token that sets a new password", async (server) => {
+  const unknown = await server.post("/api/auth/password-reset/request", { body: { email: "nobody@example.com" } });
+  assertEquals(unknown.status, 200);
+  assertEquals(server.outbox.length, 0);
+
+  const missingEmail = await server.post("/api/auth/password-reset/request", { body: {} });
+  assertEquals(missingEmail.status, 400);
+
+  const requested = await server.post("/api/auth/password-reset/request", {
+    body: { email: "admin@prestigetimepieces.com" }
+  });
+  assertEquals(requested.status, 200);
+  // The email goes out after the response
+  await waitForMail(server, 1);
+
+  const match = server.outbox[0].text.match(/reset_token=([^\s]+)/);
+  assertExists(match);
+  const resetToken = decodeURIComponent(match[1]);
+
+  const mismatch = await server.post("/api/auth/password-reset/confirm", {
+    body: { token: resetToken, new_password: NEW_PASSWORD, confirm_password: "different" }
+  });
+  assertEquals(mismatch.status, 400);
+
+  const confirmed = await server.post("/api/auth/password-reset/confirm", {
+    body: { token: resetToken, new_password: NEW_PASSWORD, confirm_password: NEW_PASSWORD }
+  });
+  assertEquals(confirmed.status, 200);
+  await server.login("admin", NEW_PASSWORD);
+
+  const reused = await server.post("/api/auth/password-reset/confirm", {
+    body: { token: resetToken, new_password: STRONG_PASSWORD, confirm_password: STRONG_PASSWORD }
+  });
+  assertEquals(reused.status, 400);
+});
+
+routeTest("API tokens authenticate with their scopes and stop working once revoked", async (server) => {
+  const token = await server.login();
+
+  const invalid = await server.post("/api/auth/tokens", { token, body: { name: "ci", scopes: ["nonsense"] } });
+  assertEquals(invalid.status, 400);
+  assert(invalid.body.details.length >= 1);
+
+  const unnamed = await server.post("/api/auth/tokens", { token, body: { scopes: ["watches:list"] } });
+  assertEquals(unnamed.status, 400);
+
+  const created = await server.post("/api/auth/tokens", { token, body: { name: "ci", scopes: ["watches:list"] } });
+  assertEquals(created.status, 201);
+  const apiToken = created.body.data.token;
+
+  const allowed = await server.get("/api/admin/watches", { token: apiToken });
+  assertEquals(allowed.status, 200);
+
+  const outOfScope = await server.get("/api/admin/users", { token: apiToken });
+  assertEquals(outOfScope.status, 403);
+
+  const mine = await server.get("/api/auth/tokens", { token });
+  assertEquals(mine.status, 200);
+  assertEquals(mine.body.data.length, 1);
+  assertEquals(mine.body.data[0].token, undefined);
+
+  const all = await server.get("/api/admin/api-tokens", { token });
+  assertEquals(all.status, 200);
+  assertEquals(all.body.count, 1);
+
+  const revoked = await server.delete(`/api/auth/tokens/${created.body.data.id}`, { token });
+  assertEquals(revoked.status, 200);
+
+  const afterRevoke = await server.get("/api/admin/watches", { token: apiToken });
+  assertEquals(afterRevoke.status, 401);
+
+  const missing = await server.delete("/api/auth/tokens/9999", { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("POST /api/auth/tokens is forbidden without api_tokens:create", async (server) => {
+  const viewer = await server.createUser("viewer");
+
+  const response = await server.post("/api/auth/tokens", {
+    token: viewer.token,
+    body: { name: "viewer", scopes: ["watches:list"] }
+  });
+
+  assertEquals(response.status, 403);
+});
+
+routeTest("GET /api/admin/security-events records failed logins", async (server) => {
+  await server.post("/api/auth/login", { body: { username: "admin", password: "wrong" } });
+  const token = await server.login();
+
+  const response = await server.get("/api/admin/security-events?event_type=login_failure", { token });
+  assertEquals(response.status, 200);
+  assert(response.body.data.length >= 1);
+
+  const viewer = await server.createUser("viewer");
+  const forbidden = await server.get("/api/admin/security-events", { token: viewer.token });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("POST /api/auth/create-user creates a viewer by default", async (server) => {
+  const token = await server.login();
+
+  const created = await server.post("/api/auth/create-user", {
+    token,
+    body: { username: "legacy_user", email: "legacy@example.com", password: STRONG_PASSWORD }
+  });
+  assertEquals(created.status, 201);
+
+  const duplicate = await server.post("/api/auth/create-user", {
+    token,
+    body: { username: "legacy_user", email: "legacy@example.com", password: STRONG_PASSWORD }
+  });
+  assertEquals(duplicate.status, 400);
+
+  const missing = await server.post("/api/auth/create-user", { token, body: { username: "incomplete" } });
+  assertEquals(missing.status, 422);
+  assertExists(missing.body.fields.password);
+
+  const invalid = await server.post("/api/auth/create-user", {
+    token,
+    body: { username: "x", email: "not-an-email", password: "weak" }
+  });
+  assertEquals(invalid.status, 422);
+  assertEquals(invalid.body.code, "VALIDATION_ERROR");
+  assertExists(invalid.body.fields.username);
+  assertExists(invalid.body.fields.email);
+});
+
+routeTest("Two-factor enrollment turns login into a two-step challenge", async (server) => {
+  const token = await server.login();
+
+  const status = await server.get("/api/auth/2fa", { token });
+  assertEquals(status.status, 200);
+  assertEquals(status.body.data.enabled, false);
+
+  const noSetup = await server.post("/api/auth/2fa/enable", { token, body: { code: "123456" } });
+  assertEquals(noSetup.status, 409);
+
+  const setup = await server.post("/api/auth/2fa/setup", { token });
+  assertStringIncludes(setup.body.data.otpauth_uri, "otpauth://");
+
+  const missingCode = await server.post("/api/auth/2fa/enable", { token, body: {} });
+  assertEquals(missingCode.status, 400);
+
+  const { recoveryCodes } = await enableTwoFactor(server, token);
+  assert(recoveryCodes.length > 0);
+
+  const again = await server.post("/api/auth/2fa/setup", { token });
+  assertEquals(again.status, 409);
+
+  const login = await server.post("/api/auth/login", { body: { username: "admin", password: ADMIN_PASSWORD } });
+  assertEquals(login.status, 200);
+  assertEquals(login.body.data.two_factor_required, true);
+  assertEquals(login.body.data.token, undefined);
+
+  const challenge = login.body.data.challenge_token;
+
+  const incomplete = await server.post("/api/auth/login/2fa", { body: { challenge_token: challenge } });
+  assertEquals(incomplete.status, 400);
+
+  const wrong = await server.post("/api/auth/login/2fa", { body: { challenge_token: challenge, code: "000000" } });
+  assertEquals(wrong.status, 401);
+
+  const completed = await server.post("/api/auth/login/2fa", {
+    body: { challenge_token: challenge, recovery_code: recoveryCodes[0] }
+  });
+  assertEquals(completed.status, 200);
+  assertExists(completed.body.data.token);
+
+  const bogusChallenge = await server.post("/api/auth/login/2fa", { body: { challenge_token: "bogus", code: "000000" } });
+  assertEquals(bogusChallenge.status, 401);
+});
+
+routeTest("Two-factor recovery codes can be regenerated and 2FA disabled", async (server) => {
+  const token = await server.login();
+  const { secret, recoveryCodes } = await enableTwoFactor(server, token);
+
+  const noCode = await server.post("/api/auth/2fa/recovery-codes", { token, body: {} });
+  assertEquals(noCode.status, 400);
+
+  // The enrollment code's time step is spent, so use the next one (still inside the drift window)
+  const nextCode = await generateTotp(secret, Date.now() + TOTP_PERIOD * 1000);
+  const regenerated = await server.post("/api/auth/2fa/recovery-codes", { token, body: { code: nextCode } });
+  assertEquals(regenerated.status, 200);
+  assertEquals(regenerated.body.data.recovery_codes.length, recoveryCodes.length);
+
+  const oldCode = await server.post("/api/auth/2fa/disable", {
+    token,
+    body: { password: ADMIN_PASSWORD, recovery_code: recoveryCodes[0] }
+  });
+  assertEquals(oldCode.status, 400);
+
+  const disabled = await server.post("/api/auth/2fa/disable", {
+    token,
+    body: { password: ADMIN_PASSWORD, recovery_code: regenerated.body.data.recovery_codes[0] }
+  });
+  assertEquals(disabled.status, 200);
+
+  const notEnabled = await server.post("/api/auth/2fa/disable", { token, body: { password: ADMIN_PASSWORD } });
+  assertEquals(notEnabled.status, 409);
+});
+
+routeTest("Roles that require 2FA are held at enrollment until it is set up", async (server) => {
+  const staff = await server.createUser("staff");
+  const token = await server.login();
+  await server.put("/api/settings", { token, body: { two_factor_required_roles: "staff" } });
+
+  const blocked = await server.get("/api/admin/watches", { token: staff.token });
+  assertEquals(blocked.status, 403);
+  assertEquals(blocked.body.code, "TWO_FACTOR_SETUP_REQUIRED");
+
+  await enableTwoFactor(server, staff.token);
+  const allowed = await server.get("/api/admin/watches", { token: staff.token });
+  assertEquals(allowed.status, 200);
+});
@@ -0,0 +1,6 @@
+// tests/env.ts - Test configuration; imported before any app module reads its environment
+Deno.env.set("WHATSAPP_PROVIDER", "mock"); // Never call Twilio or Meta from tests
+Deno.env.set("APP_ENV", "test"); // ENV_CONFIG.TEST keeps the log down to warnings
+Deno.env.set("MAIL_TRANSPORT", "console");
+Deno.env.set("PASSWORD_HASH_ITERATIONS", "1000"); // Production work factor makes every login take seconds
+Deno.env.set("STORAGE_ROOT", Deno.makeTempDirSync({ prefix: "prestige_storage_" })); // Attachments never land in the repo
@@ -0,0 +1,163 @@
+// tests/helpers.ts - In-process test harness: a fresh in-memory database and app for every test
+import "./env.ts";
+import { Application } from "@oak";
+import { Database } from "@sqlite";
+import { AppOptions, createApp } from "../app.ts";
+import { initializeDatabase } from "../database/init.ts";
+import { MailMessage, setMailTransport } from "../services/mailer.ts";
+import { UserRole } from "../types/user.ts";
+
+// Seeded by initializeDatabase
+export const ADMIN_USERNAME = "admin";
+export const ADMIN_PASSWORD = "admin123";
+
+// Satisfies the password policy for users created during tests
+export const STRONG_PASSWORD = "Str0ng!Passw0rd";
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface TestRequestOptions {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestUser {
+  id: number;
+  username: string;
+  email: string;
+  password: string;
+  token: string;
+}
+
+// app.handle() has no socket, so supply the connection oak reads the client address from
+const TEST_CONN = {
+  localAddr: { transport: "tcp", hostname: "127.0.0.1", port: 8000 },
+  remoteAddr: { transport: "tcp", hostname: "127.0.0.1", port: 54321 }
+} as unknown as Deno.Conn;
+
+export class TestServer {
+  // Every email the app sends while this server is running
+  readonly outbox: MailMessage[] = [];
+
+  private constructor(readonly db: Database, readonly app: Application) {}
+
+  static async start(options: AppOptions = {}): Promise<TestServer> {
+    const db = new Database(":memory:");
+    await initializeDatabase(db);
+
+    const server = new TestServer(db, createApp(db, options));
+    setMailTransport({
+      name: "test",
+      send(message) {
+        server.outbox.push(message);
+        return Promise.resolve();
+      }
+    });
+
+    return server;
+  }
+
+  async request(method: string, path: string, options: TestRequestOptions = {}): Promise<TestResponse> {
+    const headers = new Headers(options.headers);
+    if (options.token) {
+      headers.set("Authorization", `Bearer ${options.token}`);
+    }
+    // FormData bodies set their own multipart Content-Type
+    const isForm = options.body instanceof FormData;
+    if (options.body !== undefined && !isForm) {
+      headers.set("Content-Type", "application/json");
+    }
+
+    const request = new Request(`http://localhost${path}`, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : isForm ? options.body as FormData : JSON.stringify(options.body)
+    });
+
+    const response = await this.app.handle(request, TEST_CONN);
+    if (!response) {
+      throw new Error(`No response for ${method} ${path}`);
+    }
+
+    const text = await response.text();
+    const isJson = response.headers.get("Content-Type")?.includes("application/json");
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: isJson && text ? JSON.parse(text) : text
+    };
+  }
+
+  get(path: string, options?: TestRequestOptions): Promise<TestResponse> {
+    return this.request("GET", path, options);
+  }
+
+  post(path: string, options?: TestRequestOptions): Promise<TestResponse> {
+    return this.request("POST", path, options);
+  }
+
+  put(path: string, options?: TestRequestOptions): Promise<TestResponse> {
+    return this.request("PUT", path, options);
+  }
+
+  delete(path: string, options?: TestRequestOptions): Promise<TestResponse> {
+    return this.request("DELETE", path, options);
+  }
+
+  // Logs in and returns the full login payload (token, refresh_token, session_id)
+  async loginResponse(username: string = ADMIN_USERNAME, password: string = ADMIN_PASSWORD): Promise<any> {
+    const response = await this.post("/api/auth/login", { body: { username, password } });
+    if (response.status !== 200 || !response.body.data?.token) {
+      throw new Error(`Login as ${username} failed with ${response.status}: ${JSON.stringify(response.body)}`);
+    }
+    return response.body.data;
+  }
+
+  async login(username: string = ADMIN_USERNAME, password: string = ADMIN_PASSWORD): Promise<string> {
+    return (await this.loginResponse(username, password)).token;
+  }
+
+  // Creates a user with the given role through the admin API and logs them in
+  async createUser(role: UserRole, username: string = `${role}_user`): Promise<TestUser> {
+    const adminToken = await this.login();
+    const email = `${username}@example.com`;
+
+    const response = await this.post("/api/admin/users", {
+      token: adminToken,
+      body: { username, email, password: STRONG_PASSWORD, role }
+    });
+    if (response.status !== 201) {
+      throw new Error(`Creating ${role} user failed with ${response.status}: ${JSON.stringify(response.body)}`);
+    }
+
+    return {
+      id: response.body.data.id,
+      username,
+      email,
+      password: STRONG_PASSWORD,
+      token: await this.login(username, STRONG_PASSWORD)
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// Registers a Deno test that gets its own server and database, closed however the test ends
+export function routeTest(name: string, fn: (server: TestServer) => Promise<void>, options?: AppOptions): void {
+  Deno.test(name, async () => {
+    const server = await TestServer.start(options);
+    try {
+      await fn(server);
+    } finally {
+      server.close();
+    }
+  });
+}
@@ -0,0 +1,137 @@
+// tests/images_test.ts - Image sniffing, header dimensions and metadata stripping
+import { assert, assertEquals } from "@std/assert";
+import { fitWithin, imageDimensions, jpegOrientation, sniffImageType, stripImageMetadata } from "../utils/images.ts";
+
+const encoder = new TextEncoder();
+
+function bytes(...parts: (number[] | string | Uint8Array)[]): Uint8Array {
+  const arrays = parts.map((part) => typeof part === "string" ? encoder.encode(part) : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of arrays) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const u32le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  return bytes([0xff, marker], u16(payload.length + 2), payload);
+}
+
+// Big-endian EXIF block with one IFD0 entry: orientation
+function exifPayload(orientation: number): Uint8Array {
+  return bytes("Exif\0\0", "MM", u16(42), u32(8), u16(1), u16(0x0112), u16(3), u32(1), u16(orientation), u16(0), u32(0));
+}
+
+function jpeg(orientation?: number): Uint8Array {
+  return bytes(
+    [0xff, 0xd8],
+    jpegSegment(0xe0, bytes("JFIF\0", [1, 1, 0, 0, 1, 0, 1, 0, 0])),
+    orientation ? jpegSegment(0xe1, exifPayload(orientation)) : [],
+    jpegSegment(0xfe, bytes("GPS 51.5007 N, 0.1246 W")),
+    jpegSegment(0xc0, bytes([8], u16(480), u16(640), [3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1])),
+    jpegSegment(0xda, bytes([1, 1, 0, 0, 0x3f, 0])),
+    [0x12, 0x34, 0xff, 0xd9]
+  );
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  return bytes(u32(data.length), type, data, u32(0)); // CRCs aren't checked here
+}
+
+function png(): Uint8Array {
+  return bytes(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    pngChunk("IHDR", bytes(u32(800), u32(600), [8, 6, 0, 0, 0])),
+    pngChunk("tEXt", bytes("Author\0Staff phone")),
+    pngChunk("eXIf", bytes("MM", u16(42))),
+    pngChunk("IDAT", bytes([1, 2, 3])),
+    pngChunk("IEND", new Uint8Array())
+  );
+}
+
+function webpChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  return bytes(fourcc, u32le(data.length), data, data.length % 2 ? [0] : []);
+}
+
+function webp(): Uint8Array {
+  const vp8x = bytes([0x08 | 0x04 | 0x10, 0, 0, 0], [1023 & 0xff, 1023 >> 8, 0], [767 & 0xff, 767 >> 8, 0]);
+  const chunks = bytes(
+    webpChunk("VP8X", vp8x),
+    webpChunk("VP8L", bytes([0x2f, 0, 0, 0, 0])),
+    webpChunk("EXIF", bytes("MM\0*GPS")),
+    webpChunk("XMP ", bytes("<x:xmpmeta/>"))
+  );
+  return bytes("RIFF", u32le(chunks.length + 4), "WEBP", chunks);
+}
+
+function contains(haystack: Uint8Array, needle: string): boolean {
+  return new TextDecoder("latin1").decode(haystack).includes(needle);
+}
+
+Deno.test("sniffImageType goes by magic bytes, not names", () => {
+  assertEquals(sniffImageType(jpeg()), "jpeg");
+  assertEquals(sniffImageType(png()), "png");
+  assertEquals(sniffImageType(webp()), "webp");
+  assertEquals(sniffImageType(bytes("GIF89a", u16(0))), "gif");
+  assertEquals(sniffImageType(bytes("<svg xmlns='http://www.w3.org/2000/svg'/>")), null);
+  assertEquals(sniffImageType(bytes("%PDF-1.7")), null);
+  assertEquals(sniffImageType(new Uint8Array()), null);
+});
+
+Deno.test("imageDimensions reads the size from each format's header", () => {
+  assertEquals(imageDimensions(jpeg(6), "jpeg"), { width: 640, height: 480 });
+  assertEquals(imageDimensions(png(), "png"), { width: 800, height: 600 });
+  assertEquals(imageDimensions(webp(), "webp"), { width: 1024, height: 768 });
+  assertEquals(imageDimensions(bytes("GIF89a", [0x40, 0x01, 0xf0, 0x00]), "gif"), { width: 320, height: 240 });
+  assertEquals(imageDimensions(jpeg().subarray(0, 30), "jpeg"), null);
+});
+
+Deno.test("jpegOrientation reads the EXIF orientation tag", () => {
+  assertEquals(jpegOrientation(jpeg(6)), 6);
+  assertEquals(jpegOrientation(jpeg()), 1);
+});
+
+Deno.test("stripImageMetadata drops EXIF and comments from JPEGs but keeps the image data", () => {
+  const original = jpeg(6);
+  const stripped = stripImageMetadata(original, "jpeg");
+
+  assert(contains(original, "Exif") && contains(original, "GPS"));
+  assert(!contains(stripped, "Exif"));
+  assert(!contains(stripped, "GPS"));
+  assert(contains(stripped, "JFIF"));
+  assertEquals(imageDimensions(stripped, "jpeg"), { width: 640, height: 480 });
+  assertEquals([...stripped.subarray(-4)], [0x12, 0x34, 0xff, 0xd9]);
+});
+
+Deno.test("stripImageMetadata drops text and EXIF chunks from PNGs", () => {
+  const stripped = stripImageMetadata(png(), "png");
+
+  assert(!contains(stripped, "tEXt"));
+  assert(!contains(stripped, "eXIf"));
+  assert(contains(stripped, "IDAT"));
+  assert(contains(stripped, "IEND"));
+  assertEquals(imageDimensions(stripped, "png"), { width: 800, height: 600 });
+});
+
+Deno.test("stripImageMetadata drops EXIF and XMP from WebP and fixes the RIFF header", () => {
+  const stripped = stripImageMetadata(webp(), "webp");
+  const view = new DataView(stripped.buffer);
+
+  assert(!contains(stripped, "EXIF"));
+  assert(!contains(stripped, "XMP "));
+  assertEquals(view.getUint32(4, true), stripped.length - 8);
+  assertEquals(stripped[20] & (0x08 | 0x04), 0);
+  assertEquals(imageDimensions(stripped, "webp"), { width: 1024, height: 768 });
+});
+
+Deno.test("fitWithin keeps the aspect ratio and never enlarges", () => {
+  assertEquals(fitWithin({ width: 4000, height: 3000 }, { width: 600, height: 600 }), { width: 600, height: 450 });
+  assertEquals(fitWithin({ width: 3000, height: 4000 }, { width: 150, height: 150 }), { width: 113, height: 150 });
+  assertEquals(fitWithin({ width: 400, height: 300 }, { width: 1200, height: 1200 }), { width: 400, height: 300 });
+});
@@ -0,0 +1,317 @@
+// tests/inquiries_test.ts - Customer inquiry and sell submission routes
+import { assert, assertEquals, assertExists } from "@std/assert";
+import { formTokenIssuedAt, issueFormToken } from "../services/spam.ts";
+import { consoleWriter, getLogLevel, setLogLevel, setLogWriter } from "../utils/logger.ts";
+import { routeTest, TestServer } from "./helpers.ts";
+
+// Issued a minute ago, as if a person had taken their time over the form
+const FORM_TOKEN = await issueFormToken(Date.now() - 60000);
+
+const INQUIRY = {
+  form_token: FORM_TOKEN,
+  customer_name: "Jane Collector",
+  customer_email: "jane@example.com",
+  customer_phone: "+15551234567",
+  message: "Is this still available?"
+};
+
+const SELL_REQUEST = {
+  form_token: FORM_TOKEN,
+  brand: "Rolex",
+  model: "Datejust",
+  reference: "126334",
+  year: 2020,
+  condition: "excellent",
+  customer_name: "Sam Seller",
+  customer_email: "sam@example.com",
+  customer_phone: "+15557654321"
+};
+
+async function submitInquiry(server: TestServer): Promise<number> {
+  const response = await server.post("/api/inquiries", { body: INQUIRY });
+  assertEquals(response.status, 201);
+  return response.body.data.id;
+}
+
+routeTest("POST /api/inquiries stores an inquiry", async (server) => {
+  const watchId = (await server.get("/api/watches/brand/Rolex")).body.data[0].id;
+
+  const response = await server.post("/api/inquiries", { body: { ...INQUIRY, watch_id: watchId } });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.success, true);
+  assertEquals(response.body.data.watch_id, watchId);
+  assertEquals(response.body.data.status, "pending");
+});
+
+routeTest("POST /api/inquiries reports field errors", async (server) => {
+  const { message: _message, ...withoutMessage } = INQUIRY;
+
+  const response = await server.post("/api/inquiries", {
+    body: { ...withoutMessage, customer_email: "not-an-email" }
+  });
+
+  assertEquals(response.status, 422);
+  assertEquals(response.body.code, "VALIDATION_ERROR");
+  assertExists(response.body.fields.message);
+  assertExists(response.body.fields.customer_email);
+});
+
+routeTest("POST /api/inquiries rejects an unknown watch", async (server) => {
+  const response = await server.post("/api/inquiries", { body: { ...INQUIRY, watch_id: 9999 } });
+
+  assertEquals(response.status, 422);
+  assertEquals(response.body.success, false);
+  assertExists(response.body.fields.watch_id);
+});
+
+routeTest("POST /api/sell stores a sell submission", async (server) => {
+  const response = await server.post("/api/sell", { body: SELL_REQUEST });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.brand, "Rolex");
+});
+
+routeTest("POST /api/sell reports field errors", async (server) => {
+  const { customer_phone: _phone, ...withoutPhone } = SELL_REQUEST;
+
+  const response = await server.post("/api/sell", { body: { ...withoutPhone, condition: "like new-ish" } });
+
+  assertEquals(response.status, 422);
+  assertExists(response.body.fields.customer_phone);
+  assertExists(response.body.fields.condition);
+});
+
+routeTest("GET /api/admin/inquiries requires authentication and lists inquiries", async (server) => {
+  await submitInquiry(server);
+
+  const anonymous = await server.get("/api/admin/inquiries");
+  assertEquals(anonymous.status, 401);
+
+  const viewer = await server.createUser("viewer");
+  const response = await server.get("/api/admin/inquiries", { token: viewer.token });
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.length, 1);
+  assertEquals(response.body.pagination.total, 1);
+
+  const filtered = await server.get("/api/admin/inquiries?status=completed", { token: viewer.token });
+  assertEquals(filtered.body.data.length, 0);
+});
+
+routeTest("GET /api/admin/sell-submissions lists submissions", async (server) => {
+  await server.post("/api/sell", { body: SELL_REQUEST });
+  const token = await server.login();
+
+  const response = await server.get("/api/admin/sell-submissions", { token });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.length, 1);
+
+  const anonymous = await server.get("/api/admin/sell-submissions");
+  assertEquals(anonymous.status, 401);
+});
+
+routeTest("PUT /api/admin/inquiries/:id updates the status", async (server) => {
+  const id = await submitInquiry(server);
+  const staff = await server.createUser("staff");
+
+  const response = await server.put(`/api/admin/inquiries/${id}`, {
+    token: staff.token,
+    body: { status: "responded" }
+  });
+  assertEquals(response.status, 200);
+
+  const list = await server.get("/api/admin/inquiries?status=responded", { token: staff.token });
+  assertEquals(list.body.data.length, 1);
+
+  const missing = await server.put("/api/admin/inquiries/9999", { token: staff.token, body: { status: "responded" } });
+  assertEquals(missing.status, 404);
+
+  const malformed = await server.put("/api/admin/inquiries/abc", { token: staff.token, body: { status: "responded" } });
+  assertEquals(malformed.status, 400);
+
+  const unknown = await server.put(`/api/admin/inquiries/${id}`, { token: staff.token, body: { status: "ignored" } });
+  assertEquals(unknown.status, 422);
+  assertExists(unknown.body.fields.status);
+});
+
+routeTest("PUT /api/admin/inquiries/:id is forbidden for viewers", async (server) => {
+  const id = await submitInquiry(server);
+  const viewer = await server.createUser("viewer");
+
+  const response = await server.put(`/api/admin/inquiries/${id}`, {
+    token: viewer.token,
+    body: { status: "responded" }
+  });
+
+  assertEquals(response.status, 403);
+  assertEquals(response.body.code, "INSUFFICIENT_PERMISSIONS");
+});
+
+routeTest("PUT /api/admin/sell-submissions/:id records a quote", async (server) => {
+  const id = (await server.post("/api/sell", { body: SELL_REQUEST })).body.data.id;
+  const token = await server.login();
+
+  const response = await server.put(`/api/admin/sell-submissions/${id}`, {
+    token,
+    body: { status: "quoted", estimated_value: 9800, notes: "Pending inspection" }
+  });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.status, "quoted");
+  assertEquals(response.body.data.estimated_value, 9800);
+
+  const missing = await server.put("/api/admin/sell-submissions/9999", { token, body: { status: "quoted" } });
+  assertEquals(missing.status, 404);
+
+  const malformed = await server.put("/api/admin/sell-submissions/abc", { token, body: { status: "quoted" } });
+  assertEquals(malformed.status, 400);
+
+  const invalid = await server.put(`/api/admin/sell-submissions/${id}`, {
+    token,
+    body: { status: "sold", estimated_value: "lots" }
+  });
+  assertEquals(invalid.status, 422);
+  assertExists(invalid.body.fields.status);
+  assertExists(invalid.body.fields.estimated_value);
+});
+
+routeTest("DELETE /api/admin/inquiries/:id needs inquiries:delete", async (server) => {
+  const id = await submitInquiry(server);
+
+  const manager = await server.createUser("manager");
+  const forbidden = await server.delete(`/api/admin/inquiries/${id}`, { token: manager.token });
+  assertEquals(forbidden.status, 403);
+
+  const token = await server.login();
+  const deleted = await server.delete(`/api/admin/inquiries/${id}`, { token });
+  assertEquals(deleted.status, 200);
+
+  const again = await server.delete(`/api/admin/inquiries/${id}`, { token });
+  assertEquals(again.status, 404);
+
+  const malformed = await server.delete("/api/admin/inquiries/abc", { token });
+  assertEquals(malformed.status, 400);
+});
+
+routeTest("GET /api/admin/inquiry-stats counts inquiries and submissions", async (server) => {
+  await submitInquiry(server);
+  await server.post("/api/sell", { body: SELL_REQUEST });
+  const token = await server.login();
+
+  const response = await server.get("/api/admin/inquiry-stats", { token });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.total, 2);
+  assertEquals(response.body.data.inquiries.pending, 1);
+  assert(response.body.data.sellSubmissions.recent >= 1);
+
+  const staff = await server.createUser("staff");
+  const forbidden = await server.get("/api/admin/inquiry-stats", { token: staff.token });
+  assertEquals(forbidden.status, 403);
+});
+
+// Collects log messages so tests can tell whether a WhatsApp notification went out
+function captureLogMessages(): { messages: string[]; restore: () => void } {
+  const messages: string[] = [];
+  const previousLevel = getLogLevel();
+  setLogLevel("info");
+  setLogWriter((line) => messages.push(JSON.parse(line).msg));
+
+  return {
+    messages,
+    restore: () => {
+      setLogWriter(consoleWriter);
+      setLogLevel(previousLevel);
+    }
+  };
+}
+
+// The public response never reveals the verdict, so quarantine is checked in the database
+function storedStatus(server: TestServer, table: "inquiries" | "sell_submissions"): string {
+  return (server.db.prepare(`SELECT status FROM ${table} ORDER BY id DESC LIMIT 1`).get() as { status: string }).status;
+}
+
+routeTest("A filled-in honeypot quarantines the inquiry without notifying WhatsApp", async (server) => {
+  const capture = captureLogMessages();
+  try {
+    const response = await server.post("/api/inquiries", { body: { ...INQUIRY, website: "http://spam.example" } });
+
+    assertEquals(response.status, 201);
+    assertEquals(response.body.data.status, "pending");
+    assertEquals(storedStatus(server, "inquiries"), "quarantined");
+    assert(!capture.messages.includes("Sending WhatsApp message"));
+    assert(capture.messages.includes("Inquiry quarantined as likely spam"));
+  } finally {
+    capture.restore();
+  }
+
+  const stored = server.db.prepare("SELECT spam_score, spam_reasons FROM inquiries").get() as { spam_score: number; spam_reasons: string };
+  assert(stored.spam_score >= 10);
+  assert(JSON.parse(stored.spam_reasons).includes("honeypot"));
+});
+
+routeTest("GET /api/form-token issues a token the spam check accepts", async (server) => {
+  const response = await server.get("/api/form-token");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Cache-Control"), "no-store");
+  const issuedAt = await formTokenIssuedAt(response.body.data.token);
+  assertExists(issuedAt);
+  assert(Math.abs(Date.now() - issuedAt) < 60000);
+});
+
+routeTest("A missing, forged or edited form token is quarantined like a too-fast submission", async (server) => {
+  const [issuedAt, signature] = FORM_TOKEN.split(".");
+  const tokens = [undefined, "not-a-token", `${Number(issuedAt) - 60000}.${signature}`, `${issuedAt}.${signature}x`];
+
+  for (const form_token of tokens) {
+    await server.post("/api/inquiries", { body: { ...INQUIRY, customer_email: `${crypto.randomUUID()}@example.com`, form_token } });
+    const stored = server.db.prepare("SELECT status, spam_reasons FROM inquiries ORDER BY id DESC LIMIT 1")
+      .get() as { status: string; spam_reasons: string };
+    assertEquals(stored.status, "quarantined");
+    assertEquals(JSON.parse(stored.spam_reasons), ["too_fast"]);
+  }
+});
+
+routeTest("A repeat inquiry from the same email for the same watch is quarantined", async (server) => {
+  const first = await server.post("/api/inquiries", { body: INQUIRY });
+  const second = await server.post("/api/inquiries", { body: INQUIRY });
+
+  assertEquals(first.body.data.status, "pending");
+  assertEquals(second.body.data.status, "pending");
+
+  const token = await server.login();
+  const quarantined = await server.get("/api/admin/inquiries?status=quarantined", { token });
+  assertEquals(quarantined.body.data.length, 1);
+
+  const stats = await server.get("/api/admin/inquiry-stats", { token });
+  assertEquals(stats.body.data.inquiries.quarantined, 1);
+});
+
+routeTest("Sell submissions are scored on fill time, email domain, links and keywords", async (server) => {
+  const response = await server.post("/api/sell", {
+    body: {
+      ...SELL_REQUEST,
+      customer_email: "sam@mailinator.com",
+      description: "Cheap crypto loans https://a.example https://b.example",
+      form_token: await issueFormToken()
+    }
+  });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.status, "pending");
+  assertEquals(storedStatus(server, "sell_submissions"), "quarantined");
+
+  const stored = server.db.prepare("SELECT spam_reasons FROM sell_submissions").get() as { spam_reasons: string };
+  assertEquals(JSON.parse(stored.spam_reasons), ["too_fast", "disposable_email", "links", "keywords"]);
+});
+
+routeTest("Spam keywords and the quarantine score can be changed in settings", async (server) => {
+  server.db.prepare("INSERT INTO settings (key, value) VALUES (?, ?), (?, ?)")
+    .run("spam_keywords", "still available", "spam_quarantine_score", "2");
+
+  await server.post("/api/inquiries", { body: INQUIRY });
+
+  assertEquals(storedStatus(server, "inquiries"), "quarantined");
+});
@@ -0,0 +1,91 @@
+// tests/logger_test.ts - Structured logging, redaction and per-request access logs
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { consoleWriter, getLogLevel, logger, redact, redactText, setLogLevel, setLogWriter } from "../utils/logger.ts";
+import { routeTest } from "./helpers.ts";
+
+// Collects parsed log lines at every level until restored
+function captureLogs(): { lines: Record<string, any>[]; restore: () => void } {
+  const lines: Record<string, any>[] = [];
+  const previousLevel = getLogLevel();
+  setLogLevel("debug");
+  setLogWriter((line) => lines.push(JSON.parse(line)));
+
+  return {
+    lines,
+    restore: () => {
+      setLogWriter(consoleWriter);
+      setLogLevel(previousLevel);
+    }
+  };
+}
+
+Deno.test("redactText masks emails, phone numbers and credentials", () => {
+  const text = redactText(
+    "jane@example.com called from +1 (555) 123-4567 with Bearer abc.def and pt_0123456789abcdef"
+  );
+
+  assertStringIncludes(text, "j***@example.com");
+  assertStringIncludes(text, "***4567");
+  assertStringIncludes(text, "Bearer [REDACTED]");
+  assert(!text.includes("555"));
+  assert(!text.includes("pt_0123456789abcdef"));
+});
+
+Deno.test("redactText leaves ids, amounts and timestamps that aren't phone-like alone", () => {
+  const text = redactText("Inquiry 123456789012 started at 1729340000000 on 2024-01-15 10:30; call 555-123-4567");
+
+  assertStringIncludes(text, "123456789012");
+  assertStringIncludes(text, "1729340000000");
+  assertStringIncludes(text, "2024-01-15 10:30");
+  assertStringIncludes(text, "call ***4567");
+});
+
+Deno.test("redact drops secret fields and keeps the rest", () => {
+  const result = redact({
+    password: "hunter2",
+    refresh_token: "abc",
+    customer: { email: "sam@example.com", city: "London", phone: "5551234567" },
+    status: 200
+  }) as Record<string, any>;
+
+  assertEquals(result.password, "[REDACTED]");
+  assertEquals(result.refresh_token, "[REDACTED]");
+  assertEquals(result.customer, { email: "s***@example.com", city: "London", phone: "***4567" });
+  assertEquals(result.status, 200);
+});
+
+Deno.test("logger writes one JSON line per entry and respects the level", () => {
+  const capture = captureLogs();
+  try {
+    logger.child({ component: "test" }).info("Hello", { to: "+15551234567" });
+    setLogLevel("warn");
+    logger.info("Hidden");
+
+    assertEquals(capture.lines.length, 1);
+    assertEquals(capture.lines[0].level, "info");
+    assertEquals(capture.lines[0].msg, "Hello");
+    assertEquals(capture.lines[0].component, "test");
+    assertEquals(capture.lines[0].to, "***4567");
+  } finally {
+    capture.restore();
+  }
+});
+
+routeTest("Each request is logged with its id, route, status, latency and user", async (server) => {
+  const viewer = await server.createUser("viewer");
+  const capture = captureLogs();
+  try {
+    await server.get("/api/admin/watches", { token: viewer.token, headers: { "X-Request-Id": "trace-123" } });
+
+    const entries = capture.lines.filter((line) => line.msg === "Request completed");
+    assertEquals(entries.length, 1);
+    assertEquals(entries[0].requestId, "trace-123");
+    assertEquals(entries[0].method, "GET");
+    assertEquals(entries[0].route, "/api/admin/watches");
+    assertEquals(entries[0].status, 200);
+    assertEquals(entries[0].userId, viewer.id);
+    assert(typeof entries[0].latencyMs === "number");
+  } finally {
+    capture.restore();
+  }
+});
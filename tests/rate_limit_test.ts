@@ -0,0 +1,92 @@
+// tests/rate_limit_test.ts - Token buckets, stores and the /api rate limit middleware
+import { assert, assertEquals } from "@std/assert";
+import { memoryRateLimitStore, sqliteRateLimitStore, takeToken } from "../services/rate_limit.ts";
+import { routeTest } from "./helpers.ts";
+
+const RULE = { capacity: 2, windowMs: 60 * 1000 };
+
+const INQUIRY = {
+  customer_name: "Jane Collector",
+  customer_email: "jane@example.com",
+  customer_phone: "+15551234567",
+  message: "Is this still available?"
+};
+
+Deno.test("takeToken spends tokens and refills them over the window", () => {
+  let { state, decision } = takeToken(null, RULE, 0);
+  assertEquals(decision, { allowed: true, limit: 2, remaining: 1, resetSeconds: 30, retryAfterSeconds: 0 });
+
+  ({ state, decision } = takeToken(state, RULE, 0));
+  assertEquals(decision.remaining, 0);
+
+  ({ state, decision } = takeToken(state, RULE, 10 * 1000));
+  assertEquals(decision.allowed, false);
+  assertEquals(decision.retryAfterSeconds, 20);
+
+  ({ decision } = takeToken(state, RULE, 40 * 1000));
+  assertEquals(decision.allowed, true);
+});
+
+Deno.test("memoryRateLimitStore keeps a bucket per key", async () => {
+  const store = memoryRateLimitStore();
+
+  await store.take("ip:1", RULE, 0);
+  await store.take("ip:1", RULE, 0);
+
+  assertEquals((await store.take("ip:1", RULE, 0)).allowed, false);
+  assertEquals((await store.take("ip:2", RULE, 0)).allowed, true);
+});
+
+routeTest("sqliteRateLimitStore persists buckets in the database", async (server) => {
+  const store = sqliteRateLimitStore(server.db);
+
+  await store.take("ip:1", RULE, 0);
+  await store.take("ip:1", RULE, 0);
+
+  // A second store on the same database sees the same buckets
+  const decision = await sqliteRateLimitStore(server.db).take("ip:1", RULE, 1000);
+  assertEquals(decision.allowed, false);
+  assert(decision.retryAfterSeconds > 0);
+});
+
+routeTest("Rate limits are off unless enabled", async (server) => {
+  const response = await server.get("/api/watches");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("RateLimit-Limit"), null);
+});
+
+routeTest("API responses carry RateLimit headers", async (server) => {
+  const response = await server.get("/api/watches");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("RateLimit-Limit"), "2");
+  assertEquals(response.headers.get("RateLimit-Remaining"), "1");
+  assertEquals(response.headers.get("RateLimit-Policy"), "2;w=60");
+  assert(Number(response.headers.get("RateLimit-Reset")) > 0);
+}, { rateLimit: { ipRule: RULE } });
+
+routeTest("A route override returns 429 with Retry-After once spent", async (server) => {
+  await server.post("/api/inquiries", { body: INQUIRY });
+  const response = await server.post("/api/inquiries", { body: INQUIRY });
+
+  assertEquals(response.status, 429);
+  assertEquals(response.body.code, "RATE_LIMIT_EXCEEDED");
+  assertEquals(response.body.limit, 1);
+  assert(Number(response.headers.get("Retry-After")) > 0);
+
+  // Other endpoints still use the general budget
+  assertEquals((await server.get("/api/watches")).status, 200);
+}, { rateLimit: { routes: [{ method: "POST", path: "/api/inquiries", capacity: 1, windowMs: 60 * 60 * 1000 }] } });
+
+routeTest("Signed-in users are limited separately from their IP", async (server) => {
+  const viewer = await server.createUser("viewer");
+
+  await server.get("/api/watches");
+  await server.get("/api/watches");
+  assertEquals((await server.get("/api/watches")).status, 429);
+
+  const response = await server.get("/api/admin/watches", { token: viewer.token });
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("RateLimit-Limit"), "10");
+}, { rateLimit: { ipRule: RULE, userRule: { capacity: 10, windowMs: 60 * 1000 } } });
@@ -0,0 +1,190 @@
+// tests/reservations_test.ts - Reservation holds: overlap guard, extension, release and automatic expiry
+import { assert, assertEquals } from "@std/assert";
+import { expireReservations } from "../services/reservations.ts";
+import { BUSINESS_CONFIG } from "../utils/constants.ts";
+import { routeTest, TestServer } from "./helpers.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CUSTOMER = {
+  customer_name: "Riley Buyer",
+  customer_email: "riley@example.com",
+  customer_phone: "+1 555 555 0100"
+};
+
+async function reserve(server: TestServer, token: string, body: Record<string, unknown> = {}) {
+  return await server.post("/api/admin/reservations", { token, body: { watch_id: 1, ...CUSTOMER, ...body } });
+}
+
+function watchStatus(server: TestServer, id = 1): string {
+  return (server.db.prepare("SELECT status FROM watches WHERE id = ?").get([id]) as { status: string }).status;
+}
+
+routeTest("POST /api/admin/reservations holds an available watch", async (server) => {
+  const token = await server.login();
+
+  const response = await reserve(server, token, { deposit_amount: 500 });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.status, "active");
+  assertEquals(response.body.data.deposit_amount, 500);
+  const holdMs = Date.parse(response.body.data.expires_at) - Date.now();
+  assert(Math.abs(holdMs - BUSINESS_CONFIG.RESERVATION_HOLD_DAYS * DAY_MS) < 60_000);
+  assertEquals(watchStatus(server), "reserved");
+
+  // Reserved watches are off the public catalog
+  assertEquals((await server.get("/api/watches/1")).status, 404);
+});
+
+routeTest("A watch can't have two overlapping reservations", async (server) => {
+  const token = await server.login();
+  const first = await reserve(server, token);
+
+  const second = await reserve(server, token, { customer_email: "other@example.com" });
+
+  assertEquals(second.status, 409);
+  assertEquals(second.body.code, "CONFLICT");
+  assertEquals(second.body.details.reservation_id, first.body.data.id);
+});
+
+routeTest("Reservations take customer details from a linked inquiry", async (server) => {
+  const token = await server.login();
+  server.db.prepare(`
+    INSERT INTO inquiries (customer_name, customer_email, customer_phone, message, watch_id)
+    VALUES ('Jordan Inquirer', 'jordan@example.com', '+15555550111', 'Is the Submariner still available?', 1)
+  `).run();
+
+  const response = await server.post("/api/admin/reservations", { token, body: { watch_id: 1, inquiry_id: 1 } });
+
+  assertEquals(response.status, 201);
+  assertEquals(response.body.data.inquiry_id, 1);
+  assertEquals(response.body.data.customer_email, "jordan@example.com");
+
+  const otherWatch = await server.post("/api/admin/reservations", { token, body: { watch_id: 2, inquiry_id: 1 } });
+  assertEquals(otherWatch.status, 422);
+
+  // Deleting the inquiry unlinks the reservation but keeps its customer details
+  assertEquals((await server.delete("/api/admin/inquiries/1", { token })).status, 200);
+  const unlinked = await server.get(`/api/admin/reservations/${response.body.data.id}`, { token });
+  assertEquals(unlinked.body.data.inquiry_id, undefined);
+  assertEquals(unlinked.body.data.customer_email, "jordan@example.com");
+});
+
+routeTest("POST /api/admin/reservations validates the request", async (server) => {
+  const token = await server.login();
+
+  const invalid = await server.post("/api/admin/reservations", { token, body: { watch_id: 1, deposit_amount: -5, hold_days: 90 } });
+  assertEquals(invalid.status, 422);
+  assert(invalid.body.fields.customer_email);
+  assert(invalid.body.fields.deposit_amount);
+  assert(invalid.body.fields.hold_days);
+
+  const tooMuch = await reserve(server, token, { deposit_amount: 1_000_000 });
+  assertEquals(tooMuch.status, 422);
+
+  const viewer = await server.createUser("viewer");
+  assertEquals((await reserve(server, viewer.token)).status, 403);
+});
+
+routeTest("POST /api/admin/reservations/:id/extend pushes the expiry back a limited number of times", async (server) => {
+  const token = await server.login();
+  const reservation = (await reserve(server, token)).body.data;
+
+  const extended = await server.post(`/api/admin/reservations/${reservation.id}/extend`, { token, body: { days: 2 } });
+  assertEquals(extended.status, 200);
+  assertEquals(Date.parse(extended.body.data.expires_at) - Date.parse(reservation.expires_at), 2 * DAY_MS);
+  assertEquals(extended.body.data.extension_count, 1);
+
+  for (let i = 1; i < BUSINESS_CONFIG.RESERVATION_MAX_EXTENSIONS; i++) {
+    assertEquals((await server.post(`/api/admin/reservations/${reservation.id}/extend`, { token })).status, 200);
+  }
+  assertEquals((await server.post(`/api/admin/reservations/${reservation.id}/extend`, { token })).status, 409);
+});
+
+routeTest("POST /api/admin/reservations/:id/release makes the watch available again", async (server) => {
+  const token = await server.login();
+  const reservation = (await reserve(server, token)).body.data;
+
+  const released = await server.post(`/api/admin/reservations/${reservation.id}/release`, {
+    token,
+    body: { reason: "Customer changed their mind" }
+  });
+
+  assertEquals(released.status, 200);
+  assertEquals(released.body.data.status, "released");
+  assertEquals(released.body.data.release_reason, "Customer changed their mind");
+  assertEquals(watchStatus(server), "available");
+
+  assertEquals((await server.post(`/api/admin/reservations/${reservation.id}/release`, { token })).status, 409);
+  assertEquals((await reserve(server, token)).status, 201);
+});
+
+routeTest("POST /api/admin/reservations/:id/complete sells the watch without putting it back on sale", async (server) => {
+  const token = await server.login();
+  const reservation = (await reserve(server, token, { deposit_amount: 500 })).body.data;
+
+  const completed = await server.post(`/api/admin/reservations/${reservation.id}/complete`, { token });
+
+  assertEquals(completed.status, 200);
+  assertEquals(completed.body.data.status, "completed");
+  assert(completed.body.data.released_at);
+  assertEquals(watchStatus(server), "sold");
+
+  assertEquals((await server.post(`/api/admin/reservations/${reservation.id}/complete`, { token })).status, 409);
+  assertEquals((await server.post(`/api/admin/reservations/${reservation.id}/release`, { token })).status, 409);
+  assertEquals((await reserve(server, token)).status, 409);
+
+  const viewer = await server.createUser("viewer");
+  const other = (await reserve(server, token, { watch_id: 2 })).body.data;
+  assertEquals((await server.post(`/api/admin/reservations/${other.id}/complete`, { token: viewer.token })).status, 403);
+});
+
+routeTest("expireReservations returns lapsed holds to available", async (server) => {
+  const token = await server.login();
+  const lapsed = (await reserve(server, token)).body.data;
+  const current = (await reserve(server, token, { watch_id: 2, hold_days: 10 })).body.data;
+
+  const expired = expireReservations(server.db, Date.now() + 5 * DAY_MS);
+
+  assertEquals(expired.map((reservation) => reservation.id), [lapsed.id]);
+  assertEquals(expired[0].status, "expired");
+  assertEquals(watchStatus(server, 1), "available");
+  assertEquals(watchStatus(server, 2), "reserved");
+
+  const list = await server.get("/api/admin/reservations?status=active", { token });
+  assertEquals(list.body.data.map((reservation: { id: number }) => reservation.id), [current.id]);
+});
+
+routeTest("Expiry leaves a watch alone if it was sold during the hold", async (server) => {
+  const token = await server.login();
+  await reserve(server, token);
+  server.db.prepare("UPDATE watches SET status = 'sold' WHERE id = 1").run();
+
+  expireReservations(server.db, Date.now() + 5 * DAY_MS);
+
+  assertEquals(watchStatus(server), "sold");
+});
+
+routeTest("Editing or deleting a watch can't change its status to or from reserved", async (server) => {
+  const token = await server.login();
+
+  const handReserved = await server.put("/api/admin/watches/2", { token, body: { status: "reserved" } });
+  assertEquals(handReserved.status, 409);
+  assertEquals(watchStatus(server, 2), "available");
+
+  const reservation = (await reserve(server, token)).body.data;
+  const reopened = await server.put("/api/admin/watches/1", { token, body: { status: "available" } });
+  assertEquals(reopened.status, 409);
+  assertEquals(reopened.body.details.reservation_id, reservation.id);
+  assertEquals(watchStatus(server), "reserved");
+
+  // Other fields stay editable while the hold is active
+  assertEquals((await server.put("/api/admin/watches/1", { token, body: { price: 12000 } })).status, 200);
+
+  const deleted = await server.delete("/api/admin/watches/1", { token });
+  assertEquals(deleted.status, 409);
+  assertEquals(watchStatus(server), "reserved");
+
+  await server.post(`/api/admin/reservations/${reservation.id}/release`, { token });
+  assertEquals((await server.put("/api/admin/watches/1", { token, body: { status: "sold" } })).status, 200);
+});
@@ -0,0 +1,82 @@
+// tests/static_test.ts - Static assets: path confinement, content types, validators, caching and compression
+import { assert, assertEquals } from "@std/assert";
+import { cacheControlFor, contentTypeFor, negotiateEncoding, toRelativePath } from "../middleware/static.ts";
+import { routeTest } from "./helpers.ts";
+
+Deno.test("contentTypeFor covers fonts, icons, source maps and unknown files", () => {
+  assertEquals(contentTypeFor("fonts/inter.woff2"), "font/woff2");
+  assertEquals(contentTypeFor("favicon.ico"), "image/x-icon");
+  assertEquals(contentTypeFor("images/logo.SVG"), "image/svg+xml");
+  assertEquals(contentTypeFor("js/main.js.map"), "application/json; charset=utf-8");
+  assertEquals(contentTypeFor("data/brands.json"), "application/json; charset=utf-8");
+  assertEquals(contentTypeFor("notes.unknown"), "application/octet-stream");
+});
+
+Deno.test("Only fingerprinted assets are cached as immutable", () => {
+  assertEquals(cacheControlFor("js/main.3f9a2b1c.js", "text/javascript"), "public, max-age=31536000, immutable");
+  assertEquals(cacheControlFor("js/main.js", "text/javascript"), "public, max-age=0, must-revalidate");
+  assertEquals(cacheControlFor("images/watches/watch_1700000000000.jpg", "image/jpeg"), "public, max-age=0, must-revalidate");
+});
+
+Deno.test("negotiateEncoding honours q-values and prefers brotli", () => {
+  assertEquals(negotiateEncoding("gzip, deflate, br"), "br");
+  assertEquals(negotiateEncoding("gzip;q=1.0, br;q=0.5"), "gzip");
+  assertEquals(negotiateEncoding("br;q=0, gzip"), "gzip");
+  assertEquals(negotiateEncoding("identity"), null);
+  assertEquals(negotiateEncoding(null), null);
+});
+
+Deno.test("toRelativePath rejects traversal, encoded separators and hidden files", () => {
+  assertEquals(toRelativePath("css/styles.css"), "css/styles.css");
+  assertEquals(toRelativePath("../deno.json"), null);
+  assertEquals(toRelativePath("%2e%2e/deno.json"), null);
+  assertEquals(toRelativePath("css%2F..%2F..%2Fdeno.json"), null);
+  assertEquals(toRelativePath(".env"), null);
+  assertEquals(toRelativePath("%E0%A4%A"), null);
+});
+
+routeTest("Static files are served with validators and answer conditional requests with 304", async (server) => {
+  const response = await server.get("/static/css/styles.css");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Content-Type"), "text/css; charset=utf-8");
+  assertEquals(response.headers.get("Cache-Control"), "public, max-age=0, must-revalidate");
+  assert(response.headers.get("Last-Modified"));
+
+  const etag = response.headers.get("ETag")!;
+  const byTag = await server.get("/static/css/styles.css", { headers: { "If-None-Match": etag } });
+  assertEquals(byTag.status, 304);
+
+  const byDate = await server.get("/static/css/styles.css", {
+    headers: { "If-Modified-Since": response.headers.get("Last-Modified")! }
+  });
+  assertEquals(byDate.status, 304);
+});
+
+routeTest("Text assets are compressed for clients that accept it", async (server) => {
+  const brotli = await server.get("/static/js/main.js", { headers: { "Accept-Encoding": "gzip, br" } });
+  assertEquals(brotli.headers.get("Content-Encoding"), "br");
+  assertEquals(brotli.headers.get("Vary"), "Accept-Encoding");
+
+  const gzip = await server.get("/static/js/main.js", { headers: { "Accept-Encoding": "gzip" } });
+  assertEquals(gzip.headers.get("Content-Encoding"), "gzip");
+  assert(gzip.headers.get("ETag") !== brotli.headers.get("ETag"));
+
+  const image = await server.get("/static/images/watches/rolex_1.jpeg", { headers: { "Accept-Encoding": "br" } });
+  assertEquals(image.headers.get("Content-Type"), "image/jpeg");
+  assertEquals(image.headers.get("Content-Encoding"), null);
+});
+
+routeTest("Pages are served from the static root", async (server) => {
+  const admin = await server.get("/admin");
+
+  assertEquals(admin.status, 200);
+  assertEquals(admin.headers.get("Content-Type"), "text/html; charset=utf-8");
+});
+
+routeTest("Paths outside the static root are not served", async (server) => {
+  for (const path of ["/static/%2e%2e/deno.json", "/static/..%2fdeno.json", "/static/.hidden", "/static/css"]) {
+    const response = await server.get(path);
+    assertEquals(response.status, 404, path);
+  }
+});
@@ -0,0 +1,220 @@
+// tests/users_test.ts - Admin user management routes
+import { assertEquals, assertExists } from "@std/assert";
+import { generateTotp } from "../utils/totp.ts";
+import { routeTest, STRONG_PASSWORD } from "./helpers.ts";
+
+const NEW_USER = {
+  username: "new_manager",
+  email: "manager@example.com",
+  password: STRONG_PASSWORD,
+  role: "manager",
+  first_name: "Morgan",
+  timezone: "Europe/London"
+};
+
+routeTest("GET /api/admin/users lists and filters users", async (server) => {
+  await server.createUser("staff");
+  const token = await server.login();
+
+  const all = await server.get("/api/admin/users", { token });
+  assertEquals(all.status, 200);
+  assertEquals(all.body.pagination.total, 2);
+  assertEquals(all.body.data[0].password_hash, undefined);
+
+  const staff = await server.get("/api/admin/users?role=staff", { token });
+  assertEquals(staff.body.data.length, 1);
+  assertEquals(staff.body.data[0].username, "staff_user");
+
+  const anonymous = await server.get("/api/admin/users");
+  assertEquals(anonymous.status, 401);
+});
+
+routeTest("GET /api/admin/users is forbidden without users:list", async (server) => {
+  const manager = await server.createUser("manager");
+
+  const response = await server.get("/api/admin/users", { token: manager.token });
+
+  assertEquals(response.status, 403);
+  assertEquals(response.body.code, "INSUFFICIENT_PERMISSIONS");
+});
+
+routeTest("GET /api/admin/users/:id returns one user or 404", async (server) => {
+  const viewer = await server.createUser("viewer");
+  const token = await server.login();
+
+  const found = await server.get(`/api/admin/users/${viewer.id}`, { token });
+  assertEquals(found.status, 200);
+  assertEquals(found.body.data.email, viewer.email);
+
+  const missing = await server.get("/api/admin/users/9999", { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("POST /api/admin/users creates a user who can log in", async (server) => {
+  const token = await server.login();
+
+  const created = await server.post("/api/admin/users", { token, body: NEW_USER });
+  assertEquals(created.status, 201);
+  assertEquals(created.body.data.role, "manager");
+
+  await server.login(NEW_USER.username, NEW_USER.password);
+});
+
+routeTest("POST /api/admin/users validates input and rejects duplicates", async (server) => {
+  const token = await server.login();
+
+  const missing = await server.post("/api/admin/users", { token, body: { username: "no_role" } });
+  assertEquals(missing.status, 422);
+  assertExists(missing.body.fields.role);
+
+  const invalid = await server.post("/api/admin/users", {
+    token,
+    body: { ...NEW_USER, email: "not-an-email", password: "weak", role: "owner", timezone: "Mars/Olympus" }
+  });
+  assertEquals(invalid.status, 422);
+  assertEquals(invalid.body.code, "VALIDATION_ERROR");
+  assertExists(invalid.body.fields.email);
+  assertExists(invalid.body.fields.password);
+  assertExists(invalid.body.fields.role);
+  assertExists(invalid.body.fields.timezone);
+
+  await server.post("/api/admin/users", { token, body: NEW_USER });
+  const duplicate = await server.post("/api/admin/users", { token, body: NEW_USER });
+  assertEquals(duplicate.status, 409);
+});
+
+routeTest("PUT /api/admin/users/:id changes the role and ends the user's sessions", async (server) => {
+  const viewer = await server.createUser("viewer");
+  const token = await server.login();
+
+  const updated = await server.put(`/api/admin/users/${viewer.id}`, { token, body: { role: "staff" } });
+  assertEquals(updated.status, 200);
+  assertEquals(updated.body.data.role, "staff");
+
+  const oldToken = await server.get("/api/auth/me", { token: viewer.token });
+  assertEquals(oldToken.status, 401);
+
+  const nothing = await server.put(`/api/admin/users/${viewer.id}`, { token, body: { password_hash: "x" } });
+  assertEquals(nothing.status, 400);
+
+  const invalid = await server.put(`/api/admin/users/${viewer.id}`, { token, body: { is_active: "nope" } });
+  assertEquals(invalid.status, 422);
+  assertExists(invalid.body.fields.is_active);
+
+  const missing = await server.put("/api/admin/users/9999", { token, body: { role: "staff" } });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("PUT /api/admin/users/:id rejects taken usernames and emails", async (server) => {
+  const viewer = await server.createUser("viewer");
+  const token = await server.login();
+
+  const response = await server.put(`/api/admin/users/${viewer.id}`, { token, body: { username: "admin" } });
+
+  assertEquals(response.status, 409);
+});
+
+routeTest("PUT /api/admin/users/:id will not demote or deactivate the last admin", async (server) => {
+  const token = await server.login();
+  const me = await server.get("/api/auth/me", { token });
+
+  const demote = await server.put(`/api/admin/users/${me.body.data.id}`, { token, body: { role: "viewer" } });
+  assertEquals(demote.status, 409);
+
+  const deactivate = await server.put(`/api/admin/users/${me.body.data.id}`, { token, body: { is_active: false } });
+  assertEquals(deactivate.status, 409);
+});
+
+routeTest("Deactivated users can no longer log in", async (server) => {
+  const staff = await server.createUser("staff");
+  const token = await server.login();
+
+  const response = await server.put(`/api/admin/users/${staff.id}`, { token, body: { is_active: false } });
+  assertEquals(response.status, 200);
+
+  const login = await server.post("/api/auth/login", { body: { username: staff.username, password: staff.password } });
+  assertEquals(login.status, 403);
+  assertEquals(login.body.code, "ACCOUNT_DISABLED");
+});
+
+routeTest("POST /api/admin/users/:id/force-password-reset restricts the user until they change it", async (server) => {
+  const staff = await server.createUser("staff");
+  const token = await server.login();
+
+  const forced = await server.post(`/api/admin/users/${staff.id}/force-password-reset`, { token });
+  assertEquals(forced.status, 200);
+
+  const staffToken = await server.login(staff.username, staff.password);
+  const blocked = await server.get("/api/admin/watches", { token: staffToken });
+  assertEquals(blocked.status, 403);
+  assertEquals(blocked.body.code, "PASSWORD_CHANGE_REQUIRED");
+
+  const changed = await server.post("/api/auth/change-password", {
+    token: staffToken,
+    body: { currentPassword: staff.password, newPassword: "An0ther!Strong1" }
+  });
+  assertEquals(changed.status, 200);
+
+  const fresh = await server.login(staff.username, "An0ther!Strong1");
+  const allowed = await server.get("/api/admin/watches", { token: fresh });
+  assertEquals(allowed.status, 200);
+
+  const missing = await server.post("/api/admin/users/9999/force-password-reset", { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("POST /api/admin/users/:id/2fa/reset turns off the user's two-factor authentication", async (server) => {
+  const staff = await server.createUser("staff");
+  const setup = await server.post("/api/auth/2fa/setup", { token: staff.token });
+  const code = await generateTotp(setup.body.data.secret);
+  const enabled = await server.post("/api/auth/2fa/enable", { token: staff.token, body: { code } });
+  assertEquals(enabled.status, 200);
+
+  const token = await server.login();
+  const reset = await server.post(`/api/admin/users/${staff.id}/2fa/reset`, { token });
+  assertEquals(reset.status, 200);
+
+  // Password alone is enough again
+  await server.login(staff.username, staff.password);
+
+  const missing = await server.post("/api/admin/users/9999/2fa/reset", { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("DELETE /api/admin/users/:id deletes other users but never yourself", async (server) => {
+  const viewer = await server.createUser("viewer");
+  const token = await server.login();
+  const me = await server.get("/api/auth/me", { token });
+
+  const self = await server.delete(`/api/admin/users/${me.body.data.id}`, { token });
+  assertEquals(self.status, 409);
+
+  const deleted = await server.delete(`/api/admin/users/${viewer.id}`, { token });
+  assertEquals(deleted.status, 200);
+
+  const gone = await server.get(`/api/admin/users/${viewer.id}`, { token });
+  assertEquals(gone.status, 404);
+
+  const missing = await server.delete(`/api/admin/users/${viewer.id}`, { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("Deleting a user removes their credentials and unlinks what they created", async (server) => {
+  const staff = await server.createUser("staff");
+  const token = await server.login();
+  const reservation = await server.post("/api/admin/reservations", {
+    token: staff.token,
+    body: { watch_id: 1, customer_name: "Riley Buyer", customer_email: "riley@example.com" }
+  });
+  assertEquals(reservation.body.data.created_by, staff.id);
+
+  assertEquals((await server.delete(`/api/admin/users/${staff.id}`, { token })).status, 200);
+
+  for (const table of ["user_sessions", "refresh_tokens", "api_tokens", "recovery_codes", "password_reset_tokens"]) {
+    const rows = server.db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE user_id = ?`).get([staff.id]) as { count: number };
+    assertEquals(rows.count, 0, table);
+  }
+  const kept = await server.get(`/api/admin/reservations/${reservation.body.data.id}`, { token });
+  assertEquals(kept.body.data.created_by, undefined);
+  assertEquals((await server.get("/api/auth/me", { token: staff.token })).status, 401);
+});
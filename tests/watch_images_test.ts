@@ -0,0 +1,140 @@
+// tests/watch_images_test.ts - Watch galleries: ordering, the primary image and orphaned file cleanup
+import { assert, assertEquals } from "@std/assert";
+import { Database } from "@sqlite";
+import { ProcessedImage } from "../services/images.ts";
+import { attachWatchImage, cleanupOrphanedImageFiles } from "../services/watch_images.ts";
+import { routeTest } from "./helpers.ts";
+
+// Rows only; these tests never touch the files an upload would write
+function processed(name: string): ProcessedImage {
+  const filename = `watch_1700000000000_${name}.jpg`;
+  return {
+    url: `/static/images/watches/${filename}`,
+    filename,
+    type: "jpeg",
+    mimeType: "image/jpeg",
+    size: 1000,
+    width: 800,
+    height: 600,
+    variants: [],
+    srcset: ""
+  };
+}
+
+function attachThree(db: Database): number[] {
+  return ["aaaaaaaa", "bbbbbbbb", "cccccccc"].map((name) => attachWatchImage(db, 1, processed(name)).id);
+}
+
+routeTest("GET /api/watches/:id includes the gallery in order", async (server) => {
+  const [first, second] = attachThree(server.db);
+  server.db.prepare("UPDATE watch_images SET alt_text = 'Dial close-up' WHERE id = ?").run([second]);
+
+  const response = await server.get("/api/watches/1");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.images.length, 3);
+  assertEquals(response.body.data.images[0].id, first);
+  assertEquals(response.body.data.images[0].is_primary, true);
+  assertEquals(response.body.data.images[1].alt_text, "Dial close-up");
+  assertEquals(response.body.data.image_url, response.body.data.images[0].url);
+});
+
+routeTest("PUT /api/admin/watches/:id/images/order reorders the gallery", async (server) => {
+  const token = await server.login();
+  const [first, second, third] = attachThree(server.db);
+
+  const response = await server.put("/api/admin/watches/1/images/order", {
+    token,
+    body: { image_ids: [third, first, second] }
+  });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.map((image: { id: number }) => image.id), [third, first, second]);
+
+  const incomplete = await server.put("/api/admin/watches/1/images/order", { token, body: { image_ids: [third, first] } });
+  assertEquals(incomplete.status, 422);
+});
+
+routeTest("PUT /api/admin/watches/:id/images/:imageId promotes a new primary image", async (server) => {
+  const token = await server.login();
+  const [first, second] = attachThree(server.db);
+
+  const response = await server.put(`/api/admin/watches/1/images/${second}`, {
+    token,
+    body: { is_primary: true, caption: "Caseback" }
+  });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.is_primary, true);
+  assertEquals(response.body.data.caption, "Caseback");
+
+  const images = (await server.get("/api/admin/watches/1/images", { token })).body.data;
+  assertEquals(images.filter((image: { is_primary: boolean }) => image.is_primary).length, 1);
+  assertEquals(images.find((image: { id: number }) => image.id === first).is_primary, false);
+
+  const watch = server.db.prepare("SELECT image_url FROM watches WHERE id = 1").get() as { image_url: string };
+  assertEquals(watch.image_url, response.body.data.url);
+});
+
+routeTest("PUT /api/admin/watches/:id/images/:imageId validates alt text length", async (server) => {
+  const token = await server.login();
+  const [first] = attachThree(server.db);
+
+  const response = await server.put(`/api/admin/watches/1/images/${first}`, { token, body: { alt_text: "x".repeat(251) } });
+
+  assertEquals(response.status, 422);
+  assert(response.body.fields.alt_text);
+});
+
+routeTest("DELETE /api/admin/watches/:id/images/:imageId hands primary to the next image", async (server) => {
+  const token = await server.login();
+  const [first, second] = attachThree(server.db);
+
+  const response = await server.delete(`/api/admin/watches/1/images/${first}`, { token });
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.length, 2);
+  assertEquals(response.body.data[0].id, second);
+  assertEquals(response.body.data[0].is_primary, true);
+
+  const missing = await server.delete(`/api/admin/watches/1/images/${first}`, { token });
+  assertEquals(missing.status, 404);
+});
+
+routeTest("Image routes 404 for an unknown watch and require watch permissions", async (server) => {
+  const token = await server.login();
+  assertEquals((await server.get("/api/admin/watches/999/images", { token })).status, 404);
+  assertEquals((await server.get("/api/admin/watches/1/images")).status, 401);
+});
+
+routeTest("cleanupOrphanedImageFiles removes only old, unreferenced uploads", async (server) => {
+  const directory = await Deno.makeTempDir();
+  try {
+    const kept = attachWatchImage(server.db, 1, processed("aaaaaaaa")).filename;
+    const orphan = "watch_1700000000000_dddddddd.jpg";
+    const recent = "watch_1700000000000_eeeeeeee_small.webp";
+    for (const name of [kept, orphan, recent, "rolex_1.jpeg"]) {
+      await Deno.writeFile(`${directory}/${name}`, new Uint8Array([1, 2, 3]));
+    }
+
+    const now = Date.now() + 60 * 60 * 1000;
+    const old = new Date(now - 2 * 24 * 60 * 60 * 1000);
+    for (const name of [kept, orphan, "rolex_1.jpeg"]) {
+      await Deno.utime(`${directory}/${name}`, old, old);
+    }
+
+    const dryRun = await cleanupOrphanedImageFiles(server.db, { directory, dryRun: true, now });
+    assertEquals(dryRun.removed, [orphan]);
+    assert(await Deno.stat(`${directory}/${orphan}`));
+
+    const result = await cleanupOrphanedImageFiles(server.db, { directory, now });
+    assertEquals(result.removed, [orphan]);
+    assertEquals(result.bytes, 3);
+
+    const remaining = [];
+    for await (const entry of Deno.readDir(directory)) remaining.push(entry.name);
+    assertEquals(remaining.sort(), ["rolex_1.jpeg", recent, kept].sort());
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,245 @@
+// tests/watches_test.ts - Public catalog and admin watch routes
+import { assert, assertEquals, assertExists, assertStringIncludes } from "@std/assert";
+import { routeTest } from "./helpers.ts";
+
+const NEW_WATCH = {
+  brand: "Tudor",
+  model: "Black Bay 58",
+  reference: "M79030N-0001",
+  year: 2021,
+  condition: "excellent",
+  price: 3600,
+  description: "Vintage-inspired diver with box and papers."
+};
+
+routeTest("GET /api/watches lists the seeded catalog with pagination", async (server) => {
+  const response = await server.get("/api/watches");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.success, true);
+  assertEquals(response.body.data.length, 4);
+  assertEquals(response.body.pagination.total, 4);
+  assertEquals(response.body.pagination.hasMore, false);
+});
+
+routeTest("GET /api/watches follows nextCursor through every page without repeats", async (server) => {
+  const seen: number[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ limit: "3", sortBy: "price", sortOrder: "asc" });
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await server.get(`/api/watches?${params}`);
+    assertEquals(response.status, 200);
+    seen.push(...response.body.data.map((watch: { id: number }) => watch.id));
+    cursor = response.body.pagination.nextCursor;
+  } while (cursor);
+
+  assertEquals(seen.length, 4);
+  assertEquals(new Set(seen).size, 4);
+});
+
+routeTest("GET /api/watches rejects invalid search parameters", async (server) => {
+  const response = await server.get("/api/watches?sortBy=colour&minPrice=abc");
+
+  assertEquals(response.status, 400);
+  assertEquals(response.body.success, false);
+  assert(Array.isArray(response.body.details));
+  assert(response.body.details.length >= 1);
+});
+
+routeTest("GET /api/watches rejects an unknown condition", async (server) => {
+  const unknown = await server.get("/api/watches?condition=pristine");
+  assertEquals(unknown.status, 400);
+  assert(unknown.body.details.some((error: string) => error.startsWith("condition must be one of")));
+
+  const label = await server.get("/api/watches?condition=Very%20Good");
+  assertEquals(label.status, 200);
+});
+
+routeTest("GET /api/watches rejects a malformed cursor", async (server) => {
+  const response = await server.get("/api/watches?cursor=not-a-cursor");
+
+  assertEquals(response.status, 400);
+  assertEquals(response.body.success, false);
+});
+
+routeTest("GET /api/watches returns facet counts when asked", async (server) => {
+  const response = await server.get("/api/watches?facets=true");
+
+  assertEquals(response.status, 200);
+  assertExists(response.body.facets);
+  assertEquals(response.body.facets.brand.length, 4);
+  assert(response.body.facets.decade.length >= 1);
+
+  const withoutFacets = await server.get("/api/watches");
+  assertEquals(withoutFacets.body.facets, undefined);
+});
+
+routeTest("GET /api/watches/search is not shadowed by /api/watches/:id", async (server) => {
+  const response = await server.get("/api/watches/search?q=submariner");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.success, true);
+  assertEquals(response.body.data.length, 1);
+  assertEquals(response.body.data[0].reference, "116610LN");
+  assertStringIncludes(response.body.data[0].highlights.model, "<mark>");
+});
+
+routeTest("GET /api/watches/search matches references regardless of spacing", async (server) => {
+  const response = await server.get(`/api/watches/search?q=${encodeURIComponent("116610 LN")}`);
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.length, 1);
+  assertEquals(response.body.data[0].brand, "Rolex");
+});
+
+routeTest("GET /api/watches/search validates the query", async (server) => {
+  const response = await server.get("/api/watches/search?sortBy=relevance");
+
+  assertEquals(response.status, 400);
+  assertEquals(response.body.success, false);
+});
+
+routeTest("GET /api/watches/brand/:brand is not shadowed by /api/watches/:id", async (server) => {
+  const response = await server.get("/api/watches/brand/Omega");
+
+  assertEquals(response.status, 200);
+  assertEquals(response.body.data.length, 1);
+  assertEquals(response.body.data[0].brand, "Omega");
+});
+
+routeTest("GET /api/watches/:id returns one watch, 404 when missing and 400 when malformed", async (server) => {
+  const list = await server.get("/api/watches");
+  const id = list.body.data[0].id;
+
+  const found = await server.get(`/api/watches/${id}`);
+  assertEquals(found.status, 200);
+  assertEquals(found.body.data.id, id);
+
+  const missing = await server.get("/api/watches/9999");
+  assertEquals(missing.status, 404);
+
+  const malformed = await server.get("/api/watches/abc");
+  assertEquals(malformed.status, 400);
+});
+
+routeTest("GET /api/admin/watches requires authentication", async (server) => {
+  const anonymous = await server.get("/api/admin/watches");
+  assertEquals(anonymous.status, 401);
+
+  const garbage = await server.get("/api/admin/watches", { token: "not-a-jwt" });
+  assertEquals(garbage.status, 401);
+
+  const viewer = await server.createUser("viewer");
+  const response = await server.get("/api/admin/watches", { token: viewer.token });
+  assertEquals(response.status, 200);
+  assertEquals(response.body.count, 4);
+  assertExists(response.body.stats);
+});
+
+routeTest("POST /api/admin/watches creates a watch visible in the catalog", async (server) => {
+  const token = await server.login();
+
+  const created = await server.post("/api/admin/watches", { token, body: NEW_WATCH });
+  assertEquals(created.status, 201);
+  assertEquals(created.body.success, true);
+
+  const search = await server.get("/api/watches/search?q=tudor");
+  assertEquals(search.body.data.length, 1);
+  assertEquals(search.body.data[0].model, NEW_WATCH.model);
+});
+
+routeTest("POST /api/admin/watches reports missing required fields", async (server) => {
+  const token = await server.login();
+  const { price: _price, ...withoutPrice } = NEW_WATCH;
+
+  const response = await server.post("/api/admin/watches", { token, body: withoutPrice });
+
+  assertEquals(response.status, 422);
+  assertEquals(response.body.code, "VALIDATION_ERROR");
+  assertExists(response.body.fields.price);
+  assertStringIncludes(response.body.details[0], "price");
+});
+
+routeTest("POST /api/admin/watches rejects unknown condition and status values", async (server) => {
+  const token = await server.login();
+
+  const response = await server.post("/api/admin/watches", {
+    token,
+    body: { ...NEW_WATCH, condition: "pristine", status: "lost" }
+  });
+
+  assertEquals(response.status, 422);
+  assertExists(response.body.fields.condition);
+  assertExists(response.body.fields.status);
+});
+
+routeTest("POST /api/admin/watches is forbidden without watches:create", async (server) => {
+  const viewer = await server.createUser("viewer");
+
+  const response = await server.post("/api/admin/watches", { token: viewer.token, body: NEW_WATCH });
+
+  assertEquals(response.status, 403);
+  assertEquals(response.body.code, "INSUFFICIENT_PERMISSIONS");
+});
+
+routeTest("PUT /api/admin/watches/:id updates a watch", async (server) => {
+  const token = await server.login();
+  const id = (await server.get("/api/watches/brand/Omega")).body.data[0].id;
+
+  const updated = await server.put(`/api/admin/watches/${id}`, { token, body: { price: 3900 } });
+  assertEquals(updated.status, 200);
+
+  const watch = await server.get(`/api/watches/${id}`);
+  assertEquals(watch.body.data.price, 3900);
+
+  const missing = await server.put("/api/admin/watches/9999", { token, body: { price: 1 } });
+  assertEquals(missing.status, 404);
+
+  const malformed = await server.put("/api/admin/watches/abc", { token, body: { price: 1 } });
+  assertEquals(malformed.status, 400);
+});
+
+routeTest("PUT /api/admin/watches/:id validates the changed fields", async (server) => {
+  const token = await server.login();
+  const id = (await server.get("/api/watches/brand/Omega")).body.data[0].id;
+
+  const invalid = await server.put(`/api/admin/watches/${id}`, { token, body: { price: -5, status: "lost" } });
+  assertEquals(invalid.status, 422);
+  assertExists(invalid.body.fields.price);
+  assertExists(invalid.body.fields.status);
+
+  const nothing = await server.put(`/api/admin/watches/${id}`, { token, body: { created_at: "2000-01-01" } });
+  assertEquals(nothing.status, 400);
+});
+
+routeTest("DELETE /api/admin/watches/:id removes the watch from the public catalog", async (server) => {
+  const token = await server.login();
+  const id = (await server.get("/api/watches/brand/Omega")).body.data[0].id;
+
+  const deleted = await server.delete(`/api/admin/watches/${id}`, { token });
+  assertEquals(deleted.status, 200);
+
+  const watch = await server.get(`/api/watches/${id}`);
+  assertEquals(watch.status, 404);
+
+  const again = await server.delete("/api/admin/watches/9999", { token });
+  assertEquals(again.status, 404);
+
+  const staff = await server.createUser("staff");
+  const forbidden = await server.delete(`/api/admin/watches/${id}`, { token: staff.token });
+  assertEquals(forbidden.status, 403);
+});
+
+routeTest("GET /api/admin/stats needs analytics:read", async (server) => {
+  const token = await server.login();
+  const response = await server.get("/api/admin/stats", { token });
+  assertEquals(response.status, 200);
+  assertEquals(response.body.success, true);
+
+  const viewer = await server.createUser("viewer");
+  const forbidden = await server.get("/api/admin/stats", { token: viewer.token });
+  assertEquals(forbidden.status, 403);
+});
@@ -28,6 +28,7 @@ export interface PaginationInfo {
   totalPages?: number;
   hasMore: boolean;
   hasPrevious?: boolean;
+  nextCursor?: string; // Pass back as ?cursor= for stable keyset paging
 }
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
@@ -46,13 +47,28 @@ export interface WatchStatsResponse extends ApiResponse<WatchStatistics> {}
 export interface LoginRequest {
   username: string;
   password: string;
+  remember_me?: boolean;
 }
 
-export interface LoginResponse extends ApiResponse<{
+export interface TokenPair {
   token: string;
+  token_type: "Bearer";
+  expires_in: number; // seconds until the access token expires
+  refresh_token: string;
+  refresh_expires_at: string;
+  session_id: string;
+}
+
+export interface LoginResponse extends ApiResponse<TokenPair & {
   user: Omit<User, 'password_hash'>;
 }> {}
 
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
+export interface RefreshTokenResponse extends ApiResponse<TokenPair> {}
+
 export interface AuthUserResponse extends ApiResponse<Omit<User, 'password_hash'>> {}
 
 export interface ChangePasswordRequest {
@@ -78,6 +94,8 @@ export interface Inquiry {
   customer_phone?: string;
   message: string;
   status: InquiryStatus;
+  spam_score?: number;
+  spam_reasons?: string; // JSON array of SpamReason
   created_at: string;
   updated_at?: string;
   // Joined data from watch table
@@ -85,7 +103,8 @@ export interface Inquiry {
   watch_price?: number;
 }
 
-export type InquiryStatus = "pending" | "responded" | "completed" | "closed";
+// "quarantined" submissions scored as likely spam and skipped the WhatsApp notification
+export type InquiryStatus = "pending" | "responded" | "completed" | "closed" | "quarantined";
 
 export interface InquiryResponse extends ApiResponse<Inquiry> {}
 
@@ -125,11 +144,13 @@ export interface SellSubmission {
   status: SellSubmissionStatus;
   estimated_value?: number;
   notes?: string;
+  spam_score?: number;
+  spam_reasons?: string;
   created_at: string;
   updated_at?: string;
 }
 
-export type SellSubmissionStatus = "pending" | "quoted" | "accepted" | "completed" | "rejected";
+export type SellSubmissionStatus = "pending" | "quoted" | "accepted" | "completed" | "rejected" | "quarantined";
 
 export interface SellSubmissionResponse extends ApiResponse<SellSubmission> {}
 
@@ -223,6 +244,7 @@ export interface ApiError {
   timestamp: string;
   path?: string;
   method?: string;
+  requestId?: string;
 }
 
 export interface ValidationError extends ApiError {
@@ -356,6 +378,32 @@ export interface FileUploadResponse extends ApiResponse<{
   mimeType: string;
 }> {}
 
+// Private documents attached to a watch or sell submission (warranty cards, service receipts,
+// authenticity certificates). They are never public; staff download them through signed links.
+export type AttachmentOwnerType = "watch" | "sell_submission";
+export type AttachmentCategory = Exclude<FileUploadRequest["category"], "watch-image">;
+
+export const ATTACHMENT_CATEGORIES: readonly AttachmentCategory[] = ["certificate", "document"];
+
+export interface Attachment {
+  id: number;
+  owner_type: AttachmentOwnerType;
+  owner_id: number;
+  category: AttachmentCategory;
+  description?: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  sha256: string;
+  uploaded_by?: number;
+  created_at: string;
+}
+
+export interface AttachmentDownloadLink {
+  url: string; // Relative; works without an Authorization header until it expires
+  expires_at: string;
+}
+
 // Export types for external consumption
 export type {
   ApiResponse,
@@ -370,6 +418,23 @@ export type {
   RateLimitError
 };
 
+export const INQUIRY_STATUSES: Record<InquiryStatus, string> = {
+  "pending": "Pending",
+  "responded": "Responded",
+  "completed": "Completed",
+  "closed": "Closed",
+  "quarantined": "Quarantined"
+} as const;
+
+export const SELL_SUBMISSION_STATUSES: Record<SellSubmissionStatus, string> = {
+  "pending": "Pending",
+  "quoted": "Quoted",
+  "accepted": "Accepted",
+  "completed": "Completed",
+  "rejected": "Rejected",
+  "quarantined": "Quarantined"
+} as const;
+
 // HTTP status code constants
 export const HTTP_STATUS = {
   OK: 200,
@@ -399,8 +464,11 @@ export const API_ENDPOINTS = {
   // Auth endpoints
   LOGIN: "/api/auth/login",
   LOGOUT: "/api/auth/logout",
+  REFRESH: "/api/auth/refresh",
   ME: "/api/auth/me",
   CHANGE_PASSWORD: "/api/auth/change-password",
+  PASSWORD_RESET_REQUEST: "/api/auth/password-reset/request",
+  PASSWORD_RESET_CONFIRM: "/api/auth/password-reset/confirm",
   
   // Admin endpoints
   ADMIN_WATCHES: "/api/admin/watches",
@@ -17,6 +17,8 @@ export interface User {
   language?: string;
   email_verified?: boolean;
   is_active?: boolean;
+  must_change_password?: boolean;
+  totp_enabled?: boolean;
 }
 
 export type UserRole = "admin" | "manager" | "staff" | "viewer";
@@ -143,6 +145,21 @@ export interface UserSession {
   created_at: string;
   expires_at: string;
   is_active: boolean;
+  remember_me?: boolean;
+}
+
+// Long-lived API tokens for scripts and integrations
+export interface ApiToken {
+  id: number;
+  user_id: number;
+  name: string;
+  token_prefix: string; // First characters of the token, for recognising it in listings
+  scopes: string[]; // "resource:action", e.g. "watches:read" or "inquiries:write"
+  expires_at: string;
+  last_used_at?: string | null;
+  last_used_ip?: string | null;
+  created_at: string;
+  revoked_at?: string | null;
 }
 
 export interface SessionInfo {
@@ -191,26 +208,33 @@ export const ROLE_PERMISSIONS: Record<UserRole, UserPermission[]> = {
     { resource: "watches", actions: ["create", "read", "update", "delete", "list", "export", "import"] },
     { resource: "inquiries", actions: ["create", "read", "update", "delete", "list", "export"] },
     { resource: "sell_submissions", actions: ["create", "read", "update", "delete", "list", "export"] },
+    { resource: "reservations", actions: ["create", "read", "update", "delete", "list"] },
     { resource: "users", actions: ["create", "read", "update", "delete", "list"] },
     { resource: "settings", actions: ["read", "update"] },
     { resource: "analytics", actions: ["read"] },
-    { resource: "integrations", actions: ["read", "update"] }
+    { resource: "integrations", actions: ["read", "update"] },
+    { resource: "api_tokens", actions: ["create", "read", "delete", "list"] },
+    { resource: "security", actions: ["read", "list"] },
+    { resource: "audit_logs", actions: ["read", "list"] }
   ],
   manager: [
     { resource: "watches", actions: ["create", "read", "update", "list", "export"] },
     { resource: "inquiries", actions: ["create", "read", "update", "list", "export"] },
     { resource: "sell_submissions", actions: ["create", "read", "update", "list", "export"] },
+    { resource: "reservations", actions: ["create", "read", "update", "list"] },
     { resource: "analytics", actions: ["read"] }
   ],
   staff: [
     { resource: "watches", actions: ["create", "read", "update", "list"] },
     { resource: "inquiries", actions: ["create", "read", "update", "list"] },
-    { resource: "sell_submissions", actions: ["create", "read", "update", "list"] }
+    { resource: "sell_submissions", actions: ["create", "read", "update", "list"] },
+    { resource: "reservations", actions: ["create", "read", "update", "list"] }
   ],
   viewer: [
     { resource: "watches", actions: ["read", "list"] },
     { resource: "inquiries", actions: ["read", "list"] },
-    { resource: "sell_submissions", actions: ["read", "list"] }
+    { resource: "sell_submissions", actions: ["read", "list"] },
+    { resource: "reservations", actions: ["read", "list"] }
   ]
 } as const;
 
@@ -220,12 +244,12 @@ export interface UserValidationRules {
     required: true;
     minLength: 3;
     maxLength: 50;
-    pattern: /^[a-zA-Z0-9_]+$/;
+    pattern: RegExp;
   };
   email: {
     required: true;
     maxLength: 255;
-    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    pattern: RegExp;
   };
   password: {
     required: true;
@@ -238,14 +262,14 @@ export interface UserValidationRules {
   };
   first_name: {
     maxLength: 50;
-    pattern: /^[a-zA-Z\s]+$/;
+    pattern: RegExp;
   };
   last_name: {
     maxLength: 50;
-    pattern: /^[a-zA-Z\s]+$/;
+    pattern: RegExp;
   };
   phone: {
-    pattern: /^\+?[\d\s\-\(\)]+$/;
+    pattern: RegExp;
     maxLength: 20;
   };
 }
@@ -328,6 +352,10 @@ export type SecurityEventType =
   | "login_success"
   | "login_failure"
   | "password_change"
+  | "password_reset_request"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "two_factor_failure"
   | "account_locked"
   | "suspicious_activity"
   | "unauthorized_access"
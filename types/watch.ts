@@ -16,6 +16,36 @@ export interface Watch {
   status?: WatchStatus;
   created_at?: string;
   updated_at?: string;
+  images?: WatchImage[];
+}
+
+// One photo in a watch's gallery; `variants` are the WebP sizes generated on upload
+export interface WatchImage {
+  id: number;
+  watch_id: number;
+  filename: string;
+  url: string;
+  mime_type?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  variants: WatchImageVariant[];
+  srcset?: string;
+  alt_text?: string;
+  caption?: string;
+  position: number;
+  is_primary: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface WatchImageVariant {
+  name: string;
+  url: string;
+  filename: string;
+  width: number;
+  height: number;
+  size: number;
 }
 
 export type WatchCondition = 
@@ -31,6 +61,29 @@ export type WatchStatus =
   | "reserved" 
   | "deleted";
 
+// A hold on a watch for one customer. While active the watch is "reserved"; a released or expired hold
+// puts it back to "available", and a completed one marks it "sold" to that customer.
+export type ReservationStatus = "active" | "released" | "expired" | "completed";
+
+export interface Reservation {
+  id: number;
+  watch_id: number;
+  inquiry_id?: number;
+  customer_name: string;
+  customer_email: string;
+  customer_phone?: string;
+  deposit_amount: number;
+  status: ReservationStatus;
+  expires_at: string;
+  extension_count: number;
+  notes?: string;
+  release_reason?: string;
+  released_at?: string; // When the hold ended, however it ended
+  created_by?: number;
+  created_at: string;
+  updated_at?: string;
+}
+
 export interface WatchSearchFilters {
   q?: string; // Search query
   brand?: string;
@@ -53,9 +106,44 @@ export type WatchSortField =
   | "year" 
   | "brand" 
   | "model" 
+  | "condition" 
+  | "relevance" 
   | "created_at" 
   | "updated_at";
 
+// Search matches with <mark>-highlighted (HTML-escaped) fields
+export interface WatchSearchHighlights {
+  brand: string;
+  model: string;
+  reference: string;
+  description?: string; // Excerpt around the first match
+}
+
+export interface WatchSearchResult extends Watch {
+  relevance?: number; // Higher is better; only with sortBy=relevance
+  highlights?: WatchSearchHighlights;
+}
+
+// Counts for storefront filter chips. Each facet ignores its own filter (so sibling options keep
+// their counts) but applies every other active filter.
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface PriceFacetCount extends FacetCount {
+  min: number;
+  max: number | null; // Exclusive; null for the open-ended top bucket
+}
+
+export interface WatchFacets {
+  brand: FacetCount[];
+  condition: FacetCount[];
+  price: PriceFacetCount[];
+  decade: FacetCount[];
+}
+
 export interface WatchStatistics {
   totalWatches: number;
   totalValue: number;
@@ -277,6 +365,13 @@ export const WATCH_CONDITIONS: Record<WatchCondition, string> = {
   "fair": "Fair"
 } as const;
 
+export const RESERVATION_STATUSES: Record<ReservationStatus, string> = {
+  "active": "Active",
+  "released": "Released",
+  "expired": "Expired",
+  "completed": "Completed"
+} as const;
+
 export const WATCH_STATUSES: Record<WatchStatus, string> = {
   "available": "Available",
   "sold": "Sold",
@@ -5,6 +5,7 @@ export const APP_CONFIG = {
   NAME: "Prestige Timepieces",
   VERSION: "1.0.0",
   DESCRIPTION: "Luxury Watch Reseller Platform",
+  ENVIRONMENT: Deno.env.get("APP_ENV") || "development", // "production" hides internal error details
   AUTHOR: "Prestige Timepieces Team",
   WEBSITE: "https://prestigetimepieces.com",
   SUPPORT_EMAIL: "support@prestigetimepieces.com",
@@ -38,8 +39,17 @@ export const API_CONFIG = {
   MAX_PAGE_SIZE: 100,
   RATE_LIMIT: {
     WINDOW_MS: 15 * 60 * 1000, // 15 minutes
-    MAX_REQUESTS: 100,
-    SKIP_SUCCESSFUL_REQUESTS: false
+    MAX_REQUESTS: 100, // Per client IP; the bucket refills continuously over WINDOW_MS
+    MAX_REQUESTS_PER_USER: 1000, // Per signed-in user, since the admin panel is chatty
+    SKIP_SUCCESSFUL_REQUESTS: false,
+    STORE: Deno.env.get("RATE_LIMIT_STORE") || "memory", // memory or sqlite (shared by every process using the database)
+    // Per-route budgets that replace the defaults above, for endpoints that are costly to abuse
+    ROUTES: [
+      { method: "POST", path: "/api/inquiries", maxRequests: 5, windowMs: 60 * 60 * 1000 }, // Each one sends a WhatsApp notification
+      { method: "POST", path: "/api/sell", maxRequests: 5, windowMs: 60 * 60 * 1000 },
+      { method: "POST", path: "/api/auth/login", maxRequests: 20, windowMs: 15 * 60 * 1000 },
+      { method: "POST", path: "/api/auth/password-reset/request", maxRequests: 5, windowMs: 60 * 60 * 1000 }
+    ]
   },
   CORS: {
     ALLOWED_ORIGINS: ["http://localhost:3000", "http://localhost:8000"],
@@ -52,14 +62,23 @@ export const API_CONFIG = {
 // Authentication constants
 export const AUTH_CONFIG = {
   JWT_SECRET: Deno.env.get("JWT_SECRET") || "prestige-timepieces-secret-key",
-  JWT_EXPIRES_IN: "24h",
+  JWT_EXPIRES_IN: "15m",
   JWT_REFRESH_EXPIRES_IN: "7d",
+  ACCESS_TOKEN_EXPIRES: 15 * 60 * 1000, // 15 minutes (JWT_EXPIRES_IN)
+  REFRESH_TOKEN_EXPIRES: 7 * 24 * 60 * 60 * 1000, // 7 days (JWT_REFRESH_EXPIRES_IN)
   BCRYPT_ROUNDS: 12,
+  PASSWORD_HASH_ITERATIONS: parseInt(Deno.env.get("PASSWORD_HASH_ITERATIONS") || "310000"), // PBKDF2-SHA256 work factor
   MAX_LOGIN_ATTEMPTS: 5,
+  MAX_LOGIN_ATTEMPTS_PER_IP: 20, // Across all usernames, to slow down credential stuffing
   LOCKOUT_DURATION: 15 * 60 * 1000, // 15 minutes
   SESSION_TIMEOUT: 24 * 60 * 60 * 1000, // 24 hours
   REMEMBER_ME_DURATION: 30 * 24 * 60 * 60 * 1000, // 30 days
+  API_TOKEN_PREFIX: "pt_", // Distinguishes API tokens from JWTs in the Authorization header
+  API_TOKEN_DEFAULT_EXPIRY_DAYS: 90,
+  API_TOKEN_MAX_EXPIRY_DAYS: 365,
   PASSWORD_RESET_EXPIRES: 60 * 60 * 1000, // 1 hour
+  TWO_FACTOR_CHALLENGE_EXPIRES: 5 * 60 * 1000, // 5 minutes to enter the code after the password
+  TWO_FACTOR_MAX_ATTEMPTS: 5, // Wrong codes allowed per login challenge
   EMAIL_VERIFICATION_EXPIRES: 24 * 60 * 60 * 1000 // 24 hours
 } as const;
 
@@ -166,6 +185,8 @@ export const WATCH_CONFIG = {
 // File upload constants
 export const FILE_CONFIG = {
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
+  MAX_IMAGE_PIXELS: 40_000_000, // Refused before decoding; a small file can still expand to gigabytes of pixels
+  WEBP_QUALITY: 80,
   ALLOWED_IMAGE_TYPES: [
     "image/jpeg",
     "image/jpg",
@@ -179,6 +200,10 @@ export const FILE_CONFIG = {
     "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
     "text/plain"
   ],
+  // Private uploads (documents, certificates) live under this root, outside the static tree, and are only
+  // served through signed download links
+  STORAGE_ROOT: Deno.env.get("STORAGE_ROOT") || "./storage",
+  DOWNLOAD_LINK_EXPIRES: 5 * 60 * 1000, // 5 minutes
   UPLOAD_PATHS: {
     WATCHES: "/uploads/watches",
     CERTIFICATES: "/uploads/certificates",
@@ -193,6 +218,51 @@ export const FILE_CONFIG = {
   }
 } as const;
 
+// Static asset serving (middleware/static.ts)
+export const STATIC_CONFIG = {
+  ROOT: Deno.env.get("STATIC_ROOT") || "./static",
+  URL_PREFIX: "/static/",
+  // Pages served from the root at friendlier URLs
+  PAGES: {
+    "/": "index.html",
+    "/index.html": "index.html",
+    "/admin": "admin.html",
+    "/admin.html": "admin.html"
+  } as Record<string, string>,
+  MIME_TYPES: {
+    html: "text/html; charset=utf-8",
+    css: "text/css; charset=utf-8",
+    js: "text/javascript; charset=utf-8",
+    mjs: "text/javascript; charset=utf-8",
+    json: "application/json; charset=utf-8",
+    map: "application/json; charset=utf-8",
+    txt: "text/plain; charset=utf-8",
+    xml: "application/xml; charset=utf-8",
+    webmanifest: "application/manifest+json; charset=utf-8",
+    svg: "image/svg+xml",
+    ico: "image/x-icon",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    avif: "image/avif",
+    woff: "font/woff",
+    woff2: "font/woff2",
+    ttf: "font/ttf",
+    otf: "font/otf",
+    pdf: "application/pdf"
+  } as Record<string, string>,
+  DEFAULT_MIME_TYPE: "application/octet-stream",
+  // Types worth compressing; images and fonts other than SVG are already compressed
+  COMPRESSIBLE_TYPES: ["text/", "application/json", "application/xml", "application/manifest+json", "image/svg+xml"],
+  MIN_COMPRESS_BYTES: 1024,
+  // Files named like app.3f9a2b1c.js change name when their content changes, so they can be cached for good
+  FINGERPRINT_PATTERN: /[.-][0-9a-f]{8,}\.[a-z0-9]+$/i,
+  IMMUTABLE_MAX_AGE: 365 * 24 * 60 * 60, // Seconds
+  MAX_AGE: 0 // Everything else is revalidated with ETag / Last-Modified
+} as const;
+
 // External API constants
 export const EXTERNAL_API_CONFIG = {
   WATCHCHARTS: {
@@ -282,7 +352,10 @@ export const BUSINESS_CONFIG = {
   },
   INQUIRY_RESPONSE_TIME: 24 * 60 * 60 * 1000, // 24 hours
   QUOTE_VALIDITY_DAYS: 7,
-  RESERVATION_HOLD_DAYS: 3
+  RESERVATION_HOLD_DAYS: 3, // Default hold, and the default length of each extension
+  RESERVATION_MAX_HOLD_DAYS: 30, // Longest single hold or extension
+  RESERVATION_MAX_EXTENSIONS: 2,
+  RESERVATION_EXPIRY_CHECK_INTERVAL: 5 * 60 * 1000 // How often expired holds are released (5 minutes)
 } as const;
 
 // Notification constants
@@ -312,6 +385,41 @@ export const NOTIFICATION_CONFIG = {
   BATCH_SIZE: 100
 } as const;
 
+// Spam scoring for the public inquiry and sell forms; submissions scoring QUARANTINE_SCORE or more
+// are stored as "quarantined" and don't notify WhatsApp
+export const SPAM_CONFIG = {
+  QUARANTINE_SCORE: 5,
+  HONEYPOT_FIELD: "website", // Hidden from people by the form, so only bots fill it in
+  FORM_TOKEN_FIELD: "form_token", // Issued by GET /api/form-token when the form is rendered; signed with its issue time
+  MIN_FILL_TIME_MS: 3000,
+  DUPLICATE_WINDOW_MS: 24 * 60 * 60 * 1000,
+  MAX_LINKS: 1, // Links allowed in free text before each one counts against the submission
+  WEIGHTS: {
+    HONEYPOT: 10,
+    TOO_FAST: 5, // Also charged when the form token is missing or invalid
+    DUPLICATE: 5,
+    DISPOSABLE_EMAIL: 3,
+    LINK: 2,
+    KEYWORD: 2
+  },
+  // Defaults for the spam_keywords and spam_disposable_domains settings (comma-separated)
+  KEYWORDS: ["crypto", "bitcoin", "casino", "viagra", "seo services", "backlinks", "loan offer", "replica"],
+  DISPOSABLE_EMAIL_DOMAINS: [
+    "mailinator.com",
+    "guerrillamail.com",
+    "10minutemail.com",
+    "tempmail.com",
+    "temp-mail.org",
+    "yopmail.com",
+    "trashmail.com",
+    "sharklasers.com",
+    "getnada.com",
+    "dispostable.com",
+    "throwawaymail.com",
+    "maildrop.cc"
+  ]
+} as const;
+
 // Search constants
 export const SEARCH_CONFIG = {
   MIN_SEARCH_LENGTH: 2,
@@ -366,6 +474,11 @@ export const ERROR_CODES = {
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
   UNAUTHORIZED: "UNAUTHORIZED",
   FORBIDDEN: "FORBIDDEN",
+  ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
+  ACCOUNT_DISABLED: "ACCOUNT_DISABLED",
+  PASSWORD_CHANGE_REQUIRED: "PASSWORD_CHANGE_REQUIRED",
+  TWO_FACTOR_REQUIRED: "TWO_FACTOR_REQUIRED",
+  TWO_FACTOR_SETUP_REQUIRED: "TWO_FACTOR_SETUP_REQUIRED",
   
   // Validation errors
   VALIDATION_ERROR: "VALIDATION_ERROR",
@@ -381,6 +494,8 @@ export const ERROR_CODES = {
   DATABASE_ERROR: "DATABASE_ERROR",
   EXTERNAL_API_ERROR: "EXTERNAL_API_ERROR",
   FILE_UPLOAD_ERROR: "FILE_UPLOAD_ERROR",
+  FILE_TOO_LARGE: "FILE_TOO_LARGE",
+  UNSUPPORTED_FILE_TYPE: "UNSUPPORTED_FILE_TYPE",
   RATE_LIMIT_EXCEEDED: "RATE_LIMIT_EXCEEDED",
   INTERNAL_ERROR: "INTERNAL_ERROR",
   
@@ -402,7 +517,10 @@ export const HTTP_STATUS = {
   NOT_FOUND: 404,
   METHOD_NOT_ALLOWED: 405,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
   UNPROCESSABLE_ENTITY: 422,
+  LOCKED: 423,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
   BAD_GATEWAY: 502,
@@ -509,26 +627,3 @@ export const ENV_CONFIG = {
     MOCK_EXTERNAL_APIS: true
   }
 } as const;
-
-// Export all constants
-export {
-  APP_CONFIG,
-  DATABASE_CONFIG,
-  API_CONFIG,
-  AUTH_CONFIG,
-  WATCH_CONFIG,
-  FILE_CONFIG,
-  EXTERNAL_API_CONFIG,
-  VALIDATION_CONFIG,
-  BUSINESS_CONFIG,
-  NOTIFICATION_CONFIG,
-  SEARCH_CONFIG,
-  CACHE_CONFIG,
-  ERROR_CODES,
-  HTTP_STATUS,
-  EMAIL_TEMPLATES,
-  REGEX_PATTERNS,
-  DEFAULTS,
-  FEATURE_FLAGS,
-  ENV_CONFIG
-};
\ No newline at end of file
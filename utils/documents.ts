@@ -0,0 +1,79 @@
+// utils/documents.ts - Attachment file types and safe download headers
+import { IMAGE_EXTENSIONS, IMAGE_MIME_TYPES, ImageType, sniffImageType } from "./images.ts";
+
+export interface DocumentType {
+  mimeType: string;
+  extension: string;
+  image?: ImageType; // Set for photos and scans
+}
+
+const PDF: DocumentType = { mimeType: "application/pdf", extension: "pdf" };
+const DOC: DocumentType = { mimeType: "application/msword", extension: "doc" };
+const DOCX: DocumentType = {
+  mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  extension: "docx"
+};
+const TEXT: DocumentType = { mimeType: "text/plain", extension: "txt" };
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function extensionOf(name: string): string {
+  return name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+}
+
+function isControl(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+function isPlainText(bytes: Uint8Array): boolean {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    // Tabs and line breaks are the only control characters a text document needs
+    return ![...text].some((char) => isControl(char) && !"\t\n\r".includes(char));
+  } catch {
+    return false;
+  }
+}
+
+// Identifies an attachment from its bytes. PDFs and images are recognised by signature alone. OLE and
+// ZIP containers hold many formats, so Word files also need a matching extension (and, for .docx, a
+// word/ part); plain text needs a .txt name and must decode as UTF-8.
+export function sniffDocumentType(bytes: Uint8Array, originalName: string): DocumentType | null {
+  if (bytes.length >= 5 && String.fromCharCode(...bytes.subarray(0, 5)) === "%PDF-") {
+    return PDF;
+  }
+
+  const image = sniffImageType(bytes);
+  if (image) {
+    return { mimeType: IMAGE_MIME_TYPES[image], extension: IMAGE_EXTENSIONS[image], image };
+  }
+
+  const extension = extensionOf(originalName);
+  if (extension === "doc" && startsWith(bytes, OLE_SIGNATURE)) {
+    return DOC;
+  }
+  if (extension === "docx" && startsWith(bytes, ZIP_SIGNATURE) && new TextDecoder("latin1").decode(bytes).includes("word/")) {
+    return DOCX;
+  }
+  if (extension === "txt" && bytes.length > 0 && isPlainText(bytes)) {
+    return TEXT;
+  }
+
+  return null;
+}
+
+// Content-Disposition that always downloads, with an ASCII fallback name and the original as
+// RFC 5987 UTF-8. Quotes, slashes and control characters never reach the header.
+export function attachmentDisposition(originalName: string, fallbackExtension: string): string {
+  const cleaned = [...originalName].filter((char) => !isControl(char) && !"\"\\/".includes(char)).join("").trim() ||
+    `download.${fallbackExtension}`;
+  const ascii = cleaned.replace(/[^\x20-\x7e]/g, "_");
+  const encoded = encodeURIComponent(cleaned).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
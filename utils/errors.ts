@@ -0,0 +1,132 @@
+// utils/errors.ts - Application errors thrown by handlers and rendered by middleware/errors.ts
+import { ERROR_CODES, HTTP_STATUS } from "./constants.ts";
+
+export type FieldErrors = Record<string, string[]>;
+
+export interface AppErrorOptions {
+  status?: number;
+  code?: string;
+  details?: unknown; // Shown to clients
+  cause?: unknown; // Logged, and only shown outside production
+  retryAfter?: number; // Seconds; sent as Retry-After
+}
+
+// Base class: the message and details are written for clients, so they are always returned
+export class AppError extends Error {
+  status: number;
+  code: string;
+  details?: unknown;
+  retryAfter?: number;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "AppError";
+    this.status = options.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    this.code = options.code ?? ERROR_CODES.INTERNAL_ERROR;
+    this.details = options.details;
+    this.retryAfter = options.retryAfter;
+  }
+
+  // Extra top-level fields for the error envelope
+  responseFields(): Record<string, unknown> {
+    return this.retryAfter === undefined ? {} : { retry_after: this.retryAfter };
+  }
+}
+
+// Malformed requests that aren't about a particular field (bad ids, nothing to update)
+export class BadRequestError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.BAD_REQUEST, code: ERROR_CODES.INVALID_INPUT, ...options });
+    this.name = "BadRequestError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found", options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.NOT_FOUND, code: ERROR_CODES.NOT_FOUND, ...options });
+    this.name = "NotFoundError";
+  }
+}
+
+// Field-level problems; `fields` maps each field to its messages
+export class ValidationError extends AppError {
+  fields: FieldErrors;
+
+  constructor(fields: FieldErrors, message = "Validation failed") {
+    super(message, {
+      status: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      code: ERROR_CODES.VALIDATION_ERROR,
+      details: Object.values(fields).flat()
+    });
+    this.name = "ValidationError";
+    this.fields = fields;
+  }
+
+  override responseFields(): Record<string, unknown> {
+    return { fields: this.fields };
+  }
+}
+
+// 401 by default; pass a status for 403/423 and a more specific code
+export class AuthError extends AppError {
+  constructor(message = "Authentication required", options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.UNAUTHORIZED, code: ERROR_CODES.UNAUTHORIZED, ...options });
+    this.name = "AuthError";
+  }
+}
+
+export class ForbiddenError extends AuthError {
+  constructor(message = "Access denied", options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.FORBIDDEN, code: ERROR_CODES.FORBIDDEN, ...options });
+    this.name = "ForbiddenError";
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.CONFLICT, code: ERROR_CODES.CONFLICT, ...options });
+    this.name = "ConflictError";
+  }
+}
+
+export class RateLimitError extends AppError {
+  limit?: number;
+  resetTime?: Date;
+
+  constructor(
+    message = "Too many requests. Please try again later.",
+    options: AppErrorOptions & { limit?: number; resetTime?: Date } = {}
+  ) {
+    super(message, { status: HTTP_STATUS.TOO_MANY_REQUESTS, code: ERROR_CODES.RATE_LIMIT_EXCEEDED, ...options });
+    this.name = "RateLimitError";
+    this.limit = options.limit;
+    this.resetTime = options.resetTime;
+  }
+
+  override responseFields(): Record<string, unknown> {
+    return {
+      ...super.responseFields(),
+      ...(this.limit !== undefined ? { limit: this.limit } : {}),
+      ...(this.resetTime ? { resetTime: this.resetTime.toISOString() } : {})
+    };
+  }
+}
+
+// A rejected upload; 400 by default, with a status such as 413 or 415 for specific problems
+export class FileUploadError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.BAD_REQUEST, code: ERROR_CODES.FILE_UPLOAD_ERROR, ...options });
+    this.name = "FileUploadError";
+  }
+}
+
+// A third-party service (WatchCharts, WhatsApp providers) failed; the upstream error goes in `cause`
+export class ExternalApiError extends AppError {
+  service: string;
+
+  constructor(service: string, message: string, options: AppErrorOptions = {}) {
+    super(message, { status: HTTP_STATUS.BAD_GATEWAY, code: ERROR_CODES.EXTERNAL_API_ERROR, ...options });
+    this.name = "ExternalApiError";
+    this.service = service;
+  }
+}
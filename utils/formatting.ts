@@ -2,6 +2,7 @@
 
 import { Watch, WatchCondition, WatchStatus, WATCH_CONDITIONS, WATCH_STATUSES } from "../types/watch.ts";
 import { User, UserRole, USER_ROLES } from "../types/user.ts";
+import { logger } from "./logger.ts";
 
 // Currency formatting options
 export interface CurrencyOptions {
@@ -62,7 +63,7 @@ export function formatCurrency(
     
     return formatted;
   } catch (error) {
-    console.error("Currency formatting error:", error);
+    logger.warn("Currency formatting failed", { amount, error });
     return `$${amount.toLocaleString()}`;
   }
 }
@@ -149,7 +150,7 @@ export function formatDate(
         return dateObj.toLocaleDateString(opts.locale);
     }
   } catch (error) {
-    console.error("Date formatting error:", error);
+    logger.warn("Date formatting failed", { error });
     return dateObj.toLocaleDateString();
   }
 }
@@ -379,12 +380,26 @@ export function formatAddress(address: {
   return parts.join(', ');
 }
 
-// Search highlighting
+// Search highlighting: wraps each word of the search in <mark>, matching word prefixes.
+// The result is HTML: the text is escaped, and only letters and digits of the search are matched.
 export function highlightSearchTerm(text: string, searchTerm: string): string {
-  if (!searchTerm || !text) return text;
+  if (!text) return text;
+  
+  const words = (searchTerm || '').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return sanitizeForDisplay(text);
   
-  const regex = new RegExp(`(${searchTerm})`, 'gi');
-  return text.replace(regex, '<mark>$1</mark>');
+  const regex = new RegExp(`(?<![\\p{L}\\p{N}])(${words.join('|')})`, 'giu');
+  return text
+    .split(regex)
+    .map((part, index) => index % 2 === 1 ? `<mark>${sanitizeForDisplay(part)}</mark>` : sanitizeForDisplay(part))
+    .join('');
+}
+
+// Watch references are written with and without separators ("116610LN", "116610 LN", "116610-LN");
+// this is the form used for matching. Must match COMPACT_REFERENCE in the watch_search migration.
+export function normalizeReference(reference: string): string {
+  if (!reference) return '';
+  return reference.replace(/[\s\-./_]+/g, '').toLowerCase();
 }
 
 // Color utilities for status badges
@@ -469,6 +484,7 @@ export const formatters = {
   formatPhoneNumber,
   formatAddress,
   highlightSearchTerm,
+  normalizeReference,
   getStatusColor,
   sanitizeForDisplay,
   formatUrl
@@ -0,0 +1,237 @@
+// utils/images.ts - Image file formats: magic-byte sniffing, header dimensions and metadata stripping
+
+export type ImageType = "jpeg" | "png" | "gif" | "webp";
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export const IMAGE_MIME_TYPES: Record<ImageType, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp"
+};
+
+export const IMAGE_EXTENSIONS: Record<ImageType, string> = {
+  jpeg: "jpg",
+  png: "png",
+  gif: "gif",
+  webp: "webp"
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG chunks that carry camera, author or location data rather than pixels
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+// JPEG segments dropped when stripping: APP1 (EXIF, XMP), APP13 (IPTC) and comments. APP0 (JFIF)
+// and APP2 (ICC colour profile) stay, since removing them changes how the image looks.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[], offset = 0): boolean {
+  return bytes.length >= offset + prefix.length && prefix.every((byte, i) => bytes[offset + i] === byte);
+}
+
+// Identifies an image from its first bytes; the client's content type and file name are not trusted
+export function sniffImageType(bytes: Uint8Array): ImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(bytes, PNG_SIGNATURE)) return "png";
+  if (bytes.length >= 6 && (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a")) return "gif";
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "webp";
+  return null;
+}
+
+function jpegDimensions(bytes: Uint8Array, view: DataView): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+
+    // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function webpDimensions(bytes: Uint8Array, view: DataView): ImageDimensions | null {
+  if (bytes.length < 30) return null;
+
+  switch (ascii(bytes, 12, 4)) {
+    case "VP8 ":
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    case "VP8L": {
+      const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+      return {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+      };
+    }
+    case "VP8X":
+      return {
+        width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+        height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+      };
+    default:
+      return null;
+  }
+}
+
+// Reads the pixel size from the file header, so oversized images can be refused before decoding
+export function imageDimensions(bytes: Uint8Array, type: ImageType): ImageDimensions | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    switch (type) {
+      case "png":
+        return bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+      case "gif":
+        return bytes.length >= 10 ? { width: view.getUint16(6, true), height: view.getUint16(8, true) } : null;
+      case "jpeg":
+        return jpegDimensions(bytes, view);
+      case "webp":
+        return webpDimensions(bytes, view);
+    }
+  } catch {
+    return null; // Truncated header
+  }
+}
+
+// The EXIF orientation (1-8) of a JPEG, or 1 when there is none. Phones save photos sideways and set this
+// tag instead of rotating the pixels, so it has to be applied before the EXIF block is stripped.
+export function jpegOrientation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  try {
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+      const length = view.getUint16(offset + 2);
+
+      if (bytes[offset + 1] === 0xe1 && ascii(bytes, offset + 4, 6) === "Exif\0\0") {
+        const tiff = offset + 10;
+        const littleEndian = ascii(bytes, tiff, 2) === "II";
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+
+      offset += 2 + length;
+    }
+  } catch {
+    // Truncated or malformed EXIF: treat as upright
+  }
+  return 1;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function stripJpeg(bytes: Uint8Array, view: DataView): Uint8Array {
+  const parts = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+
+    // Start of scan: the rest is compressed image data
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+}
+
+function stripPng(bytes: Uint8Array, view: DataView): Uint8Array {
+  const parts = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (!PNG_METADATA_CHUNKS.has(ascii(bytes, offset + 4, 4))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return concat(parts);
+}
+
+function stripWebp(bytes: Uint8Array, view: DataView): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2); // Chunks are padded to an even length
+    const fourcc = ascii(bytes, offset, 4);
+
+    if (fourcc !== "EXIF" && fourcc !== "XMP ") {
+      const chunk = bytes.slice(offset, end);
+      if (fourcc === "VP8X") {
+        chunk[8] &= ~(0x08 | 0x04); // Clear the EXIF and XMP presence flags
+      }
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concat(chunks);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+}
+
+// Removes EXIF (including GPS position), XMP, IPTC and text metadata without touching the pixels
+export function stripImageMetadata(bytes: Uint8Array, type: ImageType): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (type) {
+    case "jpeg":
+      return stripJpeg(bytes, view);
+    case "png":
+      return stripPng(bytes, view);
+    case "webp":
+      return stripWebp(bytes, view);
+    case "gif":
+      return bytes; // GIF has no EXIF
+  }
+}
+
+// Scales to fit inside the box, keeping the aspect ratio; images are never enlarged
+export function fitWithin(source: ImageDimensions, box: ImageDimensions): ImageDimensions {
+  const scale = Math.min(1, box.width / source.width, box.height / source.height);
+  return {
+    width: Math.max(1, Math.round(source.width * scale)),
+    height: Math.max(1, Math.round(source.height * scale))
+  };
+}
@@ -0,0 +1,167 @@
+// utils/logger.ts - Structured JSON logging with levels, request context and redaction
+import { AsyncLocalStorage } from "node:async_hooks";
+import { APP_CONFIG, AUTH_CONFIG, ENV_CONFIG } from "./constants.ts";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL wins; otherwise the level ENV_CONFIG gives the current APP_ENV
+function configuredLevel(): LogLevel {
+  const fromEnv = Deno.env.get("LOG_LEVEL")?.toLowerCase();
+  if (fromEnv && fromEnv in LEVEL_ORDER) {
+    return fromEnv as LogLevel;
+  }
+
+  const environment = APP_CONFIG.ENVIRONMENT.toUpperCase() as keyof typeof ENV_CONFIG;
+  return ENV_CONFIG[environment]?.LOG_LEVEL ?? "info";
+}
+
+let minimumLevel: LogLevel = configuredLevel();
+
+// A writer receives each finished JSON line; swap it out with setLogWriter
+export type LogWriter = (line: string, level: LogLevel) => void;
+
+export const consoleWriter: LogWriter = (line, level) => {
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+let writer: LogWriter = consoleWriter;
+
+export function setLogWriter(next: LogWriter): void {
+  writer = next;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return minimumLevel;
+}
+
+// Fields bound to the request being handled (request id, user id), so services log them too
+const requestContext = new AsyncLocalStorage<LogFields>();
+
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return requestContext.run(fields, fn);
+}
+
+// Adds fields to the current request's context, e.g. the user id once authentication has run
+export function addLogContext(fields: LogFields): void {
+  Object.assign(requestContext.getStore() ?? {}, fields);
+}
+
+// Keys whose values are never logged
+const SECRET_KEY_PATTERN = /pass(word)?|secret|token|authorization|cookie|api[_-]?key|key_value|totp|recovery/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)/g;
+// Keys whose values are phone numbers even without a "+" or separators
+const PHONE_KEY_PATTERN = /phone|mobile|whatsapp/i;
+
+// In free text only "+" prefixed or grouped numbers count as phones, so ids, amounts and epoch
+// timestamps are left alone
+const PHONE_PATTERN = /\+\d[\d\s().-]{6,}\d|\(?\b\d{2,5}\)?(?:[ -]\d{3,5}){2,3}\b/g;
+const MIN_PHONE_DIGITS = 10;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /\bBearer\s+\S+/gi;
+const API_TOKEN_PATTERN = new RegExp(`\\b${AUTH_CONFIG.API_TOKEN_PREFIX}[A-Za-z0-9_-]{8,}`, "g");
+
+function maskPhone(phone: string): string {
+  return `***${phone.replace(/\D/g, "").slice(-4)}`;
+}
+
+// Masks emails (j***@example.com), phone numbers (***4567) and credentials inside free text
+export function redactText(text: string): string {
+  return text
+    .replace(JWT_PATTERN, "[REDACTED]")
+    .replace(BEARER_PATTERN, "Bearer [REDACTED]")
+    .replace(API_TOKEN_PATTERN, "[REDACTED]")
+    .replace(EMAIL_PATTERN, "$1***@$2")
+    .replace(PHONE_PATTERN, (phone) =>
+      phone.startsWith("+") || phone.replace(/\D/g, "").length >= MIN_PHONE_DIGITS ? maskPhone(phone) : phone
+    );
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactText(value);
+  }
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      stack: value.stack && redactText(value.stack),
+      cause: value.cause === undefined ? undefined : redact(value.cause, depth + 1)
+    };
+  }
+
+  if (value === null || typeof value !== "object" || depth > 5) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key === "requestId") {
+      result[key] = item; // A UUID can contain a long run of digits that looks like a phone number
+    } else if (SECRET_KEY_PATTERN.test(key) && item !== undefined && item !== null) {
+      result[key] = "[REDACTED]";
+    } else if (PHONE_KEY_PATTERN.test(key) && (typeof item === "string" || typeof item === "number")) {
+      result[key] = maskPhone(String(item));
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
+
+export class Logger {
+  constructor(private fields: LogFields = {}) {}
+
+  // A logger that adds `fields` to every line
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel]) {
+      return;
+    }
+
+    const entry = redact({
+      ...this.fields,
+      ...requestContext.getStore(),
+      ...fields
+    }) as LogFields;
+
+    writer(JSON.stringify({ time: new Date().toISOString(), level, msg: redactText(message), ...entry }), level);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,144 @@
+// utils/password.ts - Password hashing and verification
+
+import { AUTH_CONFIG } from "./constants.ts";
+
+// Hash format: pbkdf2-sha256$v1$<iterations>$<salt (base64)>$<hash (base64)>
+const HASH_SCHEME = "pbkdf2-sha256";
+const HASH_VERSION = "v1";
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+export interface ParsedPasswordHash {
+  scheme: string;
+  version: string;
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+// Base64 helpers for binary data
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Compare two byte arrays without short-circuiting on the first mismatch
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    baseKey,
+    KEY_BYTES * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+export function parsePasswordHash(stored: string): ParsedPasswordHash | null {
+  const parts = stored.split("$");
+  if (parts.length !== 5 || parts[0] !== HASH_SCHEME) {
+    return null;
+  }
+
+  const iterations = parseInt(parts[2]);
+  if (isNaN(iterations) || iterations <= 0) {
+    return null;
+  }
+
+  try {
+    return {
+      scheme: parts[0],
+      version: parts[1],
+      iterations,
+      salt: fromBase64(parts[3]),
+      hash: fromBase64(parts[4])
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Hashes created before PBKDF2 support were plain base64 of the password
+export function isLegacyHash(stored: string): boolean {
+  return !stored.startsWith(`${HASH_SCHEME}$`);
+}
+
+export async function hashPassword(
+  password: string,
+  iterations: number = AUTH_CONFIG.PASSWORD_HASH_ITERATIONS
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveKey(password, salt, iterations);
+
+  return [HASH_SCHEME, HASH_VERSION, iterations, toBase64(salt), toBase64(hash)].join("$");
+}
+
+// Checked in place of a missing account's hash, so an unknown username takes as long to reject as a
+// wrong password. The all-zero key matches no password.
+export const DUMMY_PASSWORD_HASH = [
+  HASH_SCHEME,
+  HASH_VERSION,
+  AUTH_CONFIG.PASSWORD_HASH_ITERATIONS,
+  toBase64(new Uint8Array(SALT_BYTES)),
+  toBase64(new Uint8Array(KEY_BYTES))
+].join("$");
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!password || !stored) return false;
+
+  if (isLegacyHash(stored)) {
+    try {
+      return timingSafeEqual(encoder.encode(btoa(password)), encoder.encode(stored));
+    } catch {
+      // btoa rejects characters outside Latin-1, which legacy hashes could never contain
+      return false;
+    }
+  }
+
+  const parsed = parsePasswordHash(stored);
+  if (!parsed) return false;
+
+  const candidate = await deriveKey(password, parsed.salt, parsed.iterations);
+  return timingSafeEqual(candidate, parsed.hash);
+}
+
+// True when the stored hash should be replaced after a successful login
+export function needsRehash(stored: string): boolean {
+  if (isLegacyHash(stored)) return true;
+
+  const parsed = parsePasswordHash(stored);
+  if (!parsed) return true;
+
+  return parsed.version !== HASH_VERSION || parsed.iterations < AUTH_CONFIG.PASSWORD_HASH_ITERATIONS;
+}
@@ -0,0 +1,121 @@
+// utils/totp.ts - RFC 6238 time-based one-time passwords (HMAC-SHA1, 30s steps, 6 digits)
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_PERIOD = 30; // seconds
+export const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+// RFC 4226 HOTP value for a counter
+export async function generateHotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret) as BufferSource,
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function currentTimeStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD);
+}
+
+export async function generateTotp(secret: string, now: number = Date.now()): Promise<string> {
+  return await generateHotp(secret, currentTimeStep(now));
+}
+
+// Returns the matching time step (so callers can reject replays), or null.
+// `window` allows for clock drift of that many steps either side.
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  window: number = 1,
+  now: number = Date.now()
+): Promise<number | null> {
+  const normalized = code.replace(/\s+/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const step = currentTimeStep(now);
+  for (let offset = -window; offset <= window; offset++) {
+    if (await generateHotp(secret, step + offset) === normalized) {
+      return step + offset;
+    }
+  }
+
+  return null;
+}
+
+// otpauth:// URI understood by authenticator apps; render it as a QR code client-side
+export function buildProvisioningUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -1,12 +1,18 @@
 // utils/validation.ts - Input validation utilities
 
-import { WatchCondition, WatchStatus, SUPPORTED_BRANDS } from "../types/watch.ts";
+import { WATCH_CONDITIONS, WATCH_STATUSES, SUPPORTED_BRANDS } from "../types/watch.ts";
 import { UserRole, PASSWORD_REQUIREMENTS } from "../types/user.ts";
+import { ATTACHMENT_CATEGORIES, INQUIRY_STATUSES, SELL_SUBMISSION_STATUSES } from "../types/api.ts";
+import { BUSINESS_CONFIG } from "./constants.ts";
+import { FieldErrors } from "./errors.ts";
+
+export type { FieldErrors };
 
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings?: string[];
+  fields?: FieldErrors; // The same errors keyed by request field (entity validators only)
 }
 
 export interface FieldValidationResult {
@@ -47,13 +53,13 @@ export function validateString(
 ): ValidationResult {
   const errors: string[] = [];
   
-  if (!options.allowEmpty && (!value || value.trim() === '')) {
-    errors.push(`${fieldName} cannot be empty`);
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    errors.push(`${fieldName} must be a string`);
     return { isValid: false, errors };
   }
   
-  if (value && typeof value !== 'string') {
-    errors.push(`${fieldName} must be a string`);
+  if (!options.allowEmpty && (!value || value.trim() === '')) {
+    errors.push(`${fieldName} cannot be empty`);
     return { isValid: false, errors };
   }
   
@@ -114,6 +120,39 @@ export function validateNumber(
   };
 }
 
+export function validateEnum(value: unknown, fieldName: string, allowed: readonly string[]): ValidationResult {
+  const errors: string[] = [];
+  
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${fieldName} must be one of: ${allowed.join(", ")}`);
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Stored and submitted conditions may use the label form ("Very Good"); the canonical value is the slug
+export function normalizeWatchCondition(condition: string): string {
+  return condition.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+function addFieldErrors(fields: FieldErrors, field: string, errors: string[]): void {
+  if (errors.length === 0) return;
+  fields[field] = [...(fields[field] || []), ...errors];
+}
+
+function toFieldResult(fields: FieldErrors, warnings?: string[]): ValidationResult {
+  const errors = Object.values(fields).flat();
+  return {
+    isValid: errors.length === 0,
+    errors,
+    fields,
+    ...(warnings ? { warnings } : {})
+  };
+}
+
 export function validateEmail(email: string, fieldName: string = "Email"): ValidationResult {
   const errors: string[] = [];
   
@@ -215,7 +254,7 @@ export function validatePassword(password: string, fieldName: string = "Password
 
 // Watch-specific validation functions
 export function validateWatch(watchData: any): ValidationResult {
-  const errors: string[] = [];
+  const fields: FieldErrors = {};
   const warnings: string[] = [];
   
   // Brand validation
@@ -223,7 +262,7 @@ export function validateWatch(watchData: any): ValidationResult {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...brandResult.errors);
+  addFieldErrors(fields, "brand", brandResult.errors);
   
   // Check if brand is supported
   if (watchData.brand && !SUPPORTED_BRANDS.includes(watchData.brand)) {
@@ -235,14 +274,14 @@ export function validateWatch(watchData: any): ValidationResult {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...modelResult.errors);
+  addFieldErrors(fields, "model", modelResult.errors);
   
   // Reference validation
   const referenceResult = validateString(watchData.reference, "Reference", {
     minLength: 1,
     maxLength: 50
   });
-  errors.push(...referenceResult.errors);
+  addFieldErrors(fields, "reference", referenceResult.errors);
   
   // Year validation
   if (watchData.year) {
@@ -252,17 +291,14 @@ export function validateWatch(watchData: any): ValidationResult {
       max: currentYear + 1,
       integer: true
     });
-    errors.push(...yearResult.errors);
+    addFieldErrors(fields, "year", yearResult.errors);
   }
   
   // Condition validation
   if (!watchData.condition) {
-    errors.push("Condition is required");
+    addFieldErrors(fields, "condition", ["Condition is required"]);
   } else {
-    const validConditions: WatchCondition[] = ["new", "excellent", "very-good", "good", "fair"];
-    if (!validConditions.includes(watchData.condition)) {
-      errors.push("Condition must be one of: " + validConditions.join(", "));
-    }
+    addFieldErrors(fields, "condition", validateEnum(watchData.condition, "Condition", Object.keys(WATCH_CONDITIONS)).errors);
   }
   
   // Price validation
@@ -271,7 +307,7 @@ export function validateWatch(watchData: any): ValidationResult {
     max: 10000000,
     positive: true
   });
-  errors.push(...priceResult.errors);
+  addFieldErrors(fields, "price", priceResult.errors);
   
   // Market price validation (optional)
   if (watchData.market_price) {
@@ -280,7 +316,7 @@ export function validateWatch(watchData: any): ValidationResult {
       max: 10000000,
       positive: true
     });
-    errors.push(...marketPriceResult.errors);
+    addFieldErrors(fields, "market_price", marketPriceResult.errors);
   }
   
   // Description validation (optional)
@@ -289,7 +325,7 @@ export function validateWatch(watchData: any): ValidationResult {
       maxLength: 2000,
       allowEmpty: true
     });
-    errors.push(...descriptionResult.errors);
+    addFieldErrors(fields, "description", descriptionResult.errors);
   }
   
   // Accessories validation (optional)
@@ -298,27 +334,20 @@ export function validateWatch(watchData: any): ValidationResult {
       maxLength: 500,
       allowEmpty: true
     });
-    errors.push(...accessoriesResult.errors);
+    addFieldErrors(fields, "accessories", accessoriesResult.errors);
   }
   
   // Status validation (optional)
   if (watchData.status) {
-    const validStatuses: WatchStatus[] = ["available", "sold", "reserved", "deleted"];
-    if (!validStatuses.includes(watchData.status)) {
-      errors.push("Status must be one of: " + validStatuses.join(", "));
-    }
+    addFieldErrors(fields, "status", validateEnum(watchData.status, "Status", Object.keys(WATCH_STATUSES)).errors);
   }
   
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings
-  };
+  return toFieldResult(fields, warnings);
 }
 
-// User validation functions
-export function validateUser(userData: any): ValidationResult {
-  const errors: string[] = [];
+// User validation functions; isNew also requires the password and role
+export function validateUser(userData: any, options: { isNew?: boolean } = {}): ValidationResult {
+  const fields: FieldErrors = {};
   
   // Username validation
   const usernameResult = validateString(userData.username, "Username", {
@@ -326,24 +355,26 @@ export function validateUser(userData: any): ValidationResult {
     maxLength: 50,
     pattern: /^[a-zA-Z0-9_]+$/
   });
-  errors.push(...usernameResult.errors);
+  addFieldErrors(fields, "username", usernameResult.errors);
   
   // Email validation
   const emailResult = validateEmail(userData.email, "Email");
-  errors.push(...emailResult.errors);
+  addFieldErrors(fields, "email", emailResult.errors);
   
   // Password validation (if provided)
   if (userData.password) {
     const passwordResult = validatePassword(userData.password, "Password");
-    errors.push(...passwordResult.errors);
+    addFieldErrors(fields, "password", passwordResult.errors);
+  } else if (options.isNew) {
+    addFieldErrors(fields, "password", ["Password is required"]);
   }
   
   // Role validation
+  const validRoles: UserRole[] = ["admin", "manager", "staff", "viewer"];
   if (userData.role) {
-    const validRoles: UserRole[] = ["admin", "manager", "staff", "viewer"];
-    if (!validRoles.includes(userData.role)) {
-      errors.push("Role must be one of: " + validRoles.join(", "));
-    }
+    addFieldErrors(fields, "role", validateEnum(userData.role, "Role", validRoles).errors);
+  } else if (options.isNew) {
+    addFieldErrors(fields, "role", ["Role is required"]);
   }
   
   // Optional fields
@@ -353,7 +384,7 @@ export function validateUser(userData: any): ValidationResult {
       pattern: /^[a-zA-Z\s]+$/,
       allowEmpty: true
     });
-    errors.push(...firstNameResult.errors);
+    addFieldErrors(fields, "first_name", firstNameResult.errors);
   }
   
   if (userData.last_name) {
@@ -362,39 +393,36 @@ export function validateUser(userData: any): ValidationResult {
       pattern: /^[a-zA-Z\s]+$/,
       allowEmpty: true
     });
-    errors.push(...lastNameResult.errors);
+    addFieldErrors(fields, "last_name", lastNameResult.errors);
   }
   
   if (userData.phone) {
     const phoneResult = validatePhoneNumber(userData.phone, "Phone");
-    errors.push(...phoneResult.errors);
+    addFieldErrors(fields, "phone", phoneResult.errors);
   }
   
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+  return toFieldResult(fields);
 }
 
 // Inquiry validation
 export function validateInquiry(inquiryData: any): ValidationResult {
-  const errors: string[] = [];
+  const fields: FieldErrors = {};
   
   // Customer name validation
   const nameResult = validateString(inquiryData.customer_name, "Customer Name", {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...nameResult.errors);
+  addFieldErrors(fields, "customer_name", nameResult.errors);
   
   // Customer email validation
   const emailResult = validateEmail(inquiryData.customer_email, "Customer Email");
-  errors.push(...emailResult.errors);
+  addFieldErrors(fields, "customer_email", emailResult.errors);
   
   // Customer phone validation (optional)
   if (inquiryData.customer_phone) {
     const phoneResult = validatePhoneNumber(inquiryData.customer_phone, "Customer Phone");
-    errors.push(...phoneResult.errors);
+    addFieldErrors(fields, "customer_phone", phoneResult.errors);
   }
   
   // Message validation
@@ -402,7 +430,7 @@ export function validateInquiry(inquiryData: any): ValidationResult {
     minLength: 1,
     maxLength: 2000
   });
-  errors.push(...messageResult.errors);
+  addFieldErrors(fields, "message", messageResult.errors);
   
   // Watch ID validation (optional)
   if (inquiryData.watch_id) {
@@ -411,32 +439,48 @@ export function validateInquiry(inquiryData: any): ValidationResult {
       integer: true,
       positive: true
     });
-    errors.push(...watchIdResult.errors);
+    addFieldErrors(fields, "watch_id", watchIdResult.errors);
   }
   
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+  return toFieldResult(fields);
+}
+
+// Admin changes to an inquiry: only status and notes are editable
+export function validateInquiryUpdate(updateData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (updateData.status !== undefined) {
+    addFieldErrors(fields, "status", validateEnum(updateData.status, "Status", Object.keys(INQUIRY_STATUSES)).errors);
+  }
+  
+  if (updateData.notes !== undefined && updateData.notes !== null) {
+    const notesResult = validateString(updateData.notes, "Notes", {
+      maxLength: 2000,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "notes", notesResult.errors);
+  }
+  
+  return toFieldResult(fields);
 }
 
 // Sell submission validation
 export function validateSellSubmission(submissionData: any): ValidationResult {
-  const errors: string[] = [];
+  const fields: FieldErrors = {};
   
   // Brand validation
   const brandResult = validateString(submissionData.brand, "Brand", {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...brandResult.errors);
+  addFieldErrors(fields, "brand", brandResult.errors);
   
   // Model validation
   const modelResult = validateString(submissionData.model, "Model", {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...modelResult.errors);
+  addFieldErrors(fields, "model", modelResult.errors);
   
   // Reference validation (optional)
   if (submissionData.reference) {
@@ -444,7 +488,7 @@ export function validateSellSubmission(submissionData: any): ValidationResult {
       maxLength: 50,
       allowEmpty: true
     });
-    errors.push(...referenceResult.errors);
+    addFieldErrors(fields, "reference", referenceResult.errors);
   }
   
   // Year validation (optional)
@@ -455,28 +499,32 @@ export function validateSellSubmission(submissionData: any): ValidationResult {
       max: currentYear + 1,
       integer: true
     });
-    errors.push(...yearResult.errors);
+    addFieldErrors(fields, "year", yearResult.errors);
   }
   
   // Condition validation
-  const conditionResult = validateString(submissionData.condition, "Condition", {
-    minLength: 1,
-    maxLength: 50
-  });
-  errors.push(...conditionResult.errors);
+  if (!submissionData.condition) {
+    addFieldErrors(fields, "condition", ["Condition is required"]);
+  } else {
+    addFieldErrors(fields, "condition", validateEnum(submissionData.condition, "Condition", Object.keys(WATCH_CONDITIONS)).errors);
+  }
   
   // Customer info validation
   const nameResult = validateString(submissionData.customer_name, "Customer Name", {
     minLength: 1,
     maxLength: 100
   });
-  errors.push(...nameResult.errors);
+  addFieldErrors(fields, "customer_name", nameResult.errors);
   
   const emailResult = validateEmail(submissionData.customer_email, "Customer Email");
-  errors.push(...emailResult.errors);
+  addFieldErrors(fields, "customer_email", emailResult.errors);
   
-  const phoneResult = validatePhoneNumber(submissionData.customer_phone, "Customer Phone");
-  errors.push(...phoneResult.errors);
+  // We call sellers back, so unlike inquiries the phone number is required
+  const phoneRequired = validateRequired(submissionData.customer_phone, "Customer Phone");
+  const phoneResult = phoneRequired.isValid
+    ? validatePhoneNumber(submissionData.customer_phone, "Customer Phone")
+    : phoneRequired;
+  addFieldErrors(fields, "customer_phone", phoneResult.errors);
   
   // Optional fields
   if (submissionData.description) {
@@ -484,7 +532,7 @@ export function validateSellSubmission(submissionData: any): ValidationResult {
       maxLength: 2000,
       allowEmpty: true
     });
-    errors.push(...descriptionResult.errors);
+    addFieldErrors(fields, "description", descriptionResult.errors);
   }
   
   if (submissionData.accessories) {
@@ -492,13 +540,202 @@ export function validateSellSubmission(submissionData: any): ValidationResult {
       maxLength: 500,
       allowEmpty: true
     });
-    errors.push(...accessoriesResult.errors);
+    addFieldErrors(fields, "accessories", accessoriesResult.errors);
   }
   
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+  return toFieldResult(fields);
+}
+
+// Admin changes to a sell submission: status, quote and notes
+export function validateSellSubmissionUpdate(updateData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (updateData.status !== undefined) {
+    addFieldErrors(fields, "status", validateEnum(updateData.status, "Status", Object.keys(SELL_SUBMISSION_STATUSES)).errors);
+  }
+  
+  if (updateData.estimated_value !== undefined && updateData.estimated_value !== null) {
+    const valueResult = validateNumber(updateData.estimated_value, "Estimated Value", {
+      min: 0,
+      max: 10000000
+    });
+    addFieldErrors(fields, "estimated_value", valueResult.errors);
+  }
+  
+  if (updateData.notes !== undefined && updateData.notes !== null) {
+    const notesResult = validateString(updateData.notes, "Notes", {
+      maxLength: 2000,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "notes", notesResult.errors);
+  }
+  
+  return toFieldResult(fields);
+}
+
+// Details of one gallery image; is_primary may come from a multipart form as "true"/"false"
+export function validateWatchImageUpdate(updateData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (updateData.alt_text !== undefined && updateData.alt_text !== null) {
+    const altResult = validateString(updateData.alt_text, "Alt Text", {
+      maxLength: 250,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "alt_text", altResult.errors);
+  }
+  
+  if (updateData.caption !== undefined && updateData.caption !== null) {
+    const captionResult = validateString(updateData.caption, "Caption", {
+      maxLength: 500,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "caption", captionResult.errors);
+  }
+  
+  if (updateData.is_primary !== undefined && ![true, false, "true", "false"].includes(updateData.is_primary)) {
+    addFieldErrors(fields, "is_primary", ["Is Primary must be true or false"]);
+  }
+  
+  return toFieldResult(fields);
+}
+
+// Form fields sent with a document or certificate upload
+export function validateAttachmentUpload(uploadData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (uploadData.category !== undefined) {
+    addFieldErrors(fields, "category", validateEnum(uploadData.category, "Category", ATTACHMENT_CATEGORIES).errors);
+  }
+  
+  if (uploadData.description !== undefined && uploadData.description !== null) {
+    const descriptionResult = validateString(uploadData.description, "Description", {
+      maxLength: 500,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "description", descriptionResult.errors);
+  }
+  
+  return toFieldResult(fields);
+}
+
+// A new reservation hold. Customer details may be left out when they come from the linked inquiry.
+export function validateReservation(reservationData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  const watchIdResult = validateNumber(reservationData.watch_id, "Watch ID", { integer: true, positive: true });
+  addFieldErrors(fields, "watch_id", watchIdResult.errors);
+  
+  if (reservationData.inquiry_id !== undefined && reservationData.inquiry_id !== null) {
+    const inquiryIdResult = validateNumber(reservationData.inquiry_id, "Inquiry ID", { integer: true, positive: true });
+    addFieldErrors(fields, "inquiry_id", inquiryIdResult.errors);
+  }
+  
+  const fromInquiry = reservationData.inquiry_id !== undefined && reservationData.inquiry_id !== null;
+  if (!fromInquiry || reservationData.customer_name !== undefined) {
+    const nameResult = validateString(reservationData.customer_name, "Customer Name", {
+      minLength: 1,
+      maxLength: 100
+    });
+    addFieldErrors(fields, "customer_name", nameResult.errors);
+  }
+  
+  if (!fromInquiry || reservationData.customer_email !== undefined) {
+    addFieldErrors(fields, "customer_email", validateEmail(reservationData.customer_email, "Customer Email").errors);
+  }
+  
+  if (reservationData.customer_phone) {
+    addFieldErrors(fields, "customer_phone", validatePhoneNumber(reservationData.customer_phone, "Customer Phone").errors);
+  }
+  
+  if (reservationData.deposit_amount !== undefined && reservationData.deposit_amount !== null) {
+    const depositResult = validateNumber(reservationData.deposit_amount, "Deposit Amount", {
+      min: 0,
+      max: 10000000,
+      integer: true
+    });
+    addFieldErrors(fields, "deposit_amount", depositResult.errors);
+  }
+  
+  if (reservationData.hold_days !== undefined) {
+    addFieldErrors(fields, "hold_days", validateHoldDays(reservationData.hold_days, "Hold Days").errors);
+  }
+  
+  if (reservationData.notes !== undefined && reservationData.notes !== null) {
+    const notesResult = validateString(reservationData.notes, "Notes", {
+      maxLength: 2000,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "notes", notesResult.errors);
+  }
+  
+  return toFieldResult(fields);
+}
+
+function validateHoldDays(value: number, fieldName: string): ValidationResult {
+  return validateNumber(value, fieldName, {
+    min: 1,
+    max: BUSINESS_CONFIG.RESERVATION_MAX_HOLD_DAYS,
+    integer: true
+  });
+}
+
+// Extending a hold: `days` defaults to BUSINESS_CONFIG.RESERVATION_HOLD_DAYS
+export function validateReservationExtension(extensionData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (extensionData.days !== undefined) {
+    addFieldErrors(fields, "days", validateHoldDays(extensionData.days, "Days").errors);
+  }
+  
+  return toFieldResult(fields);
+}
+
+// Releasing a hold early, optionally with a reason
+export function validateReservationRelease(releaseData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (releaseData.reason !== undefined && releaseData.reason !== null) {
+    const reasonResult = validateString(releaseData.reason, "Reason", {
+      maxLength: 500,
+      allowEmpty: true
+    });
+    addFieldErrors(fields, "reason", reasonResult.errors);
+  }
+  
+  return toFieldResult(fields);
+}
+
+// Settings are flat key/value pairs stored as text
+export function validateSettings(settings: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+    addFieldErrors(fields, "body", ["Settings must be an object of key/value pairs"]);
+    return toFieldResult(fields);
+  }
+  
+  for (const [key, value] of Object.entries(settings)) {
+    if (!/^[a-z0-9_]{1,100}$/.test(key)) {
+      addFieldErrors(fields, key, ["Setting keys may only contain lowercase letters, numbers and underscores"]);
+    }
+    if (!["string", "number", "boolean"].includes(typeof value)) {
+      addFieldErrors(fields, key, ["Setting values must be a string, number or boolean"]);
+    }
+  }
+  
+  return toFieldResult(fields);
+}
+
+// Third-party API key registration
+export function validateApiKey(keyData: any): ValidationResult {
+  const fields: FieldErrors = {};
+  
+  addFieldErrors(fields, "service", validateString(keyData.service, "Service", { maxLength: 50 }).errors);
+  addFieldErrors(fields, "key_name", validateString(keyData.key_name, "Key Name", { maxLength: 100 }).errors);
+  addFieldErrors(fields, "key_value", validateString(keyData.key_value, "Key Value", { maxLength: 1000 }).errors);
+  
+  return toFieldResult(fields);
 }
 
 // Utility functions
@@ -526,9 +763,15 @@ export function normalizePhoneNumber(phone: string): string {
   return cleaned;
 }
 
-export function validateAndSanitize(data: any, validator: (data: any) => ValidationResult): {
+// multilineFields are only trimmed, so line breaks in messages and descriptions survive
+export function validateAndSanitize(
+  data: any,
+  validator: (data: any) => ValidationResult,
+  multilineFields: string[] = []
+): {
   isValid: boolean;
   errors: string[];
+  fields: FieldErrors;
   sanitizedData: any;
 } {
   // Sanitize string fields
@@ -536,7 +779,7 @@ export function validateAndSanitize(data: any, validator: (data: any) => Validat
   
   for (const [key, value] of Object.entries(sanitizedData)) {
     if (typeof value === 'string') {
-      sanitizedData[key] = sanitizeInput(value);
+      sanitizedData[key] = multilineFields.includes(key) ? value.trim() : sanitizeInput(value);
     }
   }
   
@@ -546,6 +789,7 @@ export function validateAndSanitize(data: any, validator: (data: any) => Validat
   return {
     isValid: validationResult.isValid,
     errors: validationResult.errors,
+    fields: validationResult.fields || {},
     sanitizedData
   };
 }
@@ -577,11 +821,3 @@ export function validateBatch<T>(
     totalErrors
   };
 }
-
-// Export all validation functions
-export {
-  validateWatch,
-  validateUser, 
-  validateInquiry,
-  validateSellSubmission
-};
\ No newline at end of file